@@ -13,6 +13,9 @@ import Signup from "./pages/Signup";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import ManageExams from "./pages/admin/ManageExams";
 import ExamEditor from "./pages/admin/ExamEditor";
+import ExamResults from "./pages/admin/ExamResults";
+import QuestionBank from "./pages/admin/QuestionBank";
+import ManageCategories from "./pages/admin/ManageCategories";
 import StudentDashboard from "./pages/student/StudentDashboard";
 import TakeExam from "./pages/student/TakeExam";
 import ExamResult from "./pages/student/ExamResult";
@@ -86,6 +89,30 @@ const AppRoutes = () => (
         </ProtectedRoute>
       }
     />
+    <Route
+      path="/admin/exams/:id/results"
+      element={
+        <ProtectedRoute allowedRoles={['admin']}>
+          <ExamResults />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/admin/questions"
+      element={
+        <ProtectedRoute allowedRoles={['admin']}>
+          <QuestionBank />
+        </ProtectedRoute>
+      }
+    />
+    <Route
+      path="/admin/categories"
+      element={
+        <ProtectedRoute allowedRoles={['admin']}>
+          <ManageCategories />
+        </ProtectedRoute>
+      }
+    />
 
     {/* Student routes */}
     <Route
@@ -0,0 +1,115 @@
+import { CheckCircle2, XCircle } from 'lucide-react';
+import RichText from '@/components/RichText';
+import {
+  describeAnswer,
+  describeResponse,
+  MultipleChoiceAnswer,
+  optionLabel,
+  QuestionContent,
+  QuestionResponse,
+  SingleChoiceAnswer,
+  TrueFalseAnswer,
+} from '@/lib/questionTypes';
+
+interface AnswerReviewProps {
+  question: QuestionContent;
+  response: QuestionResponse | null;
+  isCorrect: boolean;
+}
+
+interface ReviewRowProps {
+  label: string;
+  text: string;
+  correct: boolean;
+  selected: boolean;
+}
+
+function ReviewRow({ label, text, correct, selected }: ReviewRowProps) {
+  return (
+    <div
+      className={`p-2 rounded flex items-center gap-2 ${
+        correct
+          ? 'bg-success/20 text-success'
+          : selected
+          ? 'bg-destructive/20 text-destructive'
+          : 'text-muted-foreground'
+      }`}
+    >
+      <span className="font-medium w-6">{label}.</span>
+      <RichText inline text={text} />
+      {correct && <CheckCircle2 className="w-4 h-4 ml-auto" />}
+      {selected && !correct && <XCircle className="w-4 h-4 ml-auto" />}
+    </div>
+  );
+}
+
+export default function AnswerReview({ question, response, isCorrect }: AnswerReviewProps) {
+  switch (question.question_type) {
+    case 'single_choice':
+    case 'multiple_choice': {
+      const correct = question.question_type === 'multiple_choice'
+        ? (question.answer as MultipleChoiceAnswer).options
+        : [(question.answer as SingleChoiceAnswer).option];
+      const selected = !response
+        ? []
+        : 'options' in response
+        ? response.options
+        : 'option' in response
+        ? [response.option]
+        : [];
+
+      return (
+        <div className="grid gap-2 text-sm">
+          {question.options.map((text, index) => {
+            const opt = optionLabel(index);
+            return (
+              <ReviewRow
+                key={opt}
+                label={opt}
+                text={text}
+                correct={correct.includes(opt)}
+                selected={selected.includes(opt)}
+              />
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'true_false': {
+      const correct = (question.answer as TrueFalseAnswer).value;
+      const selected = response && 'value' in response ? response.value : null;
+
+      return (
+        <div className="grid gap-2 text-sm">
+          <ReviewRow label="T" text="True" correct={correct === true} selected={selected === true} />
+          <ReviewRow label="F" text="False" correct={correct === false} selected={selected === false} />
+        </div>
+      );
+    }
+
+    default: {
+      const given = describeResponse(question.question_type, response);
+
+      return (
+        <div className="grid gap-2 text-sm">
+          {given !== null && (
+            <div
+              className={`p-2 rounded ${
+                isCorrect ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'
+              }`}
+            >
+              <span className="font-medium">Your answer:</span> {given}
+            </div>
+          )}
+          {!isCorrect && (
+            <div className="p-2 rounded bg-success/20 text-success">
+              <span className="font-medium">Correct answer:</span>{' '}
+              {describeAnswer(question.question_type, question.answer)}
+            </div>
+          )}
+        </div>
+      );
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Badge } from '@/components/ui/badge';
+import { categoryBadgeStyle } from '@/lib/categories';
+
+interface CategoryBadgeProps {
+  // Missing while the category loads
+  category?: { name: string; colour: string } | null;
+}
+
+export default function CategoryBadge({ category }: CategoryBadgeProps) {
+  return (
+    <Badge variant="outline" style={categoryBadgeStyle(category?.colour)}>
+      {category?.name ?? '—'}
+    </Badge>
+  );
+}
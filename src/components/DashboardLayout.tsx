@@ -6,6 +6,8 @@ import {
   GraduationCap,
   LayoutDashboard,
   FileText,
+  Library,
+  Tags,
   LogOut,
   Users,
   BookOpen,
@@ -32,6 +34,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const adminNavItems = [
     { href: '/admin', icon: LayoutDashboard, label: 'Dashboard' },
     { href: '/admin/exams', icon: FileText, label: 'Manage Exams' },
+    { href: '/admin/questions', icon: Library, label: 'Question Bank' },
+    { href: '/admin/categories', icon: Tags, label: 'Categories' },
   ];
 
   const studentNavItems = [
@@ -0,0 +1,387 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { normalizeAnswer, normalizeTags, QuestionAnswer, QuestionContent } from '@/lib/questionTypes';
+import { ExamDocument, parseExamDocument, questionContentKey } from '@/lib/examTransfer';
+import { findCategoryByName } from '@/lib/categories';
+import { GradeBand, sortGradeBands } from '@/lib/grading';
+
+interface ExamImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// How the document maps onto what already exists in this project
+interface ImportPlan {
+  title: string;
+  titleTaken: boolean;
+  // The category the exam goes into; the document's own if it exists here
+  category: { id: string; name: string };
+  categoryFound: boolean;
+  // Bank question reused for each document question, by index; undefined creates a new one
+  reusedIds: (string | undefined)[];
+  // Document questions repeating an earlier one, which an exam cannot hold twice
+  duplicates: number[];
+}
+
+// Keeps bank lookups well within URL length limits
+const LOOKUP_CHUNK = 50;
+
+const planImport = async (examDocument: ExamDocument): Promise<ImportPlan> => {
+  const { data: sameTitle, error: titleError } = await supabase
+    .from('exams')
+    .select('id')
+    .eq('title', examDocument.exam.title);
+
+  if (titleError) throw titleError;
+
+  const { data: categories, error: categoriesError } = await supabase
+    .from('categories')
+    .select('id, name')
+    .order('order_index')
+    .order('name');
+
+  if (categoriesError) throw categoriesError;
+  if (!categories?.length) throw new Error('Create a category before importing exams');
+
+  const matchedCategory = findCategoryByName(categories, examDocument.exam.category);
+
+  const texts = [...new Set(examDocument.questions.map(q => q.question_text.trim()))];
+  const bank = new Map<string, string>();
+  for (let i = 0; i < texts.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('id, question_type, question_text, options, answer')
+      .in('question_text', texts.slice(i, i + LOOKUP_CHUNK));
+
+    if (error) throw error;
+
+    (data || []).forEach(q => bank.set(questionContentKey({
+      ...q,
+      options: q.options as string[],
+      answer: q.answer as unknown as QuestionAnswer,
+    }), q.id));
+  }
+
+  const seen = new Set<string>();
+  const duplicates: number[] = [];
+  const reusedIds = examDocument.questions.map((q, index) => {
+    const key = questionContentKey(q as QuestionContent);
+    if (seen.has(key)) duplicates.push(index);
+    seen.add(key);
+    return bank.get(key);
+  });
+
+  const titleTaken = (sameTitle || []).length > 0;
+
+  return {
+    title: titleTaken ? `${examDocument.exam.title} (imported)` : examDocument.exam.title,
+    titleTaken,
+    category: matchedCategory ?? categories[0],
+    categoryFound: !!matchedCategory,
+    reusedIds,
+    duplicates,
+  };
+};
+
+export default function ExamImportDialog({ open, onOpenChange, onImported }: ExamImportDialogProps) {
+  const { user } = useAuth();
+  const [examDocument, setExamDocument] = useState<ExamDocument | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setExamDocument(null);
+      setErrors([]);
+      setPlan(null);
+    }
+  }, [open]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setExamDocument(null);
+    setPlan(null);
+    setChecking(true);
+
+    try {
+      const parsed = parseExamDocument(await file.text());
+      setErrors(parsed.errors ?? []);
+      if (parsed.document) {
+        setExamDocument(parsed.document);
+        setPlan(await planImport(parsed.document));
+      }
+    } catch (error) {
+      console.error('Error checking exam import:', error);
+      toast.error('Failed to check the exam file');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!examDocument || !plan) return;
+
+    setImporting(true);
+    let examId: string | null = null;
+    let createdIds: string[] = [];
+    let passageIds: string[] = [];
+
+    try {
+      const gradeBands = examDocument.exam.grade_bands
+        ? sortGradeBands((examDocument.exam.grade_bands as GradeBand[]).map(band => ({ ...band, name: band.name.trim() }))) as unknown as Json
+        : null;
+
+      const { data: examData, error: examError } = await supabase
+        .from('exams')
+        .insert({
+          title: plan.title,
+          description: examDocument.exam.description,
+          category_id: plan.category.id,
+          duration_minutes: examDocument.exam.duration_minutes,
+          marks_per_correct: examDocument.exam.marks_per_correct,
+          negative_marks: examDocument.exam.negative_marks,
+          shuffle_questions: examDocument.exam.shuffle_questions,
+          shuffle_options: examDocument.exam.shuffle_options,
+          show_explanations: examDocument.exam.show_explanations,
+          draw_count: examDocument.exam.draw_count,
+          opens_at: examDocument.exam.opens_at,
+          closes_at: examDocument.exam.closes_at,
+          fixed_start: examDocument.exam.fixed_start,
+          max_attempts: examDocument.exam.max_attempts,
+          attempt_cooldown_minutes: examDocument.exam.attempt_cooldown_minutes,
+          attempt_scoring: examDocument.exam.attempt_scoring,
+          pass_mark: examDocument.exam.pass_mark,
+          grade_bands: gradeBands,
+          // Imported exams start as drafts so they can be reviewed first
+          status: 'draft',
+          created_by: user?.id,
+        })
+        .select('id')
+        .single();
+
+      if (examError) throw examError;
+      const newExamId = examData.id;
+      examId = newExamId;
+
+      const sectionIds = examDocument.sections.map(() => crypto.randomUUID());
+      if (examDocument.sections.length > 0) {
+        const { error: sectionsError } = await supabase
+          .from('exam_sections')
+          .insert(examDocument.sections.map((section, index) => ({
+            id: sectionIds[index],
+            exam_id: newExamId,
+            title: section.title,
+            duration_minutes: section.duration_minutes,
+            order_index: index,
+          })));
+
+        if (sectionsError) throw sectionsError;
+      }
+
+      const kept = examDocument.questions
+        .map((question, index) => ({ question, reusedId: plan.reusedIds[index], index }))
+        .filter(({ index }) => !plan.duplicates.includes(index));
+      const toCreate = kept.filter(({ reusedId }) => !reusedId);
+
+      // Reused bank questions keep their own passage; new ones get a copy of the document's
+      const newPassageIds = examDocument.passages.map(() => crypto.randomUUID());
+      const neededPassages = examDocument.passages
+        .map((passage, index) => ({ ...passage, id: newPassageIds[index], index }))
+        .filter(({ index }) => toCreate.some(({ question }) => question.passage === index));
+
+      if (neededPassages.length > 0) {
+        const { error: passagesError } = await supabase
+          .from('passages')
+          .insert(neededPassages.map(passage => ({
+            id: passage.id,
+            title: passage.title,
+            content: passage.content,
+            created_by: user?.id,
+          })));
+
+        if (passagesError) throw passagesError;
+        passageIds = neededPassages.map(passage => passage.id);
+      }
+
+      if (toCreate.length > 0) {
+        const { data: created, error: createError } = await supabase
+          .from('questions')
+          .insert(toCreate.map(({ question: q }) => ({
+            question_type: q.question_type,
+            question_text: q.question_text.trim(),
+            options: q.options,
+            answer: normalizeAnswer(q.question_type, q.answer as QuestionAnswer) as unknown as Json,
+            explanation: q.explanation?.trim() || null,
+            topic: q.topic?.trim() || null,
+            difficulty: q.difficulty,
+            tags: normalizeTags(q.tags),
+            passage_id: q.passage !== null ? newPassageIds[q.passage] : null,
+            created_by: user?.id,
+          })))
+          .select('id');
+
+        if (createError) throw createError;
+        createdIds = (created || []).map(q => q.id);
+      }
+
+      let nextCreated = 0;
+      const { error: linksError } = await supabase
+        .from('exam_question_links')
+        .insert(kept.map(({ question: q, reusedId }, orderIndex) => ({
+          exam_id: newExamId,
+          question_id: reusedId ?? createdIds[nextCreated++],
+          section_id: q.section !== null ? sectionIds[q.section] : null,
+          marks: q.marks,
+          negative_marks: q.negative_marks,
+          order_index: orderIndex,
+        })));
+
+      if (linksError) throw linksError;
+
+      if (examDocument.draw_rules.length > 0) {
+        const { error: rulesError } = await supabase
+          .from('exam_draw_rules')
+          .insert(examDocument.draw_rules.map(rule => ({
+            exam_id: newExamId,
+            topic: rule.topic,
+            min_count: rule.min_count,
+          })));
+
+        if (rulesError) throw rulesError;
+      }
+
+      toast.success(`Imported "${plan.title}" as a draft`);
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing exam:', error);
+      toast.error('Failed to import exam');
+
+      // Leave nothing half-imported behind
+      if (examId) await supabase.from('exams').delete().eq('id', examId);
+      if (createdIds.length > 0) await supabase.from('questions').delete().in('id', createdIds);
+      if (passageIds.length > 0) await supabase.from('passages').delete().in('id', passageIds);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const reusedCount = plan
+    ? plan.reusedIds.filter((reusedId, index) => reusedId && !plan.duplicates.includes(index)).length
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import Exam</DialogTitle>
+          <DialogDescription>
+            Choose a file exported from another project with the Export action.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="exam-file">Exam file</Label>
+          <Input id="exam-file" type="file" accept=".json,application/json" onChange={handleFile} />
+        </div>
+
+        {checking && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertTitle>This file cannot be imported</AlertTitle>
+            <AlertDescription>
+              <ScrollArea className="max-h-48">
+                <ul className="list-disc pl-4 space-y-1">
+                  {errors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {examDocument && plan && (
+          <div className="space-y-3">
+            <div className="p-4 rounded-lg bg-muted text-sm space-y-1">
+              <p className="font-medium">{plan.title}</p>
+              <p className="text-muted-foreground">
+                {examDocument.questions.length} questions
+                {examDocument.sections.length > 0 && ` in ${examDocument.sections.length} sections`}
+                {examDocument.passages.length > 0 && `, ${examDocument.passages.length} passages`}
+                {' '}· {examDocument.exam.duration_minutes} min · {plan.category.name}
+              </p>
+            </div>
+
+            {(plan.titleTaken || !plan.categoryFound || reusedCount > 0 || plan.duplicates.length > 0) && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Conflicts</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {plan.titleTaken && (
+                      <li>An exam titled "{examDocument.exam.title}" already exists; this one will be named "{plan.title}".</li>
+                    )}
+                    {!plan.categoryFound && (
+                      <li>There is no "{examDocument.exam.category}" category; the exam will be added to "{plan.category.name}".</li>
+                    )}
+                    {reusedCount > 0 && (
+                      <li>
+                        {reusedCount} {reusedCount === 1 ? 'question already exists' : 'questions already exist'} in
+                        the question bank and will be reused instead of duplicated.
+                      </li>
+                    )}
+                    {plan.duplicates.length > 0 && (
+                      <li>
+                        {plan.duplicates.map(index => `Question ${index + 1}`).join(', ')} repeat an earlier
+                        question and will be skipped.
+                      </li>
+                    )}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!plan || importing} className="gradient-primary">
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import Exam
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+import { GradeBand } from '@/lib/grading';
+
+interface GradeBandsEditorProps {
+  value: GradeBand[];
+  onChange: (value: GradeBand[]) => void;
+}
+
+export default function GradeBandsEditor({ value, onChange }: GradeBandsEditorProps) {
+  const update = (index: number, changes: Partial<GradeBand>) =>
+    onChange(value.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">No grade bands; results show only their score.</p>
+      )}
+      {value.map((band, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={band.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder="Grade, e.g. Merit"
+            aria-label="Grade name"
+          />
+          <span className="text-sm text-muted-foreground whitespace-nowrap">from</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={Number.isNaN(band.min_score) ? '' : band.min_score}
+            onChange={(e) => update(index, { min_score: e.target.valueAsNumber })}
+            className="w-20"
+            aria-label="Minimum score"
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            className="text-destructive shrink-0"
+            title="Remove band"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { name: '', min_score: 0 }])}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Band
+      </Button>
+    </div>
+  );
+}
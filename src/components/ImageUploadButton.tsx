@@ -0,0 +1,140 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useImageStorage } from '@/hooks/useImageStorage';
+import { getImageError, IMAGE_TYPES, imageMarkdown } from '@/lib/imageStorage';
+
+interface ImageUploadButtonProps {
+  // Receives the Markdown that shows the uploaded image
+  onInsert: (markdown: string) => void;
+  // Icon-only trigger, for use beside option inputs
+  compact?: boolean;
+}
+
+export default function ImageUploadButton({ onInsert, compact = false }: ImageUploadButtonProps) {
+  const storage = useImageStorage();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [alt, setAlt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setAlt('');
+      setError(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    const fileError = selected && getImageError(selected);
+    setError(fileError);
+    setFile(fileError ? null : selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file || !alt.trim()) return;
+
+    setUploading(true);
+    try {
+      const path = await storage.upload(file);
+      onInsert(imageMarkdown(alt, path));
+      setOpen(false);
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast.error('Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="icon" className="shrink-0" title="Add image">
+            <ImagePlus className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <ImagePlus className="w-4 h-4 mr-2" />
+            Add Image
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Image</DialogTitle>
+          <DialogDescription>
+            Upload a chart, diagram or figure. It is added to the text as a Markdown image link you can move
+            or delete like any other text.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="image-file">Image</Label>
+            <Input id="image-file" type="file" accept={IMAGE_TYPES.join(',')} onChange={handleFile} />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          {previewUrl && (
+            <img
+              src={previewUrl}
+              alt={alt}
+              className="max-w-full max-h-64 mx-auto rounded-md border border-border"
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="image-alt">Alt text *</Label>
+            <Input
+              id="image-alt"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              placeholder="e.g. Bar chart of monthly rainfall, peaking in July"
+            />
+            <p className="text-xs text-muted-foreground">
+              Read out by screen readers, so describe what the image shows that the question relies on.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpload} disabled={!file || !alt.trim() || uploading} className="gradient-primary">
+            {uploading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Insert Image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import ImageUploadButton from '@/components/ImageUploadButton';
+import { appendImage } from '@/lib/imageStorage';
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  moveOption,
+  MultipleChoiceAnswer,
+  NumericAnswer,
+  optionLabel,
+  QuestionAnswer,
+  QuestionContent,
+  removeOption,
+  ShortTextAnswer,
+  SingleChoiceAnswer,
+  TrueFalseAnswer,
+} from '@/lib/questionTypes';
+
+interface QuestionAnswerEditorProps {
+  question: QuestionContent;
+  onChange: (changes: Partial<QuestionContent>) => void;
+}
+
+const parseNumber = (value: string) => (value === '' ? null : Number(value));
+
+export default function QuestionAnswerEditor({ question, onChange }: QuestionAnswerEditorProps) {
+  const onAnswerChange = (answer: QuestionAnswer) => onChange({ answer });
+
+  switch (question.question_type) {
+    case 'single_choice':
+    case 'multiple_choice': {
+      const isMultiple = question.question_type === 'multiple_choice';
+      const correct = isMultiple
+        ? (question.answer as MultipleChoiceAnswer).options
+        : [(question.answer as SingleChoiceAnswer).option];
+
+      const markCorrect = (option: string) => {
+        if (!isMultiple) {
+          onAnswerChange({ option });
+          return;
+        }
+        onAnswerChange({
+          options: correct.includes(option)
+            ? correct.filter((o) => o !== option)
+            : [...correct, option].sort(),
+        });
+      };
+
+      const updateOption = (index: number, value: string) =>
+        onChange({ options: question.options.map((o, i) => (i === index ? value : o)) });
+
+      const applyChange = ({ options, answer }: QuestionContent) => onChange({ options, answer });
+
+      return (
+        <>
+          <div className="space-y-3">
+            {question.options.map((text, index) => {
+              const option = optionLabel(index);
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <div
+                    className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium shrink-0 cursor-pointer transition-colors ${
+                      correct.includes(option)
+                        ? 'bg-success text-success-foreground'
+                        : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                    }`}
+                    onClick={() => markCorrect(option)}
+                    title={correct.includes(option) ? 'Correct answer' : 'Click to mark as correct'}
+                  >
+                    {option}
+                  </div>
+                  <Input
+                    value={text}
+                    onChange={(e) => updateOption(index, e.target.value)}
+                    placeholder={`Option ${option}`}
+                    className="flex-1"
+                  />
+                  <ImageUploadButton compact onInsert={(markdown) => updateOption(index, appendImage(text, markdown, true))} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => applyChange(moveOption(question, index, index - 1))}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => applyChange(moveOption(question, index, index + 1))}
+                    disabled={index === question.options.length - 1}
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 text-destructive"
+                    onClick={() => applyChange(removeOption(question, index))}
+                    disabled={question.options.length <= MIN_OPTIONS}
+                    title="Remove option"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {isMultiple
+                ? 'Click on the option letters to mark every correct answer'
+                : 'Click on an option letter to mark the correct answer'}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ options: [...question.options, ''] })}
+              disabled={question.options.length >= MAX_OPTIONS}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Option
+            </Button>
+          </div>
+        </>
+      );
+    }
+
+    case 'true_false': {
+      const { value } = question.answer as TrueFalseAnswer;
+      return (
+        <div className="flex items-center gap-2">
+          <Switch checked={value} onCheckedChange={(checked) => onAnswerChange({ value: checked })} />
+          <Label>Correct answer: {value ? 'True' : 'False'}</Label>
+        </div>
+      );
+    }
+
+    case 'numeric': {
+      const answer = question.answer as NumericAnswer;
+      return (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Correct answer</Label>
+            <Input
+              type="number"
+              step="any"
+              value={answer.value ?? ''}
+              onChange={(e) => onAnswerChange({ ...answer, value: parseNumber(e.target.value) })}
+              placeholder="e.g., 9.81"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Tolerance (±)</Label>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={answer.tolerance}
+              onChange={(e) => onAnswerChange({ ...answer, tolerance: parseNumber(e.target.value) ?? 0 })}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    case 'short_text': {
+      const answer = question.answer as ShortTextAnswer;
+      return (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>Accepted answers (one per line)</Label>
+            <Textarea
+              value={answer.accepted.join('\n')}
+              onChange={(e) => onAnswerChange({ ...answer, accepted: e.target.value.split('\n') })}
+              placeholder={'e.g., Paris\nParis, France'}
+              rows={3}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={answer.case_sensitive}
+              onCheckedChange={(checked) => onAnswerChange({ ...answer, case_sensitive: checked })}
+            />
+            <Label>Case sensitive</Label>
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { useQuestionTags } from '@/hooks/useQuestionTags';
+import {
+  DIFFICULTY_LABELS,
+  QuestionAnswer,
+  QuestionDifficulty,
+  QuestionType,
+  QUESTION_TYPE_LABELS,
+} from '@/lib/questionTypes';
+
+export interface BankQuestion {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: string[];
+  answer: QuestionAnswer;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  explanation: string | null;
+  passage_id: string | null;
+  // Number of exams using the question
+  used_in: number;
+}
+
+interface QuestionBankPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Questions already in the exam
+  excludeIds: string[];
+  onAdd: (questions: BankQuestion[]) => void;
+}
+
+const ALL = 'all';
+const SEARCH_DELAY_MS = 300;
+
+export default function QuestionBankPicker({ open, onOpenChange, excludeIds, onAdd }: QuestionBankPickerProps) {
+  const [search, setSearch] = useState('');
+  const [topicFilter, setTopicFilter] = useState<string>(ALL);
+  const [difficultyFilter, setDifficultyFilter] = useState<string>(ALL);
+  const { topics } = useQuestionTags();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const timer = setTimeout(fetchQuestions, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [open, search, topicFilter, difficultyFilter]);
+
+  useEffect(() => {
+    if (!open) setSelected([]);
+  }, [open]);
+
+  const fetchQuestions = async () => {
+    setLoading(true);
+
+    try {
+      let query = supabase
+        .from('questions')
+        .select('*, exam_question_links(exam_id)')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (search.trim()) {
+        query = query.ilike('question_text', `%${search.trim()}%`);
+      }
+      if (topicFilter !== ALL) {
+        query = query.eq('topic', topicFilter);
+      }
+      if (difficultyFilter !== ALL) {
+        query = query.eq('difficulty', difficultyFilter as QuestionDifficulty);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setQuestions((data || []).map(({ exam_question_links, ...q }) => ({
+        ...q,
+        options: q.options as string[],
+        answer: q.answer as unknown as QuestionAnswer,
+        used_in: exam_question_links.length,
+      })));
+    } catch (error) {
+      console.error('Error fetching question bank:', error);
+      toast.error('Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (questionId: string) => {
+    setSelected(selected.includes(questionId)
+      ? selected.filter(id => id !== questionId)
+      : [...selected, questionId]);
+  };
+
+  const available = questions.filter(q => !excludeIds.includes(q.id));
+
+  const handleAdd = () => {
+    onAdd(available.filter(q => selected.includes(q.id)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add from Question Bank</DialogTitle>
+          <DialogDescription>
+            Bank questions are shared: editing one later changes it in every exam that uses it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions..."
+              className="pl-9"
+            />
+          </div>
+          <Select value={topicFilter} onValueChange={setTopicFilter}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All topics</SelectItem>
+              {topics.map(topic => (
+                <SelectItem key={topic} value={topic}>{topic}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+            <SelectTrigger className="sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any difficulty</SelectItem>
+              {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="h-80 pr-3">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : available.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No questions found</p>
+          ) : (
+            <div className="space-y-2">
+              {available.map((question) => (
+                <label
+                  key={question.id}
+                  className="flex items-start gap-3 p-3 rounded-lg border border-border hover:bg-muted/50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selected.includes(question.id)}
+                    onCheckedChange={() => toggle(question.id)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <p className="text-sm font-medium">{question.question_text}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                      {question.topic && <Badge variant="secondary">{question.topic}</Badge>}
+                      {question.difficulty && <Badge variant="outline">{DIFFICULTY_LABELS[question.difficulty]}</Badge>}
+                      {question.tags.map(tag => <span key={tag}>#{tag}</span>)}
+                      <span>Used in {question.used_in} {question.used_in === 1 ? 'exam' : 'exams'}</span>
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={selected.length === 0} className="gradient-primary">
+            Add {selected.length > 0 ? selected.length : ''} {selected.length === 1 ? 'Question' : 'Questions'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { ChangeEvent, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle2, Download, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { QUESTION_TYPE_LABELS } from '@/lib/questionTypes';
+import {
+  IMPORT_COLUMNS,
+  IMPORT_TEMPLATE,
+  ImportedQuestion,
+  ImportResult,
+} from '@/lib/questionImport';
+import { parseQuestionFile, QUESTION_FILE_ACCEPT } from '@/lib/interop';
+
+interface QuestionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (questions: ImportedQuestion[]) => void;
+}
+
+export default function QuestionImportDialog({ open, onOpenChange, onImport }: QuestionImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setFileName('');
+      setParsed(null);
+    }
+  }, [open]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setFileName(file.name);
+      setParsed(await parseQuestionFile(file));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Failed to read the file');
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([IMPORT_TEMPLATE], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'questions-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const rows = parsed?.rows ?? [];
+  const valid = rows.filter(r => !r.error);
+
+  const handleImport = () => {
+    onImport(valid.map(r => r.question));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file, or a tab-separated file saved from a spreadsheet. The first row names the
+            columns: {IMPORT_COLUMNS.join(', ')}. Separate options, correct letters, accepted answers and
+            tags with a pipe (|). Files exported from Moodle (GIFT or Moodle XML) and IMS QTI 2.1 items or
+            content packages (.zip) are read too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input id="import-file" type="file" accept={QUESTION_FILE_ACCEPT} onChange={handleFile} />
+          </div>
+          <Button variant="outline" onClick={downloadTemplate}>
+            <Download className="w-4 h-4 mr-2" />
+            Template
+          </Button>
+        </div>
+
+        {parsed?.error && (
+          <p className="text-sm text-destructive">{fileName}: {parsed.error}</p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {valid.length} of {rows.length} rows are ready to import
+              {valid.length < rows.length && '; rows with errors will be skipped'}
+            </p>
+            <ScrollArea className="h-80 pr-3">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ row, question, error, unsupported }) => (
+                    <TableRow key={row}>
+                      <TableCell className="text-muted-foreground">{row}</TableCell>
+                      <TableCell className="max-w-xs truncate">{question.question_text || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{unsupported ?? QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {error ? (
+                          <span className="flex items-center gap-1 text-sm text-destructive">
+                            <XCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-success">
+                            <CheckCircle2 className="w-4 h-4 shrink-0" />
+                            Ready
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={valid.length === 0} className="gradient-primary">
+            Import {valid.length > 0 ? valid.length : ''} {valid.length === 1 ? 'Question' : 'Questions'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
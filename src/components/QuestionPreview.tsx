@@ -0,0 +1,33 @@
+import { Lightbulb } from 'lucide-react';
+import AnswerReview from '@/components/AnswerReview';
+import RichText from '@/components/RichText';
+import { QuestionContent } from '@/lib/questionTypes';
+
+interface QuestionPreviewProps {
+  question: QuestionContent & { explanation: string };
+  // Content of the passage the question belongs to, shown above it
+  passage?: string;
+}
+
+/** A question as students see it in result review, with the correct answer marked. */
+export default function QuestionPreview({ question, passage }: QuestionPreviewProps) {
+  return (
+    <div className="p-4 rounded-lg border border-border bg-card space-y-3">
+      {passage?.trim() && (
+        <RichText text={passage} className="p-3 rounded-lg bg-muted/50 text-sm max-h-64 overflow-y-auto" />
+      )}
+      <RichText
+        text={question.question_text.trim() || '*No question text yet*'}
+        className="font-medium"
+      />
+      {/* Reviewing an unanswered, incorrect response shows the correct answer for every type */}
+      <AnswerReview question={question} response={null} isCorrect={false} />
+      {question.explanation.trim() && (
+        <div className="flex gap-2 p-3 rounded-lg bg-muted text-sm">
+          <Lightbulb className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+          <RichText text={question.explanation} className="flex-1 min-w-0" />
+        </div>
+      )}
+    </div>
+  );
+}
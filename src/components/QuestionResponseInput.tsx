@@ -0,0 +1,141 @@
+import { ReactNode } from 'react';
+import { Input } from '@/components/ui/input';
+import RichText from '@/components/RichText';
+import { Check } from 'lucide-react';
+import { optionLabel, QuestionResponse, QuestionType } from '@/lib/questionTypes';
+
+interface QuestionResponseInputProps {
+  question: { id: string; question_type: QuestionType; options: string[] };
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse | null) => void;
+}
+
+interface ChoiceButtonProps {
+  label: ReactNode;
+  text: string;
+  selected: boolean;
+  onClick: () => void;
+}
+
+function ChoiceButton({ label, text, selected, onClick }: ChoiceButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full p-4 rounded-lg border-2 text-left transition-all flex items-center gap-3 ${
+        selected
+          ? 'border-primary bg-primary/5'
+          : 'border-border hover:border-primary/50 hover:bg-muted/50'
+      }`}
+    >
+      <span
+        className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium shrink-0 ${
+          selected
+            ? 'bg-primary text-primary-foreground'
+            : 'bg-muted text-muted-foreground'
+        }`}
+      >
+        {label}
+      </span>
+      <RichText
+        inline
+        text={text}
+        className={selected ? 'text-foreground font-medium' : 'text-foreground'}
+      />
+    </button>
+  );
+}
+
+export default function QuestionResponseInput({ question, response, onChange }: QuestionResponseInputProps) {
+  switch (question.question_type) {
+    case 'single_choice': {
+      const selected = (response as { option: string } | undefined)?.option;
+      return (
+        <>
+          {question.options.map((text, index) => {
+            const option = optionLabel(index);
+            return (
+              <ChoiceButton
+                key={option}
+                label={option}
+                text={text}
+                selected={selected === option}
+                onClick={() => onChange({ option })}
+              />
+            );
+          })}
+        </>
+      );
+    }
+
+    case 'multiple_choice': {
+      const selected = (response as { options: string[] } | undefined)?.options ?? [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option)
+          ? selected.filter((o) => o !== option)
+          : [...selected, option].sort();
+        onChange(next.length > 0 ? { options: next } : null);
+      };
+
+      return (
+        <>
+          <p className="text-sm text-muted-foreground">Select all that apply</p>
+          {question.options.map((text, index) => {
+            const option = optionLabel(index);
+            return (
+              <ChoiceButton
+                key={option}
+                label={selected.includes(option) ? <Check className="w-4 h-4" /> : option}
+                text={text}
+                selected={selected.includes(option)}
+                onClick={() => toggle(option)}
+              />
+            );
+          })}
+        </>
+      );
+    }
+
+    case 'true_false': {
+      const selected = (response as { value: boolean } | undefined)?.value;
+      return (
+        <>
+          <ChoiceButton label="T" text="True" selected={selected === true} onClick={() => onChange({ value: true })} />
+          <ChoiceButton label="F" text="False" selected={selected === false} onClick={() => onChange({ value: false })} />
+        </>
+      );
+    }
+
+    case 'numeric': {
+      const value = (response as { value: number } | undefined)?.value;
+      return (
+        <Input
+          type="number"
+          step="any"
+          inputMode="decimal"
+          value={value ?? ''}
+          onChange={(e) => {
+            const parsed = e.target.valueAsNumber;
+            onChange(e.target.value === '' || !Number.isFinite(parsed) ? null : { value: parsed });
+          }}
+          placeholder="Enter your answer"
+          className="max-w-xs text-lg"
+        />
+      );
+    }
+
+    case 'short_text': {
+      const text = (response as { text: string } | undefined)?.text ?? '';
+      return (
+        <Input
+          value={text}
+          onChange={(e) => onChange(e.target.value.trim() ? { text: e.target.value } : null)}
+          placeholder="Type your answer"
+          className="text-lg"
+        />
+      );
+    }
+
+    default:
+      return null;
+  }
+}
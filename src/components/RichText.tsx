@@ -0,0 +1,65 @@
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkMath from 'remark-math';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { useImageStorage } from '@/hooks/useImageStorage';
+import { imagePathFromUrl, ImageStorage } from '@/lib/imageStorage';
+import { cn } from '@/lib/utils';
+
+interface RichTextProps {
+  text: string;
+  // Renders paragraphs as spans, for option labels inside buttons and rows
+  inline?: boolean;
+  className?: string;
+}
+
+// Raw HTML is never rendered; these Markdown elements are reduced to their text
+// so question content cannot restyle the page.
+const DISALLOWED_ELEMENTS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr'];
+
+// Keeps uploaded image links, which the default transform would drop as an unknown scheme
+const urlTransform = (url: string) => (imagePathFromUrl(url) !== null ? url : defaultUrlTransform(url));
+
+const buildComponents = (storage: ImageStorage, inline: boolean): Components => ({
+  a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  img: ({ src, alt }) => {
+    const path = imagePathFromUrl(src ?? '');
+    // Only uploaded images are shown; remote ones fall back to their alt text
+    if (path === null) return <>{alt}</>;
+    return (
+      <img
+        src={storage.url(path)}
+        alt={alt ?? ''}
+        loading="lazy"
+        className="inline-block max-w-full h-auto max-h-96 rounded-md border border-border bg-card align-middle"
+      />
+    );
+  },
+  ...(inline ? { p: ({ node: _node, ...props }) => <span {...props} /> } : {}),
+});
+
+/**
+ * Question text, options and explanations: Markdown with $inline$ and $$display$$
+ * KaTeX maths, highlighted fenced code and uploaded images. Line breaks are kept as typed.
+ */
+export default function RichText({ text, inline = false, className }: RichTextProps) {
+  const storage = useImageStorage();
+  const Wrapper = inline ? 'span' : 'div';
+
+  return (
+    <Wrapper className={cn('rich-text', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkMath, remarkBreaks]}
+        rehypePlugins={[rehypeKatex, rehypeHighlight]}
+        disallowedElements={DISALLOWED_ELEMENTS}
+        unwrapDisallowed
+        urlTransform={urlTransform}
+        components={buildComponents(storage, inline)}
+      >
+        {text}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+}
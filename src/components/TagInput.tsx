@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Plus, X } from 'lucide-react';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Existing tags offered for autocomplete
+  suggestions: string[];
+  placeholder?: string;
+  // Holds at most one tag; picking another replaces it
+  single?: boolean;
+}
+
+export default function TagInput({ value, onChange, suggestions, placeholder = 'Add tag', single = false }: TagInputProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const has = (tag: string) => value.some((t) => t.toLowerCase() === tag.toLowerCase());
+  const available = suggestions.filter((tag) => !has(tag));
+  const typed = search.trim();
+  const canCreate = typed !== '' && !has(typed) && !suggestions.some((tag) => tag.toLowerCase() === typed.toLowerCase());
+
+  const add = (tag: string) => {
+    onChange(single ? [tag] : [...value, tag]);
+    setSearch('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 min-h-10 rounded-md border border-input bg-background px-3 py-2">
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((t) => t !== tag))}
+            className="rounded-full hover:text-destructive"
+            title="Remove"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-muted-foreground">
+            <Plus className="w-3 h-3 mr-1" />
+            {single && value.length > 0 ? 'Change' : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-64" align="start">
+          <Command>
+            <CommandInput value={search} onValueChange={setSearch} placeholder="Search or create..." />
+            <CommandList>
+              <CommandEmpty>Type to create a new tag</CommandEmpty>
+              {available.length > 0 && (
+                <CommandGroup heading="Existing">
+                  {available.map((tag) => (
+                    <CommandItem key={tag} value={tag} onSelect={() => add(tag)}>
+                      {tag}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup heading="New">
+                  <CommandItem value={typed} onSelect={() => add(typed)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create "{typed}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
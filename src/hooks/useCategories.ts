@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Category } from '@/lib/categories';
+
+// Exam categories in their display order, for tabs, pickers and badges
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('order_index')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching categories:', error);
+    } else {
+      setCategories(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const categoriesById = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, category])),
+    [categories]
+  );
+
+  return { categories, categoriesById, loading, refresh };
+}
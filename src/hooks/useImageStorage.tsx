@@ -0,0 +1,17 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { ImageStorage, supabaseImageStorage } from '@/lib/imageStorage';
+
+// Supabase Storage unless a provider swaps in another store, as tests do
+const ImageStorageContext = createContext<ImageStorage>(supabaseImageStorage);
+
+export function ImageStorageProvider({ storage, children }: { storage: ImageStorage; children: ReactNode }) {
+  return (
+    <ImageStorageContext.Provider value={storage}>
+      {children}
+    </ImageStorageContext.Provider>
+  );
+}
+
+export function useImageStorage() {
+  return useContext(ImageStorageContext);
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const sortedUnique = (values: string[]) =>
+  [...new Set(values)].sort((a, b) => a.localeCompare(b));
+
+// Topics and tags already used in the question bank, for autocomplete and filters
+export function useQuestionTags() {
+  const [topics, setTopics] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('topic, tags');
+
+    if (error) {
+      console.error('Error fetching question tags:', error);
+      return;
+    }
+
+    setTopics(sortedUnique((data || []).flatMap((q) => (q.topic ? [q.topic] : []))));
+    setTags(sortedUnique((data || []).flatMap((q) => q.tags)));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { topics, tags, refresh };
+}
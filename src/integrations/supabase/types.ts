@@ -14,36 +14,363 @@ export type Database = {
   }
   public: {
     Tables: {
+      categories: {
+        Row: {
+          colour: string
+          created_at: string
+          default_duration_minutes: number
+          grade_bands: Json
+          id: string
+          name: string
+          order_index: number
+          pass_mark: number | null
+          updated_at: string
+        }
+        Insert: {
+          colour: string
+          created_at?: string
+          default_duration_minutes: number
+          grade_bands?: Json
+          id?: string
+          name: string
+          order_index?: number
+          pass_mark?: number | null
+          updated_at?: string
+        }
+        Update: {
+          colour?: string
+          created_at?: string
+          default_duration_minutes?: number
+          grade_bands?: Json
+          id?: string
+          name?: string
+          order_index?: number
+          pass_mark?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      exam_attempts: {
+        Row: {
+          answers: Json
+          current_index: number
+          deadline: string
+          exam_id: string
+          exam_version_id: string | null
+          id: string
+          last_saved_at: string | null
+          option_orders: Json | null
+          question_ids: string[] | null
+          question_order: string[] | null
+          result_id: string | null
+          section_deadline: string | null
+          section_index: number
+          started_at: string
+          status: Database["public"]["Enums"]["attempt_status"]
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          current_index?: number
+          deadline: string
+          exam_id: string
+          exam_version_id?: string | null
+          id?: string
+          last_saved_at?: string | null
+          option_orders?: Json | null
+          question_ids?: string[] | null
+          question_order?: string[] | null
+          result_id?: string | null
+          section_deadline?: string | null
+          section_index?: number
+          started_at?: string
+          status?: Database["public"]["Enums"]["attempt_status"]
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          current_index?: number
+          deadline?: string
+          exam_id?: string
+          exam_version_id?: string | null
+          id?: string
+          last_saved_at?: string | null
+          option_orders?: Json | null
+          question_ids?: string[] | null
+          question_order?: string[] | null
+          result_id?: string | null
+          section_deadline?: string | null
+          section_index?: number
+          started_at?: string
+          status?: Database["public"]["Enums"]["attempt_status"]
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_attempts_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_attempts_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "exam_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_attempts_exam_version_id_fkey"
+            columns: ["exam_version_id"]
+            isOneToOne: false
+            referencedRelation: "exam_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_draw_rules: {
+        Row: {
+          created_at: string
+          exam_id: string
+          id: string
+          min_count: number
+          topic: string
+        }
+        Insert: {
+          created_at?: string
+          exam_id: string
+          id?: string
+          min_count: number
+          topic: string
+        }
+        Update: {
+          created_at?: string
+          exam_id?: string
+          id?: string
+          min_count?: number
+          topic?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_draw_rules_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_question_links: {
+        Row: {
+          created_at: string
+          exam_id: string
+          id: string
+          marks: number | null
+          negative_marks: number | null
+          order_index: number
+          question_id: string
+          section_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          exam_id: string
+          id?: string
+          marks?: number | null
+          negative_marks?: number | null
+          order_index?: number
+          question_id: string
+          section_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          exam_id?: string
+          id?: string
+          marks?: number | null
+          negative_marks?: number | null
+          order_index?: number
+          question_id?: string
+          section_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_question_links_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_question_links_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_question_links_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_result_sections: {
+        Row: {
+          correct_answers: number
+          id: string
+          marks_obtained: number
+          max_marks: number
+          position: number
+          result_id: string
+          section_id: string | null
+          skipped_answers: number
+          title: string
+          total_questions: number
+          wrong_answers: number
+        }
+        Insert: {
+          correct_answers?: number
+          id?: string
+          marks_obtained?: number
+          max_marks?: number
+          position: number
+          result_id: string
+          section_id?: string | null
+          skipped_answers?: number
+          title: string
+          total_questions: number
+          wrong_answers?: number
+        }
+        Update: {
+          correct_answers?: number
+          id?: string
+          marks_obtained?: number
+          max_marks?: number
+          position?: number
+          result_id?: string
+          section_id?: string | null
+          skipped_answers?: number
+          title?: string
+          total_questions?: number
+          wrong_answers?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_result_sections_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "exam_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_result_sections_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_result_topics: {
+        Row: {
+          correct_answers: number
+          id: string
+          marks_obtained: number
+          max_marks: number
+          result_id: string
+          skipped_answers: number
+          topic: string
+          total_questions: number
+          wrong_answers: number
+        }
+        Insert: {
+          correct_answers?: number
+          id?: string
+          marks_obtained?: number
+          max_marks?: number
+          result_id: string
+          skipped_answers?: number
+          topic: string
+          total_questions: number
+          wrong_answers?: number
+        }
+        Update: {
+          correct_answers?: number
+          id?: string
+          marks_obtained?: number
+          max_marks?: number
+          result_id?: string
+          skipped_answers?: number
+          topic?: string
+          total_questions?: number
+          wrong_answers?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_result_topics_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "exam_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_results: {
         Row: {
           completed_at: string
           correct_answers: number
           exam_id: string
+          grade: string | null
           id: string
+          marks_lost: number
+          marks_obtained: number
+          max_marks: number
+          passed: boolean | null
           score: number
+          skipped_answers: number
           time_taken_seconds: number | null
           total_questions: number
           user_id: string
+          wrong_answers: number
         }
         Insert: {
           completed_at?: string
           correct_answers?: number
           exam_id: string
+          grade?: string | null
           id?: string
+          marks_lost?: number
+          marks_obtained?: number
+          max_marks?: number
+          passed?: boolean | null
           score?: number
+          skipped_answers?: number
           time_taken_seconds?: number | null
           total_questions: number
           user_id: string
+          wrong_answers?: number
         }
         Update: {
           completed_at?: string
           correct_answers?: number
           exam_id?: string
+          grade?: string | null
           id?: string
+          marks_lost?: number
+          marks_obtained?: number
+          max_marks?: number
+          passed?: boolean | null
           score?: number
+          skipped_answers?: number
           time_taken_seconds?: number | null
           total_questions?: number
           user_id?: string
+          wrong_answers?: number
         }
         Relationships: [
           {
@@ -55,37 +382,217 @@ export type Database = {
           },
         ]
       }
+      exam_sections: {
+        Row: {
+          created_at: string
+          duration_minutes: number
+          exam_id: string
+          id: string
+          order_index: number
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          duration_minutes: number
+          exam_id: string
+          id?: string
+          order_index?: number
+          title: string
+        }
+        Update: {
+          created_at?: string
+          duration_minutes?: number
+          exam_id?: string
+          id?: string
+          order_index?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_sections_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_version_explanations: {
+        Row: {
+          exam_version_id: string
+          explanation: string
+          question_revision_id: string
+        }
+        Insert: {
+          exam_version_id: string
+          explanation: string
+          question_revision_id: string
+        }
+        Update: {
+          exam_version_id?: string
+          explanation?: string
+          question_revision_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_version_explanations_exam_version_id_fkey"
+            columns: ["exam_version_id"]
+            isOneToOne: false
+            referencedRelation: "exam_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_version_explanations_question_revision_id_fkey"
+            columns: ["question_revision_id"]
+            isOneToOne: false
+            referencedRelation: "question_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_versions: {
+        Row: {
+          content: Json
+          exam_id: string
+          id: string
+          published_at: string
+          published_by: string | null
+          version: number
+        }
+        Insert: {
+          content: Json
+          exam_id: string
+          id?: string
+          published_at?: string
+          published_by?: string | null
+          version: number
+        }
+        Update: {
+          content?: Json
+          exam_id?: string
+          id?: string
+          published_at?: string
+          published_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_versions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exams: {
         Row: {
-          category: Database["public"]["Enums"]["exam_category"]
+          attempt_cooldown_minutes: number
+          attempt_scoring: Database["public"]["Enums"]["attempt_scoring"]
+          category_id: string
+          closes_at: string | null
           created_at: string
           created_by: string | null
           description: string | null
+          draw_count: number | null
           duration_minutes: number
+          fixed_start: boolean
+          grade_bands: Json | null
           id: string
-          is_active: boolean
+          marks_per_correct: number
+          max_attempts: number | null
+          negative_marks: number
+          opens_at: string | null
+          pass_mark: number | null
+          show_explanations: Database["public"]["Enums"]["explanation_visibility"]
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          status: Database["public"]["Enums"]["exam_status"]
           title: string
           updated_at: string
         }
         Insert: {
-          category: Database["public"]["Enums"]["exam_category"]
+          attempt_cooldown_minutes?: number
+          attempt_scoring?: Database["public"]["Enums"]["attempt_scoring"]
+          category_id: string
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          draw_count?: number | null
           duration_minutes: number
+          fixed_start?: boolean
+          grade_bands?: Json | null
           id?: string
-          is_active?: boolean
+          marks_per_correct?: number
+          max_attempts?: number | null
+          negative_marks?: number
+          opens_at?: string | null
+          pass_mark?: number | null
+          show_explanations?: Database["public"]["Enums"]["explanation_visibility"]
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          status?: Database["public"]["Enums"]["exam_status"]
           title: string
           updated_at?: string
         }
         Update: {
-          category?: Database["public"]["Enums"]["exam_category"]
+          attempt_cooldown_minutes?: number
+          attempt_scoring?: Database["public"]["Enums"]["attempt_scoring"]
+          category_id?: string
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
+          draw_count?: number | null
           duration_minutes?: number
+          fixed_start?: boolean
+          grade_bands?: Json | null
+          id?: string
+          marks_per_correct?: number
+          max_attempts?: number | null
+          negative_marks?: number
+          opens_at?: string | null
+          pass_mark?: number | null
+          show_explanations?: Database["public"]["Enums"]["explanation_visibility"]
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          status?: Database["public"]["Enums"]["exam_status"]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exams_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      passages: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          is_active?: boolean
           title?: string
           updated_at?: string
         }
@@ -118,49 +625,90 @@ export type Database = {
         }
         Relationships: []
       }
+      question_revisions: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          question_id: string | null
+          revision: number
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          question_id?: string | null
+          revision: number
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          question_id?: string | null
+          revision?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
-          correct_option: string
+          answer: Json
           created_at: string
-          exam_id: string
+          created_by: string | null
+          difficulty: Database["public"]["Enums"]["question_difficulty"] | null
+          explanation: string | null
           id: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          order_index: number
+          options: Json
+          passage_id: string | null
           question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          tags: string[]
+          topic: string | null
         }
         Insert: {
-          correct_option: string
+          answer: Json
           created_at?: string
-          exam_id: string
+          created_by?: string | null
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
+          explanation?: string | null
           id?: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          order_index?: number
+          options?: Json
+          passage_id?: string | null
           question_text: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          tags?: string[]
+          topic?: string | null
         }
         Update: {
-          correct_option?: string
+          answer?: Json
           created_at?: string
-          exam_id?: string
+          created_by?: string | null
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
+          explanation?: string | null
           id?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
-          order_index?: number
+          options?: Json
+          passage_id?: string | null
           question_text?: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          tags?: string[]
+          topic?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "questions_exam_id_fkey"
-            columns: ["exam_id"]
+            foreignKeyName: "questions_passage_id_fkey"
+            columns: ["passage_id"]
             isOneToOne: false
-            referencedRelation: "exams"
+            referencedRelation: "passages"
             referencedColumns: ["id"]
           },
         ]
@@ -169,23 +717,35 @@ export type Database = {
         Row: {
           id: string
           is_correct: boolean
-          question_id: string
+          marks_awarded: number
+          option_order: Json | null
+          position: number
+          question_id: string | null
+          question_revision_id: string
+          response: Json | null
           result_id: string
-          selected_option: string | null
         }
         Insert: {
           id?: string
           is_correct?: boolean
-          question_id: string
+          marks_awarded?: number
+          option_order?: Json | null
+          position?: number
+          question_id?: string | null
+          question_revision_id: string
+          response?: Json | null
           result_id: string
-          selected_option?: string | null
         }
         Update: {
           id?: string
           is_correct?: boolean
-          question_id?: string
+          marks_awarded?: number
+          option_order?: Json | null
+          position?: number
+          question_id?: string | null
+          question_revision_id?: string
+          response?: Json | null
           result_id?: string
-          selected_option?: string | null
         }
         Relationships: [
           {
@@ -195,6 +755,13 @@ export type Database = {
             referencedRelation: "questions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "student_answers_question_revision_id_fkey"
+            columns: ["question_revision_id"]
+            isOneToOne: false
+            referencedRelation: "question_revisions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "student_answers_result_id_fkey"
             columns: ["result_id"]
@@ -224,13 +791,165 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      exam_questions: {
+        Row: {
+          exam_id: string | null
+          exam_version_id: string | null
+          id: string | null
+          marks: number | null
+          negative_marks: number | null
+          options: Json | null
+          order_index: number | null
+          passage_id: string | null
+          question_text: string | null
+          question_type: Database["public"]["Enums"]["question_type"] | null
+          section_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_versions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_scores: {
+        Row: {
+          attempt_scoring: Database["public"]["Enums"]["attempt_scoring"] | null
+          attempts: number | null
+          counted_grade: string | null
+          counted_passed: boolean | null
+          counted_result_id: string | null
+          counted_score: number | null
+          exam_id: string | null
+          last_completed_at: string | null
+          max_attempts: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_results_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      published_exam_settings: {
+        Row: {
+          exam_id: string | null
+          settings: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_versions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      advance_attempt_section: {
+        Args: { _answers: Json; _attempt_id: string; _section_index: number }
+        Returns: {
+          deadline: string
+          section_deadline: string
+          section_index: number
+        }[]
+      }
+      attempt_grace_period: { Args: Record<PropertyKey, never>; Returns: unknown }
+      canonical_response: {
+        Args: {
+          _option_order: Json
+          _response: Json
+          _type: Database["public"]["Enums"]["question_type"]
+        }
+        Returns: Json
+      }
+      draw_exam_questions: { Args: { _version_id: string }; Returns: string[] }
+      exam_closes_at: {
+        Args: { _exam: Database["public"]["Tables"]["exams"]["Row"] }
+        Returns: string
+      }
+      exam_grade: {
+        Args: { _exam_id: string; _score: number }
+        Returns: {
+          grade: string
+          passed: boolean
+        }[]
+      }
+      exam_minutes_after_section: {
+        Args: { _position: number; _version_id: string }
+        Returns: number
+      }
+      exam_section_at: {
+        Args: { _position: number; _version_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number
+          exam_id: string
+          id: string
+          order_index: number
+          title: string
+        }
+      }
+      exam_version_questions: {
+        Args: { _version_id: string }
+        Returns: {
+          answer: Json
+          id: string
+          marks: number
+          negative_marks: number
+          options: Json
+          order_index: number
+          passage_id: string
+          question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          revision_id: string
+          section_id: string
+          topic: string
+        }[]
+      }
+      exam_version_sections: {
+        Args: { _version_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number
+          exam_id: string
+          id: string
+          order_index: number
+          title: string
+        }[]
+      }
+      finalize_expired_attempts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_result_explanations: {
+        Args: { _result_id: string }
+        Returns: {
+          answer_id: string
+          explanation: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      grade_attempt: {
+        Args: {
+          _attempt_id: string
+          _status: Database["public"]["Enums"]["attempt_status"]
+        }
+        Returns: string
+      }
+      grade_bands_are_valid: { Args: { _bands: Json }; Returns: boolean }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -238,10 +957,108 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_response_correct: {
+        Args: {
+          _answer: Json
+          _response: Json
+          _type: Database["public"]["Enums"]["question_type"]
+        }
+        Returns: boolean
+      }
+      merge_attempt_answers: {
+        Args: {
+          _answers: Json
+          _attempt: Database["public"]["Tables"]["exam_attempts"]["Row"]
+        }
+        Returns: Json
+      }
+      publish_exam: { Args: { _exam_id: string }; Returns: number }
+      published_exam: {
+        Args: { _exam_id: string }
+        Returns: Database["public"]["Tables"]["exams"]["Row"]
+      }
+      published_retake_policy: {
+        Args: { _exam_id: string }
+        Returns: {
+          attempt_cooldown_minutes: number
+          attempt_scoring: Database["public"]["Enums"]["attempt_scoring"]
+          max_attempts: number
+        }[]
+      }
+      question_content: {
+        Args: { _question: Database["public"]["Tables"]["questions"]["Row"] }
+        Returns: Json
+      }
+      save_attempt_progress: {
+        Args: { _answers: Json; _attempt_id: string; _current_index: number }
+        Returns: string
+      }
+      start_exam_attempt: {
+        Args: { _exam_id: string }
+        Returns: {
+          answers: Json
+          current_index: number
+          deadline: string
+          exam_id: string
+          exam_version_id: string
+          id: string
+          option_orders: Json
+          question_ids: string[]
+          question_order: string[]
+          section_deadline: string
+          section_index: number
+          server_time: string
+          started_at: string
+        }[]
+      }
+      submit_exam: {
+        Args: { _answers: Json; _attempt_id: string }
+        Returns: string
+      }
+      snapshot_exam: { Args: { _exam_id: string }; Returns: Json }
+      sync_attempt_section: {
+        Args: { _attempt_id: string }
+        Returns: {
+          answers: Json
+          current_index: number
+          deadline: string
+          exam_id: string
+          exam_version_id: string | null
+          id: string
+          last_saved_at: string | null
+          option_orders: Json | null
+          question_ids: string[] | null
+          question_order: string[] | null
+          result_id: string | null
+          section_deadline: string | null
+          section_index: number
+          started_at: string
+          status: Database["public"]["Enums"]["attempt_status"]
+          submitted_at: string | null
+          user_id: string
+        }
+      }
+      version_grade: {
+        Args: { _score: number; _version_id: string }
+        Returns: {
+          grade: string
+          passed: boolean
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "student"
-      exam_category: "basic" | "prelims" | "mains"
+      attempt_scoring: "best" | "latest" | "average"
+      attempt_status: "in_progress" | "submitted" | "expired"
+      exam_status: "draft" | "in_review" | "published" | "archived"
+      explanation_visibility: "immediately" | "after_close" | "never"
+      question_difficulty: "easy" | "medium" | "hard"
+      question_type:
+        | "single_choice"
+        | "true_false"
+        | "multiple_choice"
+        | "numeric"
+        | "short_text"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -370,7 +1187,18 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "student"],
-      exam_category: ["basic", "prelims", "mains"],
+      attempt_scoring: ["best", "latest", "average"],
+      attempt_status: ["in_progress", "submitted", "expired"],
+      exam_status: ["draft", "in_review", "published", "archived"],
+      explanation_visibility: ["immediately", "after_close", "never"],
+      question_difficulty: ["easy", "medium", "hard"],
+      question_type: [
+        "single_choice",
+        "true_false",
+        "multiple_choice",
+        "numeric",
+        "short_text",
+      ],
     },
   },
 } as const
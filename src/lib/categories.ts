@@ -0,0 +1,18 @@
+import type { CSSProperties } from 'react';
+import type { Database } from '@/integrations/supabase/types';
+
+export type Category = Database['public']['Tables']['categories']['Row'];
+
+// For a category that has not loaded yet
+const NEUTRAL_COLOUR = '#64748b';
+
+/** Badge colours for a category: its colour over a light tint of itself. */
+export const categoryBadgeStyle = (colour = NEUTRAL_COLOUR): CSSProperties => ({
+  color: colour,
+  backgroundColor: `${colour}1a`,
+  borderColor: `${colour}33`,
+});
+
+/** The category an imported exam named, matched without regard to case. */
+export const findCategoryByName = <T extends Pick<Category, 'name'>>(categories: T[], name: string) =>
+  categories.find((category) => category.name.trim().toLowerCase() === name.trim().toLowerCase());
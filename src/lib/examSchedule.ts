@@ -0,0 +1,48 @@
+import { format, formatDistanceStrict } from 'date-fns';
+
+/** The scheduling columns of an exam. */
+export interface ExamSchedule {
+  opens_at: string | null;
+  closes_at: string | null;
+  // Every candidate's clock runs from opens_at
+  fixed_start: boolean;
+  duration_minutes: number;
+}
+
+export type ExamAvailability = 'scheduled' | 'open' | 'closed';
+
+/**
+ * When the exam stops accepting answers: its close time, or the end of a fixed-start
+ * sitting if that comes first. Mirrors exam_closes_at in the database.
+ */
+export const examClosesAt = (schedule: ExamSchedule): Date | null => {
+  const times = [
+    schedule.closes_at ? new Date(schedule.closes_at).getTime() : null,
+    schedule.fixed_start && schedule.opens_at
+      ? new Date(schedule.opens_at).getTime() + schedule.duration_minutes * 60_000
+      : null,
+  ].filter((time): time is number => time !== null);
+
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+};
+
+/** Whether students can start the exam at `now`; the window opens and closes by itself. */
+export const getExamAvailability = (schedule: ExamSchedule, now = new Date()): ExamAvailability => {
+  if (schedule.opens_at && new Date(schedule.opens_at) > now) return 'scheduled';
+
+  const closesAt = examClosesAt(schedule);
+  return closesAt && closesAt <= now ? 'closed' : 'open';
+};
+
+// e.g. "May 18, 2026, 10:00 AM"
+export const formatScheduleTime = (time: string | Date) => format(new Date(time), 'PPp');
+
+// e.g. "3 hours", for "Opens in 3 hours"
+export const formatTimeUntil = (time: string | Date, now = new Date()) =>
+  formatDistanceStrict(new Date(time), now);
+
+// datetime-local inputs hold local time without a zone
+export const toDateTimeLocal = (time: string | null) =>
+  time ? format(new Date(time), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null);
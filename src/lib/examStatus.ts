@@ -0,0 +1,42 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { ExamSchedule } from '@/lib/examSchedule';
+import type { RetakePolicy } from '@/lib/retakePolicy';
+
+export type ExamStatus = Database['public']['Enums']['exam_status'];
+
+export const EXAM_STATUS_LABELS: Record<ExamStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export const EXAM_STATUS_STYLES: Record<ExamStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  in_review: 'bg-warning/10 text-warning border-warning/20',
+  published: 'bg-success/10 text-success border-success/20',
+  archived: 'bg-muted text-muted-foreground border-dashed',
+};
+
+/**
+ * A published exam as frozen in exam_versions.content. Questions only carry their
+ * settings and revision; students read their text through the exam_questions view.
+ */
+export interface ExamVersionContent {
+  exam: ExamSchedule & RetakePolicy & {
+    title: string;
+    description: string | null;
+    marks_per_correct: number;
+    negative_marks: number;
+    draw_count: number | null;
+    // The pass mark the exam resolved to when published, its own or its category's
+    pass_mark: number | null;
+  };
+  sections: { id: string; title: string; duration_minutes: number }[];
+  questions: { id: string; revision_id: string }[];
+  passages: { id: string; title: string; content: string }[];
+}
+
+// Pooled versions show how many questions an attempt draws, not the pool size
+export const versionQuestionCount = (content: ExamVersionContent) =>
+  content.exam.draw_count ?? content.questions.length;
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { getGradeBandsError, getPassMarkError, GradeBand } from '@/lib/grading';
+import {
+  getQuestionError,
+  MAX_OPTIONS,
+  normalizeAnswer,
+  QuestionAnswer,
+  QuestionContent,
+} from '@/lib/questionTypes';
+
+export const EXAM_DOCUMENT_FORMAT = 'mock-exam';
+// Version 2 added passages and the schedule, retake and grading settings; version 1 files still read
+export const EXAM_DOCUMENT_VERSION = 2;
+
+const marks = z.number().min(0);
+const optionLetter = z.string().regex(/^[A-Z]$/, 'Expected an option letter');
+const timestamp = z.string().datetime({ offset: true });
+
+const questionFields = {
+  question_text: z.string(),
+  explanation: z.string().nullable().default(null),
+  topic: z.string().nullable().default(null),
+  difficulty: z.enum(['easy', 'medium', 'hard']).nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  // Per-question overrides of the exam's marking; null uses the exam default
+  marks: marks.nullable().default(null),
+  negative_marks: marks.nullable().default(null),
+  // Index into the document's sections
+  section: z.number().int().min(0).nullable().default(null),
+  // Index into the document's passages
+  passage: z.number().int().min(0).nullable().default(null),
+};
+
+const choiceOptions = z.array(z.string()).max(MAX_OPTIONS);
+
+const questionSchema = z.discriminatedUnion('question_type', [
+  z.object({
+    ...questionFields,
+    question_type: z.literal('single_choice'),
+    options: choiceOptions,
+    answer: z.object({ option: optionLetter }),
+  }),
+  z.object({
+    ...questionFields,
+    question_type: z.literal('multiple_choice'),
+    options: choiceOptions,
+    answer: z.object({ options: z.array(optionLetter) }),
+  }),
+  z.object({
+    ...questionFields,
+    question_type: z.literal('true_false'),
+    options: z.array(z.string()).length(0).default([]),
+    answer: z.object({ value: z.boolean() }),
+  }),
+  z.object({
+    ...questionFields,
+    question_type: z.literal('numeric'),
+    options: z.array(z.string()).length(0).default([]),
+    answer: z.object({ value: z.number(), tolerance: z.number().min(0) }),
+  }),
+  z.object({
+    ...questionFields,
+    question_type: z.literal('short_text'),
+    options: z.array(z.string()).length(0).default([]),
+    answer: z.object({ accepted: z.array(z.string()), case_sensitive: z.boolean() }),
+  }),
+]);
+
+export const examDocumentSchema = z.object({
+  format: z.literal(EXAM_DOCUMENT_FORMAT),
+  version: z.number().int().min(1).max(EXAM_DOCUMENT_VERSION),
+  exported_at: z.string().optional(),
+  exam: z.object({
+    title: z.string().trim().min(1, 'Exam title is required'),
+    description: z.string().nullable().default(null),
+    // Category name, matched to this project's categories on import
+    category: z.string().trim().min(1, 'Exam category is required'),
+    duration_minutes: z.number().int().positive(),
+    marks_per_correct: marks,
+    negative_marks: marks,
+    shuffle_questions: z.boolean().default(false),
+    shuffle_options: z.boolean().default(false),
+    show_explanations: z.enum(['immediately', 'after_close', 'never']).default('immediately'),
+    draw_count: z.number().int().positive().nullable().default(null),
+    // Availability window; null leaves that end open
+    opens_at: timestamp.nullable().default(null),
+    closes_at: timestamp.nullable().default(null),
+    fixed_start: z.boolean().default(false),
+    // Retake policy; null max_attempts allows unlimited attempts
+    max_attempts: z.number().int().positive().nullable().default(null),
+    attempt_cooldown_minutes: z.number().int().min(0).default(0),
+    attempt_scoring: z.enum(['best', 'latest', 'average']).default('best'),
+    // Grading; null uses the category's on import
+    pass_mark: z.number().nullable().default(null),
+    grade_bands: z.array(z.object({ name: z.string(), min_score: z.number() })).nullable().default(null),
+  }),
+  sections: z.array(z.object({
+    title: z.string().trim().min(1, 'Section title is required'),
+    duration_minutes: z.number().int().positive(),
+  })).default([]),
+  passages: z.array(z.object({
+    title: z.string().trim().min(1, 'Passage title is required'),
+    content: z.string().trim().min(1, 'Passage content is required'),
+  })).default([]),
+  draw_rules: z.array(z.object({
+    topic: z.string().trim().min(1),
+    min_count: z.number().int().positive(),
+  })).default([]),
+  questions: z.array(questionSchema).min(1, 'The exam has no questions'),
+}).superRefine((document, ctx) => {
+  document.questions.forEach((question, index) => {
+    const questionError = getQuestionError(question as QuestionContent);
+    if (questionError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index], message: questionError });
+    }
+    if (question.section !== null && question.section >= document.sections.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index, 'section'], message: 'No such section' });
+    }
+    if (question.passage !== null && question.passage >= document.passages.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index, 'passage'], message: 'No such passage' });
+    }
+  });
+  if (document.exam.draw_count !== null) {
+    if (document.sections.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'draw_count'], message: 'Random question draws cannot be combined with sections' });
+    }
+    if (document.exam.draw_count > document.questions.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'draw_count'], message: `Must be between 1 and ${document.questions.length}` });
+    }
+  }
+  const passMarkError = getPassMarkError(document.exam.pass_mark);
+  if (passMarkError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'pass_mark'], message: passMarkError });
+  }
+  const gradeBandsError = document.exam.grade_bands && getGradeBandsError(document.exam.grade_bands as GradeBand[]);
+  if (gradeBandsError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'grade_bands'], message: gradeBandsError });
+  }
+  const { opens_at, closes_at, fixed_start } = document.exam;
+  if (opens_at && closes_at && new Date(closes_at) <= new Date(opens_at)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'closes_at'], message: 'Must be after opens_at' });
+  }
+  if (fixed_start && !opens_at) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['exam', 'fixed_start'], message: 'A fixed start needs opens_at' });
+  }
+  if (document.sections.length > 0 && document.questions.some((q) => q.section === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions'], message: 'Every question needs a section' });
+  }
+  document.draw_rules.forEach((rule, index) => {
+    if (!document.questions.some((q) => q.topic === rule.topic)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['draw_rules', index, 'topic'], message: 'No question has this topic' });
+    }
+  });
+});
+
+export type ExamDocument = z.infer<typeof examDocumentSchema>;
+export type ExamDocumentQuestion = ExamDocument['questions'][number];
+
+export type ParsedExamDocument =
+  | { document: ExamDocument; errors: null }
+  | { document: null; errors: string[] };
+
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (text, part) => (typeof part === 'number' ? `${text}[${part + 1}]` : text ? `${text}.${part}` : part),
+    ''
+  );
+
+/**
+ * Reads an exported exam, returning readable problems (with the offending
+ * field, questions numbered from 1) instead of throwing.
+ */
+export const parseExamDocument = (text: string): ParsedExamDocument => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { document: null, errors: ['The file is not valid JSON'] };
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(json);
+  if (!header.success || header.data.format !== EXAM_DOCUMENT_FORMAT) {
+    return { document: null, errors: ['The file is not an exported exam'] };
+  }
+  if (header.data.version > EXAM_DOCUMENT_VERSION) {
+    return {
+      document: null,
+      errors: [`The file uses format version ${header.data.version}; this app reads up to version ${EXAM_DOCUMENT_VERSION}`],
+    };
+  }
+
+  const parsed = examDocumentSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      document: null,
+      errors: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { document: parsed.data, errors: null };
+};
+
+/**
+ * Identifies a question by its content, so an imported question that already
+ * exists in the bank can be reused instead of duplicated.
+ */
+export const questionContentKey = (question: QuestionContent) =>
+  JSON.stringify([
+    question.question_type,
+    question.question_text.trim(),
+    question.options,
+    normalizeAnswer(question.question_type, question.answer as QuestionAnswer),
+  ]);
+
+/** File name for an exported exam, e.g. "algebra-mock-1.json". */
+export const examDocumentFileName = (title: string, extension = 'json') =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'exam'}.${extension}`;
+
+/** Output of converting an exam document to another format. */
+export interface ExamExport<T = string> {
+  content: T;
+  // What the target format could not hold, for the export report
+  unmapped: string[];
+}
+
+export type ExamFeature = 'marks' | 'explanations' | 'topics' | 'tags';
+
+export const UPLOADED_IMAGES_NOTE = 'Uploaded images (left as links to this project\'s storage)';
+
+/** Whether any question or passage shows an image uploaded to this project's storage. */
+export const usesUploadedImages = (document: ExamDocument) =>
+  [
+    ...document.questions.flatMap((q) => [q.question_text, ...q.options, q.explanation ?? '']),
+    ...document.passages.map((passage) => passage.content),
+  ].some((text) => text.includes('](image:'));
+
+/**
+ * Lists the parts of an exam a target format drops: exam-wide settings never
+ * travel, the optional features only when the format lacks them and the exam uses them.
+ */
+export const unmappedFeatures = (document: ExamDocument, supported: ExamFeature[]): string[] => {
+  const { exam, questions } = document;
+  const uses: Record<ExamFeature, boolean> = {
+    marks: exam.marks_per_correct !== 1 || questions.some((q) => q.marks !== null),
+    explanations: questions.some((q) => q.explanation),
+    topics: questions.some((q) => q.topic),
+    tags: questions.some((q) => q.tags.length > 0),
+  };
+  const labels: Record<ExamFeature, string> = {
+    marks: 'Marks per question',
+    explanations: 'Answer explanations',
+    topics: 'Question topics',
+    tags: 'Question tags',
+  };
+
+  return [
+    'Exam duration and settings',
+    ...(document.sections.length > 0 ? ['Sections and their time limits'] : []),
+    ...(document.passages.length > 0 ? ['Passages shared by question groups'] : []),
+    ...(exam.draw_count !== null ? ['Random question draws'] : []),
+    ...(exam.negative_marks > 0 || questions.some((q) => q.negative_marks) ? ['Negative marking'] : []),
+    ...(questions.some((q) => q.difficulty) ? ['Question difficulty'] : []),
+    ...(usesUploadedImages(document) ? [UPLOADED_IMAGES_NOTE] : []),
+    ...(Object.keys(uses) as ExamFeature[])
+      .filter((feature) => uses[feature] && !supported.includes(feature))
+      .map((feature) => labels[feature]),
+  ];
+};
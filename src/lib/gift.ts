@@ -0,0 +1,239 @@
+import {
+  ExamDocument,
+  ExamExport,
+  unmappedFeatures,
+} from '@/lib/examTransfer';
+import {
+  checkedRow,
+  ImportedQuestion,
+  ImportResult,
+  ImportRow,
+  unsupportedRow,
+} from '@/lib/questionImport';
+import {
+  MultipleChoiceAnswer,
+  NumericAnswer,
+  optionIndex,
+  optionLabel,
+  QuestionAnswer,
+  ShortTextAnswer,
+  SingleChoiceAnswer,
+  TrueFalseAnswer,
+} from '@/lib/questionTypes';
+
+// Moodle's GIFT format: https://docs.moodle.org/en/GIFT_format
+
+const SPECIAL = ['~', '=', '#', '{', '}', ':', '\\'];
+// Escaped special characters are swapped for private-use placeholders while parsing
+const placeholder = (char: string) => String.fromCharCode(0xe000 + SPECIAL.indexOf(char));
+
+const hideEscapes = (text: string) =>
+  text.replace(/\\([~=#{}:\\n])/g, (_, char: string) => (char === 'n' ? '\n' : placeholder(char)));
+
+const restoreEscapes = (text: string) =>
+  SPECIAL.reduce((result, char) => result.split(placeholder(char)).join(char), text);
+
+const escapeGift = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/[~=#{}:]/g, (char) => `\\${char}`).replace(/\r?\n/g, '\\n');
+
+const cleanText = (text: string) =>
+  restoreEscapes(text.replace(/^\s*\[(html|moodle|plain|markdown)\]/i, '')).trim();
+
+/** Topic for a Moodle category path such as "$course$/Physics/Kinematics": its last named part. */
+export const topicFromCategory = (path: string) => {
+  const parts = path.split('/').map((part) => part.trim()).filter(Boolean);
+  const last = parts[parts.length - 1];
+  return !last || /^(\$\w+\$|top|default.*)$/i.test(last) ? null : last;
+};
+
+interface GiftAnswer {
+  // "=" marks a right answer, "~" a wrong or weighted one
+  kind: string;
+  weight: number | null;
+  text: string;
+}
+
+const parseWeight = (token: string): [number | null, string] => {
+  const match = token.match(/^%(-?\d+(?:\.\d+)?)%/);
+  return match ? [Number(match[1]), token.slice(match[0].length)] : [null, token];
+};
+
+// Splits "=a#fb ~%50%b ~c" into answers, dropping per-answer feedback
+const parseAnswers = (block: string): GiftAnswer[] =>
+  (block.match(/[=~][^=~]*/g) || []).map((token) => {
+    const [weight, rest] = parseWeight(token.slice(1).trim());
+    return { kind: token[0], weight, text: cleanText(rest.split('#')[0]) };
+  });
+
+const isCorrect = ({ kind, weight }: GiftAnswer) => (weight !== null ? weight > 0 : kind === '=');
+
+const parseNumeric = (block: string): NumericAnswer => {
+  const first = (block.match(/=[^=]*/g) || [`=${block}`])
+    .map((token) => parseWeight(token.slice(1).trim()))
+    .find(([weight]) => weight === null || weight === 100);
+  const spec = (first?.[1] ?? '').split('#')[0].trim();
+
+  const range = spec.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return { value: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+  const [value, tolerance] = spec.split(':');
+  return {
+    value: value?.trim() ? Number(value) : null,
+    tolerance: tolerance?.trim() ? Number(tolerance) : 0,
+  };
+};
+
+const parseQuestion = (source: string, topic: string | null, row: number): ImportRow => {
+  const text = hideEscapes(source).replace(/^\s*::[^:]*::/, '');
+  const open = text.indexOf('{');
+  const close = text.indexOf('}', open);
+
+  if (open < 0 || close < 0) {
+    return unsupportedRow(cleanText(text), 'Description', row);
+  }
+
+  const before = text.slice(0, open);
+  const after = text.slice(close + 1);
+  const questionText = cleanText(after.trim() ? `${before} _____ ${after}` : before);
+  const [block, feedback = ''] = text.slice(open + 1, close).split('####');
+
+  const base: Omit<ImportedQuestion, 'question_type' | 'options' | 'answer'> = {
+    question_text: questionText,
+    topic,
+    difficulty: null,
+    tags: [],
+    explanation: cleanText(feedback),
+  };
+  const answerBlock = block.trim();
+
+  if (after.trim()) {
+    return unsupportedRow(questionText, 'Missing word', row);
+  }
+  if (!answerBlock) {
+    return unsupportedRow(questionText, 'Essay', row);
+  }
+  if (/^(T|TRUE|F|FALSE)\b/i.test(answerBlock)) {
+    return checkedRow({
+      ...base,
+      question_type: 'true_false',
+      options: [],
+      answer: { value: /^T/i.test(answerBlock) },
+    }, row);
+  }
+  if (answerBlock.startsWith('#')) {
+    return checkedRow({
+      ...base,
+      question_type: 'numeric',
+      options: [],
+      answer: parseNumeric(answerBlock.slice(1)),
+    }, row);
+  }
+  if (answerBlock.includes('->')) {
+    return unsupportedRow(questionText, 'Matching', row);
+  }
+
+  const answers = parseAnswers(answerBlock);
+  // Without wrong options it is a short answer; partially weighted answers are not accepted here
+  if (answers.every((answer) => answer.kind === '=')) {
+    return checkedRow({
+      ...base,
+      question_type: 'short_text',
+      options: [],
+      answer: {
+        accepted: answers.filter((answer) => answer.weight === null || answer.weight >= 100).map((answer) => answer.text),
+        case_sensitive: false,
+      },
+    }, row);
+  }
+
+  const correct = answers
+    .map((answer, index) => (isCorrect(answer) ? optionLabel(index) : null))
+    .filter((label): label is string => label !== null);
+  const single = correct.length === 1 && answers.every((answer) => answer.weight === null);
+
+  return checkedRow({
+    ...base,
+    question_type: single ? 'single_choice' : 'multiple_choice',
+    options: answers.map((answer) => answer.text),
+    answer: single ? { option: correct[0] } : { options: correct },
+  }, row);
+};
+
+/** Converts a GIFT file into import rows, one per question. */
+export const parseGift = (text: string): ImportResult => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => !line.trim().startsWith('//'));
+  const blocks = lines.join('\n').split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean);
+
+  const rows: ImportRow[] = [];
+  let topic: string | null = null;
+
+  blocks.forEach((block) => {
+    // A category line may share its block with the question that follows
+    const category = block.match(/^\$CATEGORY:(.*)$/m);
+    if (category) {
+      topic = topicFromCategory(category[1]);
+      block = block.replace(category[0], '').trim();
+      if (!block) return;
+    }
+    rows.push(parseQuestion(block, topic, rows.length + 1));
+  });
+
+  if (rows.length === 0) {
+    return { rows, error: 'The file has no questions' };
+  }
+  return { rows, error: null };
+};
+
+const giftAnswerBlock = (question: ExamDocument['questions'][number]) => {
+  const answer = question.answer as QuestionAnswer;
+
+  switch (question.question_type) {
+    case 'single_choice': {
+      const correct = optionIndex((answer as SingleChoiceAnswer).option);
+      return question.options.map((option, index) => `${index === correct ? '=' : '~'}${escapeGift(option)}`);
+    }
+    case 'multiple_choice': {
+      const correct = (answer as MultipleChoiceAnswer).options.map(optionIndex);
+      // Weights must add up to 100%; any wrong pick scores nothing, as here
+      const weight = Number((100 / correct.length).toFixed(5));
+      return question.options.map((option, index) =>
+        `~%${correct.includes(index) ? weight : -100}%${escapeGift(option)}`);
+    }
+    case 'true_false':
+      return [(answer as TrueFalseAnswer).value ? 'TRUE' : 'FALSE'];
+    case 'numeric': {
+      const { value, tolerance } = answer as NumericAnswer;
+      return [`#${value}${tolerance > 0 ? `:${tolerance}` : ''}`];
+    }
+    case 'short_text':
+      return (answer as ShortTextAnswer).accepted.map((accepted) => `=${escapeGift(accepted)}`);
+  }
+};
+
+/** Converts an exam into GIFT, listing what GIFT cannot express. */
+export const toGift = (document: ExamDocument): ExamExport => {
+  const unmapped = unmappedFeatures(document, ['explanations', 'topics']);
+  const lines = [`// ${document.exam.title}`, ''];
+  let topic: string | null | undefined;
+
+  document.questions.forEach((question, index) => {
+    if (question.topic !== topic) {
+      topic = question.topic;
+      lines.push(`$CATEGORY: $course$/${topic ? topic.replace(/\//g, '-') : 'top'}`, '');
+    }
+    if (question.question_type === 'short_text' && (question.answer as ShortTextAnswer).case_sensitive) {
+      unmapped.push(`Question ${index + 1}: case-sensitive matching (GIFT short answers ignore case)`);
+    }
+
+    lines.push(`::Q${index + 1}:: ${escapeGift(question.question_text)} {`);
+    lines.push(...giftAnswerBlock(question).map((line) => `\t${line}`));
+    if (question.explanation) {
+      lines.push(`\t####${escapeGift(question.explanation)}`);
+    }
+    lines.push('}', '');
+  });
+
+  return { content: lines.join('\n'), unmapped };
+};
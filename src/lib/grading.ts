@@ -0,0 +1,53 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/** A named grade for scores from `min_score` up to the next band's. */
+export interface GradeBand {
+  name: string;
+  min_score: number;
+}
+
+/** The grading columns of an exam or category. */
+export interface GradingSettings {
+  // Percentage needed to pass; null means the exam has no pass mark
+  pass_mark: number | null;
+  grade_bands: Json | null;
+}
+
+/** The bands an exam stored, highest first; null when it uses its category's. */
+export const parseGradeBands = (value: Json | null): GradeBand[] | null =>
+  Array.isArray(value) ? sortGradeBands(value as unknown as GradeBand[]) : null;
+
+export const sortGradeBands = (bands: GradeBand[]) => [...bands].sort((a, b) => b.min_score - a.min_score);
+
+/** The exam's own pass mark and bands where it has them, otherwise its category's. */
+export const resolveGrading = (exam: GradingSettings, category?: GradingSettings | null) => ({
+  pass_mark: exam.pass_mark ?? category?.pass_mark ?? null,
+  grade_bands: parseGradeBands(exam.grade_bands) ?? parseGradeBands(category?.grade_bands ?? null) ?? [],
+});
+
+/** The highest band a score reaches. Mirrors exam_grade in the database. */
+export const gradeFor = (score: number, bands: GradeBand[]) =>
+  sortGradeBands(bands).find((band) => band.min_score <= score)?.name ?? null;
+
+export const getGradeBandsError = (bands: GradeBand[]): string | null => {
+  if (bands.some((band) => !band.name.trim())) return 'Every grade band needs a name';
+  if (bands.some((band) => !Number.isInteger(band.min_score) || band.min_score < 0 || band.min_score > 100)) {
+    return 'Grade band minimums must be whole percentages from 0 to 100';
+  }
+  if (new Set(bands.map((band) => band.min_score)).size < bands.length) {
+    return 'Each grade band needs a different minimum score';
+  }
+  if (new Set(bands.map((band) => band.name.trim().toLowerCase())).size < bands.length) {
+    return 'Each grade band needs a different name';
+  }
+  return null;
+};
+
+export const getPassMarkError = (passMark: number | null) =>
+  passMark !== null && (!Number.isInteger(passMark) || passMark < 0 || passMark > 100)
+    ? 'Pass mark must be a whole percentage from 0 to 100'
+    : null;
+
+// Results are coloured by whether they passed; without a pass mark they stay neutral
+export const getOutcomeColor = (passed: boolean | null) =>
+  passed === true ? 'text-success' : passed === false ? 'text-destructive' : 'text-primary';
@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const QUESTION_IMAGES_BUCKET = 'question-images';
+
+// Matches the bucket's limits in the storage migration
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Markdown image links use this scheme, so content names an image by its
+// storage path and stays valid whichever storage serves it
+const IMAGE_SCHEME = 'image:';
+
+/** Where question images are kept: Supabase Storage in the app, memory in tests. */
+export interface ImageStorage {
+  // Stores the file and returns its path
+  upload: (file: File) => Promise<string>;
+  url: (path: string) => string;
+}
+
+export const getImageError = (file: File): string | null => {
+  if (!IMAGE_TYPES.includes(file.type)) return 'Use a PNG, JPEG, GIF or WebP image';
+  if (file.size > MAX_IMAGE_BYTES) return 'Images can be at most 5 MB';
+  return null;
+};
+
+const imagePath = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'img';
+  return `${crypto.randomUUID()}.${extension}`;
+};
+
+/** Markdown that shows a stored image, e.g. `![Bar chart of sales](image:1f0c….png)`. */
+export const imageMarkdown = (alt: string, path: string) =>
+  `![${alt.replace(/\s+/g, ' ').trim().replace(/[[\]\\]/g, '\\$&')}](${IMAGE_SCHEME}${path})`;
+
+/** Adds an image's Markdown after existing text, on its own line unless `inline`. */
+export const appendImage = (text: string, markdown: string, inline = false) =>
+  text.trim() ? `${text.trimEnd()}${inline ? ' ' : '\n\n'}${markdown}` : markdown;
+
+/** The storage path of an image link, or null for any other URL. */
+export const imagePathFromUrl = (url: string): string | null =>
+  url.startsWith(IMAGE_SCHEME) ? url.slice(IMAGE_SCHEME.length) : null;
+
+export const supabaseImageStorage: ImageStorage = {
+  upload: async (file) => {
+    const path = imagePath(file);
+    const { error } = await supabase.storage
+      .from(QUESTION_IMAGES_BUCKET)
+      .upload(path, file, { contentType: file.type, cacheControl: '31536000' });
+
+    if (error) throw error;
+    return path;
+  },
+  url: (path) => supabase.storage.from(QUESTION_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl,
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Keeps images in memory as data URLs, standing in for Supabase Storage in tests. */
+export const createLocalImageStorage = (): ImageStorage => {
+  const urls = new Map<string, string>();
+
+  return {
+    upload: async (file) => {
+      const path = imagePath(file);
+      urls.set(path, await readAsDataUrl(file));
+      return path;
+    },
+    url: (path) => urls.get(path) ?? '',
+  };
+};
@@ -0,0 +1,77 @@
+import { ExamDocument, examDocumentFileName, UPLOADED_IMAGES_NOTE, usesUploadedImages } from '@/lib/examTransfer';
+import { parseGift, toGift } from '@/lib/gift';
+import { parseMoodleXml, toMoodleXml } from '@/lib/moodleXml';
+import { parseQtiItem, parseQtiPackage, toQtiPackage } from '@/lib/qti';
+import { ImportResult, parseQuestionImport } from '@/lib/questionImport';
+
+export type ExportFormat = 'json' | 'qti' | 'moodle_xml' | 'gift';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'Exam file (JSON)',
+  qti: 'IMS QTI 2.1 package',
+  moodle_xml: 'Moodle XML',
+  gift: 'GIFT',
+};
+
+/** File types the question import accepts, for the file input. */
+export const QUESTION_FILE_ACCEPT = '.csv,.tsv,.txt,.gift,.xml,.zip,text/csv';
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+  // What the format could not hold; for the app's own JSON format only uploaded images
+  unmapped: string[];
+}
+
+/** Converts an exam into a downloadable file in the given format. */
+export const exportExam = (document: ExamDocument, format: ExportFormat): ExportedFile => {
+  const { title } = document.exam;
+
+  switch (format) {
+    case 'qti': {
+      const { content, unmapped } = toQtiPackage(document);
+      return { blob: new Blob([content], { type: 'application/zip' }), fileName: examDocumentFileName(title, 'zip'), unmapped };
+    }
+    case 'moodle_xml': {
+      const { content, unmapped } = toMoodleXml(document);
+      return { blob: new Blob([content], { type: 'application/xml' }), fileName: examDocumentFileName(title, 'xml'), unmapped };
+    }
+    case 'gift': {
+      const { content, unmapped } = toGift(document);
+      return { blob: new Blob([content], { type: 'text/plain' }), fileName: examDocumentFileName(title, 'gift'), unmapped };
+    }
+    default:
+      return {
+        blob: new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' }),
+        fileName: examDocumentFileName(title),
+        // Images stay in this project's storage; the file only holds links to them
+        unmapped: usesUploadedImages(document) ? [UPLOADED_IMAGES_NOTE] : [],
+      };
+  }
+};
+
+/**
+ * Reads a question file in any supported format, told apart by extension and,
+ * for ambiguous ones, content: CSV/TSV, GIFT, Moodle XML, a QTI 2.1 item or a
+ * QTI content package.
+ */
+export const parseQuestionFile = async (file: File): Promise<ImportResult> => {
+  const extension = file.name.toLowerCase().split('.').pop();
+
+  if (extension === 'zip') {
+    return parseQtiPackage(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  const text = await file.text();
+  switch (extension) {
+    case 'gift':
+      return parseGift(text);
+    case 'xml':
+      return /<quiz[\s>]/.test(text) ? parseMoodleXml(text) : parseQtiItem(text);
+    case 'txt':
+      // GIFT files are often saved as .txt; a CSV export starts with its header row
+      return /^\uFEFF?"?question"?\s*[,\t]/i.test(text) ? parseQuestionImport(text) : parseGift(text);
+    default:
+      return parseQuestionImport(text);
+  }
+};
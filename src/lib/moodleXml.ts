@@ -0,0 +1,246 @@
+import {
+  ExamDocument,
+  ExamExport,
+  unmappedFeatures,
+} from '@/lib/examTransfer';
+import { topicFromCategory } from '@/lib/gift';
+import {
+  checkedRow,
+  ImportedQuestion,
+  ImportResult,
+  ImportRow,
+  unsupportedRow,
+} from '@/lib/questionImport';
+import {
+  MultipleChoiceAnswer,
+  NumericAnswer,
+  optionIndex,
+  optionLabel,
+  QuestionAnswer,
+  ShortTextAnswer,
+  SingleChoiceAnswer,
+  TrueFalseAnswer,
+} from '@/lib/questionTypes';
+import { childrenNamed, childText, escapeXml, htmlToText, parseXml } from '@/lib/xml';
+
+// Moodle XML format: https://docs.moodle.org/en/Moodle_XML_format
+
+const UNSUPPORTED_TYPES: Record<string, string> = {
+  essay: 'Essay',
+  matching: 'Matching',
+  randomsamatch: 'Random short-answer matching',
+  cloze: 'Embedded answers (Cloze)',
+  multianswer: 'Embedded answers (Cloze)',
+  description: 'Description',
+  calculated: 'Calculated',
+  calculatedsimple: 'Simple calculated',
+  calculatedmulti: 'Calculated multichoice',
+  ddwtos: 'Drag and drop into text',
+  ddimageortext: 'Drag and drop onto image',
+  ddmarker: 'Drag and drop markers',
+  gapselect: 'Select missing words',
+  ordering: 'Ordering',
+};
+
+// Text of a <questiontext>-style element, converting HTML to plain text
+const formattedText = (parent: Element, localName: string) => {
+  const element = childrenNamed(parent, localName)[0];
+  if (!element) return '';
+  const text = childText(element, 'text');
+  return element.getAttribute('format') === 'html' || !element.getAttribute('format') ? htmlToText(text) : text;
+};
+
+interface MoodleAnswer {
+  fraction: number;
+  text: string;
+  tolerance: string;
+}
+
+const parseAnswers = (question: Element): MoodleAnswer[] =>
+  childrenNamed(question, 'answer').map((answer) => ({
+    fraction: Number(answer.getAttribute('fraction') ?? 0),
+    text: answer.getAttribute('format') === 'html' ? htmlToText(childText(answer, 'text')) : childText(answer, 'text'),
+    tolerance: childText(answer, 'tolerance'),
+  }));
+
+const parseQuestion = (question: Element, topic: string | null, row: number): ImportRow => {
+  const type = question.getAttribute('type') ?? '';
+  const questionText = formattedText(question, 'questiontext');
+
+  if (type !== 'multichoice' && type !== 'truefalse' && type !== 'shortanswer' && type !== 'numerical') {
+    return unsupportedRow(questionText, UNSUPPORTED_TYPES[type] ?? type, row);
+  }
+
+  const answers = parseAnswers(question);
+  const tagsElement = childrenNamed(question, 'tags')[0];
+  const base: Omit<ImportedQuestion, 'question_type' | 'options' | 'answer'> = {
+    question_text: questionText,
+    topic,
+    difficulty: null,
+    tags: tagsElement ? childrenNamed(tagsElement, 'tag').map((tag) => childText(tag, 'text')).filter(Boolean) : [],
+    explanation: formattedText(question, 'generalfeedback'),
+  };
+
+  switch (type) {
+    case 'multichoice': {
+      const single = /^(true|1)$/i.test(childText(question, 'single'));
+      const correct = answers
+        .map((answer, index) => (answer.fraction > 0 ? optionLabel(index) : null))
+        .filter((label): label is string => label !== null);
+      // A single-answer question may give partial credit to other options; the best one is correct here
+      const best = answers.reduce((bestIndex, answer, index) =>
+        (answer.fraction > answers[bestIndex].fraction ? index : bestIndex), 0);
+      return checkedRow({
+        ...base,
+        question_type: single ? 'single_choice' : 'multiple_choice',
+        options: answers.map((answer) => answer.text),
+        answer: single ? { option: optionLabel(best) } : { options: correct },
+      }, row);
+    }
+    case 'truefalse': {
+      const correct = answers.find((answer) => answer.fraction === 100);
+      return checkedRow({
+        ...base,
+        question_type: 'true_false',
+        options: [],
+        answer: { value: correct?.text.trim().toLowerCase() === 'true' },
+      }, row);
+    }
+    case 'shortanswer':
+      return checkedRow({
+        ...base,
+        question_type: 'short_text',
+        options: [],
+        answer: {
+          accepted: answers.filter((answer) => answer.fraction === 100).map((answer) => answer.text),
+          case_sensitive: childText(question, 'usecase') === '1',
+        },
+      }, row);
+    default: {
+      const correct = answers.find((answer) => answer.fraction === 100);
+      return checkedRow({
+        ...base,
+        question_type: 'numeric',
+        options: [],
+        answer: {
+          value: correct && correct.text !== '' ? Number(correct.text) : null,
+          tolerance: correct?.tolerance ? Number(correct.tolerance) : 0,
+        },
+      }, row);
+    }
+  }
+};
+
+/** Converts a Moodle XML question export into import rows, one per question. */
+export const parseMoodleXml = (text: string): ImportResult => {
+  const doc = parseXml(text);
+  if (!doc || doc.documentElement.localName !== 'quiz') {
+    return { rows: [], error: 'The file is not a Moodle XML question export' };
+  }
+
+  const rows: ImportRow[] = [];
+  let topic: string | null = null;
+
+  childrenNamed(doc.documentElement, 'question').forEach((question) => {
+    if (question.getAttribute('type') === 'category') {
+      topic = topicFromCategory(childText(childrenNamed(question, 'category')[0] ?? question, 'text'));
+      return;
+    }
+    rows.push(parseQuestion(question, topic, rows.length + 1));
+  });
+
+  if (rows.length === 0) {
+    return { rows, error: 'The file has no questions' };
+  }
+  return { rows, error: null };
+};
+
+const textElement = (name: string, text: string, format = 'plain_text') =>
+  `<${name} format="${format}"><text>${escapeXml(text)}</text></${name}>`;
+
+const answerElement = (fraction: number, text: string, extra = '') =>
+  `<answer fraction="${fraction}" format="plain_text"><text>${escapeXml(text)}</text>${extra}</answer>`;
+
+const moodleQuestion = (question: ExamDocument['questions'][number], index: number, defaultMarks: number) => {
+  const answer = question.answer as QuestionAnswer;
+  const lines: string[] = [];
+  let type: string;
+
+  switch (question.question_type) {
+    case 'single_choice':
+    case 'multiple_choice': {
+      const single = question.question_type === 'single_choice';
+      const correct = single
+        ? [optionIndex((answer as SingleChoiceAnswer).option)]
+        : (answer as MultipleChoiceAnswer).options.map(optionIndex);
+      // Multiple-answer fractions share 100% between the right options; any wrong pick cancels them
+      const fraction = Number((100 / correct.length).toFixed(5));
+      type = 'multichoice';
+      lines.push(
+        `<single>${single}</single>`,
+        '<shuffleanswers>false</shuffleanswers>',
+        '<answernumbering>ABCD</answernumbering>',
+        ...question.options.map((option, i) =>
+          answerElement(correct.includes(i) ? fraction : single ? 0 : -100, option)),
+      );
+      break;
+    }
+    case 'true_false': {
+      const { value } = answer as TrueFalseAnswer;
+      type = 'truefalse';
+      lines.push(answerElement(value ? 100 : 0, 'true'), answerElement(value ? 0 : 100, 'false'));
+      break;
+    }
+    case 'numeric': {
+      const { value, tolerance } = answer as NumericAnswer;
+      type = 'numerical';
+      lines.push(answerElement(100, String(value), `<tolerance>${tolerance}</tolerance>`));
+      break;
+    }
+    case 'short_text': {
+      const { accepted, case_sensitive } = answer as ShortTextAnswer;
+      type = 'shortanswer';
+      lines.push(`<usecase>${case_sensitive ? 1 : 0}</usecase>`, ...accepted.map((text) => answerElement(100, text)));
+      break;
+    }
+  }
+
+  if (question.tags.length > 0) {
+    lines.push(`<tags>${question.tags.map((tag) => `<tag><text>${escapeXml(tag)}</text></tag>`).join('')}</tags>`);
+  }
+
+  return [
+    `  <question type="${type}">`,
+    `    <name><text>Q${index + 1}</text></name>`,
+    `    ${textElement('questiontext', question.question_text)}`,
+    `    ${textElement('generalfeedback', question.explanation ?? '')}`,
+    `    <defaultgrade>${question.marks ?? defaultMarks}</defaultgrade>`,
+    '    <penalty>0</penalty>',
+    '    <hidden>0</hidden>',
+    ...lines.map((line) => `    ${line}`),
+    '  </question>',
+  ].join('\n');
+};
+
+/** Converts an exam into Moodle XML, listing what Moodle XML cannot express. */
+export const toMoodleXml = (document: ExamDocument): ExamExport => {
+  const questions: string[] = [];
+  let topic: string | null | undefined;
+
+  document.questions.forEach((question, index) => {
+    if (question.topic !== topic) {
+      topic = question.topic;
+      questions.push([
+        '  <question type="category">',
+        `    <category><text>${escapeXml(`$course$/${topic ? topic.replace(/\//g, '-') : 'top'}`)}</text></category>`,
+        '  </question>',
+      ].join('\n'));
+    }
+    questions.push(moodleQuestion(question, index, document.exam.marks_per_correct));
+  });
+
+  return {
+    content: ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...questions, '</quiz>', ''].join('\n'),
+    unmapped: unmappedFeatures(document, ['marks', 'explanations', 'topics', 'tags']),
+  };
+};
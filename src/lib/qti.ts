@@ -0,0 +1,343 @@
+import {
+  ExamDocument,
+  ExamExport,
+  unmappedFeatures,
+} from '@/lib/examTransfer';
+import {
+  checkedRow,
+  ImportedQuestion,
+  ImportResult,
+  ImportRow,
+  unsupportedRow,
+} from '@/lib/questionImport';
+import {
+  MultipleChoiceAnswer,
+  NumericAnswer,
+  optionLabel,
+  QuestionAnswer,
+  ShortTextAnswer,
+  SingleChoiceAnswer,
+  TrueFalseAnswer,
+} from '@/lib/questionTypes';
+import { childrenNamed, elementsNamed, escapeXml, htmlToText, parseXml } from '@/lib/xml';
+import { createZip, readZip, ZipFile } from '@/lib/zip';
+
+// IMS QTI 2.1: https://www.imsglobal.org/question/qtiv2p1/imsqti_infov2p1.html
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const INTERACTIONS: Record<string, string> = {
+  choiceInteraction: 'Choice',
+  textEntryInteraction: 'Text entry',
+  extendedTextInteraction: 'Extended text',
+  orderInteraction: 'Order',
+  associateInteraction: 'Associate',
+  matchInteraction: 'Match',
+  gapMatchInteraction: 'Gap match',
+  inlineChoiceInteraction: 'Inline choice',
+  hottextInteraction: 'Hot text',
+  hotspotInteraction: 'Hotspot',
+  selectPointInteraction: 'Select point',
+  graphicOrderInteraction: 'Graphic order',
+  graphicAssociateInteraction: 'Graphic associate',
+  graphicGapMatchInteraction: 'Graphic gap match',
+  positionObjectInteraction: 'Position object',
+  sliderInteraction: 'Slider',
+  mediaInteraction: 'Media',
+  drawingInteraction: 'Drawing',
+  uploadInteraction: 'File upload',
+  customInteraction: 'Custom',
+};
+
+const innerText = (element: Element) =>
+  htmlToText(Array.from(element.childNodes).map((node) => new XMLSerializer().serializeToString(node)).join(''));
+
+// Item text is the body without its interactions, plus any interaction prompt
+const itemText = (body: Element, interaction: Element) => {
+  const copy = body.cloneNode(true) as Element;
+  Object.keys(INTERACTIONS).forEach((name) =>
+    elementsNamed(copy, name).forEach((element) => element.replaceWith(' _____ ')));
+  const prompt = childrenNamed(interaction, 'prompt')[0];
+  const text = innerText(copy).replace(/\s*_____\s*$/, '');
+  return [text, prompt ? innerText(prompt) : ''].filter(Boolean).join('\n\n');
+};
+
+const correctValues = (declaration: Element | undefined) => {
+  const correct = declaration && childrenNamed(declaration, 'correctResponse')[0];
+  return correct ? childrenNamed(correct, 'value').map((value) => value.textContent?.trim() ?? '') : [];
+};
+
+const parseChoice = (
+  base: Omit<ImportedQuestion, 'question_type' | 'options' | 'answer'>,
+  interaction: Element,
+  declaration: Element | undefined,
+  row: number,
+): ImportRow => {
+  const choices = childrenNamed(interaction, 'simpleChoice');
+  const options = choices.map(innerText);
+  const correct = correctValues(declaration);
+  const labels = choices
+    .map((choice, index) => (correct.includes(choice.getAttribute('identifier') ?? '') ? optionLabel(index) : null))
+    .filter((label): label is string => label !== null);
+  const single = declaration?.getAttribute('cardinality') === 'single';
+
+  if (single && options.length === 2 && /^true$/i.test(options[0]) && /^false$/i.test(options[1])) {
+    return checkedRow({ ...base, question_type: 'true_false', options: [], answer: { value: labels[0] === 'A' } }, row);
+  }
+  return checkedRow({
+    ...base,
+    question_type: single ? 'single_choice' : 'multiple_choice',
+    options,
+    answer: single ? { option: labels[0] ?? '' } : { options: labels },
+  }, row);
+};
+
+const parseTextEntry = (
+  base: Omit<ImportedQuestion, 'question_type' | 'options' | 'answer'>,
+  item: Element,
+  declaration: Element | undefined,
+  row: number,
+): ImportRow => {
+  const baseType = declaration?.getAttribute('baseType');
+
+  if (baseType === 'float' || baseType === 'integer') {
+    const [value] = correctValues(declaration);
+    // Tolerance only survives as custom response processing comparing with <equal>
+    const equal = elementsNamed(item, 'equal').find((element) => element.getAttribute('toleranceMode') === 'absolute');
+    const tolerance = equal?.getAttribute('tolerance')?.trim().split(/\s+/)[0];
+    return checkedRow({
+      ...base,
+      question_type: 'numeric',
+      options: [],
+      answer: { value: value ? Number(value) : null, tolerance: tolerance ? Number(tolerance) : 0 },
+    }, row);
+  }
+
+  const mapping = declaration && childrenNamed(declaration, 'mapping')[0];
+  const entries = mapping
+    ? childrenNamed(mapping, 'mapEntry').filter((entry) => Number(entry.getAttribute('mappedValue')) > 0)
+    : [];
+  const accepted = [...new Set([
+    ...correctValues(declaration),
+    ...entries.map((entry) => entry.getAttribute('mapKey') ?? ''),
+  ])].filter(Boolean);
+
+  return checkedRow({
+    ...base,
+    question_type: 'short_text',
+    options: [],
+    answer: {
+      accepted,
+      case_sensitive: entries.length > 0 && entries.every((entry) => entry.getAttribute('caseSensitive') !== 'false'),
+    },
+  }, row);
+};
+
+const parseItem = (item: Element, row: number): ImportRow => {
+  const body = childrenNamed(item, 'itemBody')[0];
+  const interactions = body
+    ? Object.keys(INTERACTIONS).flatMap((name) => elementsNamed(body, name))
+    : [];
+  const title = item.getAttribute('title') ?? '';
+
+  if (!body || interactions.length === 0) {
+    return unsupportedRow(body ? innerText(body) : title, 'No interaction', row);
+  }
+  const [interaction] = interactions;
+  const questionText = itemText(body, interaction);
+  if (interactions.length > 1) {
+    return unsupportedRow(questionText, 'Several interactions', row);
+  }
+
+  const responseId = interaction.getAttribute('responseIdentifier');
+  const declaration = childrenNamed(item, 'responseDeclaration')
+    .find((element) => element.getAttribute('identifier') === responseId);
+  const base: Omit<ImportedQuestion, 'question_type' | 'options' | 'answer'> = {
+    question_text: questionText,
+    topic: null,
+    difficulty: null,
+    tags: [],
+    explanation: '',
+  };
+
+  switch (interaction.localName) {
+    case 'choiceInteraction':
+      return parseChoice(base, interaction, declaration, row);
+    case 'textEntryInteraction':
+      return parseTextEntry(base, item, declaration, row);
+    default:
+      return unsupportedRow(questionText, INTERACTIONS[interaction.localName], row);
+  }
+};
+
+const parseItems = (documents: string[]): ImportResult => {
+  const rows: ImportRow[] = [];
+  documents.forEach((text) => {
+    const doc = parseXml(text);
+    if (doc) elementsNamed(doc, 'assessmentItem').forEach((item) => rows.push(parseItem(item, rows.length + 1)));
+  });
+
+  if (rows.length === 0) {
+    return { rows, error: 'The file has no QTI 2.1 assessment items' };
+  }
+  return { rows, error: null };
+};
+
+/** Converts a single QTI 2.1 assessment item file into import rows. */
+export const parseQtiItem = (text: string): ImportResult => {
+  if (!parseXml(text)) {
+    return { rows: [], error: 'The file is not well-formed XML' };
+  }
+  return parseItems([text]);
+};
+
+/**
+ * Converts a QTI 2.1 content package into import rows, taking the items the
+ * manifest lists or, without a manifest, every XML file holding an item.
+ */
+export const parseQtiPackage = async (data: Uint8Array): Promise<ImportResult> => {
+  let files: Map<string, string>;
+  try {
+    files = await readZip(data);
+  } catch (error) {
+    return { rows: [], error: error instanceof Error ? error.message : 'The file could not be read' };
+  }
+
+  const manifest = parseXml(files.get('imsmanifest.xml') ?? '');
+  const hrefs = manifest
+    ? elementsNamed(manifest, 'resource')
+      .filter((resource) => resource.getAttribute('type')?.startsWith('imsqti_item'))
+      .map((resource) => resource.getAttribute('href') ?? '')
+    : [];
+  const itemFiles = hrefs.length > 0
+    ? hrefs.map((href) => files.get(href) ?? '')
+    : [...files.entries()].filter(([name]) => name.endsWith('.xml')).map(([, text]) => text);
+
+  return parseItems(itemFiles);
+};
+
+const itemXml = (question: ExamDocument['questions'][number], identifier: string) => {
+  const answer = question.answer as QuestionAnswer;
+  const text = question.question_text.split(/\n{2,}/).map((paragraph) =>
+    `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`);
+  let declaration: string;
+  let interaction: string;
+  let processing = `<responseProcessing template="${TEMPLATES}/match_correct"/>`;
+
+  const choiceInteraction = (options: string[], maxChoices: number) => [
+    `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${maxChoices}">`,
+    ...options.map((option, index) =>
+      `  <simpleChoice identifier="${optionLabel(index)}">${escapeXml(option)}</simpleChoice>`),
+    '</choiceInteraction>',
+  ].join('\n');
+  const correctResponse = (values: string[]) =>
+    `<correctResponse>${values.map((value) => `<value>${escapeXml(value)}</value>`).join('')}</correctResponse>`;
+
+  switch (question.question_type) {
+    case 'single_choice':
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">${correctResponse([(answer as SingleChoiceAnswer).option])}</responseDeclaration>`;
+      interaction = choiceInteraction(question.options, 1);
+      break;
+    case 'multiple_choice':
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">${correctResponse((answer as MultipleChoiceAnswer).options)}</responseDeclaration>`;
+      interaction = choiceInteraction(question.options, 0);
+      break;
+    case 'true_false':
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">${correctResponse([(answer as TrueFalseAnswer).value ? 'A' : 'B'])}</responseDeclaration>`;
+      interaction = choiceInteraction(['True', 'False'], 1);
+      break;
+    case 'numeric': {
+      const { value, tolerance } = answer as NumericAnswer;
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">${correctResponse([String(value)])}</responseDeclaration>`;
+      interaction = '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/></p>';
+      if (tolerance > 0) {
+        processing = [
+          '<responseProcessing>',
+          '  <responseCondition>',
+          '    <responseIf>',
+          `      <equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`,
+          '      <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>',
+          '    </responseIf>',
+          '    <responseElse>',
+          '      <setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue>',
+          '    </responseElse>',
+          '  </responseCondition>',
+          '</responseProcessing>',
+        ].join('\n');
+      }
+      break;
+    }
+    case 'short_text': {
+      const { accepted, case_sensitive } = answer as ShortTextAnswer;
+      const entries = accepted.map((value) =>
+        `<mapEntry mapKey="${escapeXml(value)}" mappedValue="1" caseSensitive="${case_sensitive}"/>`);
+      declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correctResponse(accepted.slice(0, 1))}<mapping defaultValue="0" upperBound="1">${entries.join('')}</mapping></responseDeclaration>`;
+      interaction = '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>';
+      processing = `<responseProcessing template="${TEMPLATES}/map_response"/>`;
+      break;
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${identifier}" adaptive="false" timeDependent="false">`,
+    declaration,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '<itemBody>',
+    ...text,
+    interaction,
+    '</itemBody>',
+    processing,
+    '</assessmentItem>',
+    '',
+  ].join('\n');
+};
+
+/** Converts an exam into a QTI 2.1 content package (a ZIP), listing what QTI items cannot express. */
+export const toQtiPackage = (document: ExamDocument): ExamExport<Uint8Array> => {
+  const items = document.questions.map((question, index) => {
+    const identifier = `item${index + 1}`;
+    return { identifier, file: { name: `${identifier}.xml`, content: itemXml(question, identifier) } };
+  });
+
+  const test = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="test" title="${escapeXml(document.exam.title)}">`,
+    '<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    '<assessmentSection identifier="section1" title="Questions" visible="true">',
+    ...items.map(({ identifier, file }) =>
+      `<assessmentItemRef identifier="${identifier}" href="${file.name}"/>`),
+    '</assessmentSection>',
+    '</testPart>',
+    '</assessmentTest>',
+    '',
+  ].join('\n');
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">',
+    '<organizations/>',
+    '<resources>',
+    '<resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml">',
+    '<file href="test.xml"/>',
+    ...items.map(({ identifier }) => `<dependency identifierref="${identifier}"/>`),
+    '</resource>',
+    ...items.map(({ identifier, file }) =>
+      `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${file.name}"><file href="${file.name}"/></resource>`),
+    '</resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+
+  const files: ZipFile[] = [
+    { name: 'imsmanifest.xml', content: manifest },
+    { name: 'test.xml', content: test },
+    ...items.map(({ file }) => file),
+  ];
+
+  return {
+    content: createZip(files),
+    unmapped: unmappedFeatures(document, []),
+  };
+};
@@ -0,0 +1,36 @@
+interface Identifiable {
+  id?: string;
+}
+
+export interface QuestionDiff<T> {
+  toInsert: T[];
+  toUpdate: T[];
+  toDelete: string[];
+}
+
+const isSameQuestion = <T extends object>(a: T, b: T) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) => JSON.stringify(a[key as keyof T]) === JSON.stringify(b[key as keyof T])
+  );
+};
+
+/**
+ * Compares the questions loaded from the database with the edited list and
+ * returns only the rows that have to be inserted, updated or deleted, so
+ * unchanged questions (and the student answers pointing at them) are left alone.
+ */
+export function diffQuestions<T extends Identifiable>(original: T[], current: T[]): QuestionDiff<T> {
+  const originalById = new Map(original.filter((q) => q.id).map((q) => [q.id, q]));
+  const currentIds = new Set(current.filter((q) => q.id).map((q) => q.id));
+
+  return {
+    toInsert: current.filter((q) => !q.id),
+    toUpdate: current.filter((q) => {
+      if (!q.id) return false;
+      const before = originalById.get(q.id);
+      return !before || !isSameQuestion(before, q);
+    }),
+    toDelete: original.filter((q) => q.id && !currentIds.has(q.id)).map((q) => q.id as string),
+  };
+}
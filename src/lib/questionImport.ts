@@ -0,0 +1,242 @@
+import {
+  DIFFICULTY_LABELS,
+  getQuestionError,
+  normalizeTags,
+  QuestionAnswer,
+  QuestionContent,
+  QuestionDifficulty,
+  QuestionType,
+  QUESTION_TYPE_LABELS,
+} from '@/lib/questionTypes';
+
+export interface ImportedQuestion extends QuestionContent {
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  explanation: string;
+}
+
+export interface ImportRow {
+  // 1-based position among the data rows, as shown in the preview
+  row: number;
+  question: ImportedQuestion;
+  // First problem that keeps the row from being imported
+  error: string | null;
+  // Source question type this app has no equivalent for, shown in place of the type
+  unsupported?: string;
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  // Problem with the file as a whole, e.g. a missing header
+  error: string | null;
+}
+
+export const IMPORT_COLUMNS = [
+  'question',
+  'type',
+  'options',
+  'answer',
+  'tolerance',
+  'explanation',
+  'topic',
+  'difficulty',
+  'tags',
+] as const;
+
+type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+// Options, multiple correct letters, accepted answers and tags are separated by a pipe within a cell
+const LIST_SEPARATOR = '|';
+
+const splitList = (value: string) =>
+  value.split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+
+// Blank options are kept in place so answer letters still line up with their cells
+const splitOptions = (value: string) =>
+  value.trim() === '' ? [] : value.split(LIST_SEPARATOR).map((item) => item.trim());
+
+/**
+ * Splits delimited text into rows of cells, following RFC 4180 quoting:
+ * quoted cells may contain delimiters, line breaks and doubled quotes.
+ */
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no question
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+};
+
+/** Spreadsheets copy and export tab-separated text; everything else is treated as CSV. */
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const tabs = firstLine.split('\t').length - 1;
+  const commas = firstLine.split(',').length - 1;
+  return tabs > 0 && tabs >= commas ? '\t' : ',';
+};
+
+const parseType = (value: string): QuestionType | null => {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return key in QUESTION_TYPE_LABELS ? key as QuestionType : null;
+};
+
+const inferType = (options: string[], answer: string): QuestionType => {
+  if (options.length > 0) {
+    return splitList(answer).length > 1 ? 'multiple_choice' : 'single_choice';
+  }
+  if (/^(true|false)$/i.test(answer.trim())) return 'true_false';
+  if (answer.trim() !== '' && Number.isFinite(Number(answer))) return 'numeric';
+  return 'short_text';
+};
+
+const parseAnswer = (type: QuestionType, answer: string, tolerance: string): QuestionAnswer => {
+  switch (type) {
+    case 'single_choice':
+      return { option: answer.trim().toUpperCase() };
+    case 'multiple_choice':
+      return { options: splitList(answer).map((label) => label.toUpperCase()).sort() };
+    case 'true_false':
+      return { value: answer.trim().toLowerCase() === 'true' };
+    case 'numeric':
+      return {
+        value: answer.trim() === '' ? null : Number(answer),
+        tolerance: tolerance.trim() === '' ? 0 : Number(tolerance),
+      };
+    case 'short_text':
+      return { accepted: splitList(answer), case_sensitive: false };
+  }
+};
+
+/** Validates a converted question with the same checks the editor runs before saving. */
+export const checkedRow = (question: ImportedQuestion, row: number): ImportRow => ({
+  row,
+  question,
+  error: getQuestionError(question),
+});
+
+/** A row for a source question that cannot be mapped onto this app's question types. */
+export const unsupportedRow = (questionText: string, sourceType: string, row: number): ImportRow => ({
+  row,
+  question: {
+    question_type: 'short_text',
+    question_text: questionText,
+    options: [],
+    answer: { accepted: [], case_sensitive: false },
+    topic: null,
+    difficulty: null,
+    tags: [],
+    explanation: '',
+  },
+  error: `${sourceType} questions are not supported`,
+  unsupported: sourceType,
+});
+
+const parseRow = (cells: Record<ImportColumn, string>, row: number): ImportRow => {
+  const options = splitOptions(cells.options);
+  const explicitType = cells.type.trim() !== '';
+  const type = explicitType ? parseType(cells.type) : inferType(options, cells.answer);
+  const difficulty = cells.difficulty.trim().toLowerCase();
+
+  const question: ImportedQuestion = {
+    question_type: type ?? 'single_choice',
+    question_text: cells.question.trim(),
+    options: type === 'single_choice' || type === 'multiple_choice' ? options : [],
+    answer: parseAnswer(type ?? 'single_choice', cells.answer, cells.tolerance),
+    topic: cells.topic.trim() || null,
+    difficulty: difficulty in DIFFICULTY_LABELS ? difficulty as QuestionDifficulty : null,
+    tags: normalizeTags(splitList(cells.tags)),
+    explanation: cells.explanation.trim(),
+  };
+
+  let error: string | null = null;
+  if (!type) {
+    error = `Unknown question type "${cells.type.trim()}"`;
+  } else if (difficulty && !question.difficulty) {
+    error = `Unknown difficulty "${cells.difficulty.trim()}"`;
+  } else if (type === 'true_false' && !/^(true|false)$/i.test(cells.answer.trim())) {
+    error = 'The answer must be true or false';
+  } else if (type === 'single_choice' && splitList(cells.answer).length > 1) {
+    error = 'Single choice questions have one correct option';
+  } else {
+    error = getQuestionError(question);
+  }
+
+  return { row, question, error };
+};
+
+/**
+ * Parses an import file whose first row names the columns. Every data row is
+ * returned so the preview can show why rejected rows were skipped.
+ */
+export const parseQuestionImport = (text: string): ImportResult => {
+  const [header, ...dataRows] = parseDelimited(text, detectDelimiter(text));
+
+  if (!header) {
+    return { rows: [], error: 'The file is empty' };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const unknown = columns.filter((name) => !(IMPORT_COLUMNS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    return { rows: [], error: `Unknown column "${unknown[0]}"` };
+  }
+  if (!columns.includes('question')) {
+    return { rows: [], error: 'The header row needs a "question" column' };
+  }
+  if (dataRows.length === 0) {
+    return { rows: [], error: 'The file has no questions' };
+  }
+
+  const rows = dataRows.map((cells, index) => {
+    const byColumn = Object.fromEntries(
+      IMPORT_COLUMNS.map((column) => [column, cells[columns.indexOf(column)] ?? ''])
+    ) as Record<ImportColumn, string>;
+    return parseRow(byColumn, index + 1);
+  });
+
+  return { rows, error: null };
+};
+
+/** A sample file admins can start from. */
+export const IMPORT_TEMPLATE = [
+  IMPORT_COLUMNS.join(','),
+  'What is 2 + 2?,single_choice,3|4|5,B,,Two pairs make four.,Arithmetic,easy,basics',
+  'Water boils at 100 °C at sea level.,true_false,,true,,,Physics,easy,',
+  'What is g in m/s²?,numeric,,9.81,0.05,,Physics,medium,constants',
+].join('\n');
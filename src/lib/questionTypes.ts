@@ -0,0 +1,291 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type QuestionType = Database['public']['Enums']['question_type'];
+export type QuestionDifficulty = Database['public']['Enums']['question_difficulty'];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 8;
+
+// Choice answers refer to options by the letter of their position in the list
+export const optionLabel = (index: number) => String.fromCharCode(65 + index);
+export const optionIndex = (label: string) => label.charCodeAt(0) - 65;
+export const isOptionLabel = (label: string) => /^[A-Z]$/.test(label);
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  true_false: 'True / False',
+  multiple_choice: 'Select all that apply',
+  numeric: 'Numeric answer',
+  short_text: 'Short text answer',
+};
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+// Trims tags, drops empty ones and duplicates (case-insensitively, keeping the first spelling)
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Answer keys, stored in questions.answer
+export interface SingleChoiceAnswer {
+  option: string;
+}
+
+export interface TrueFalseAnswer {
+  value: boolean;
+}
+
+export interface MultipleChoiceAnswer {
+  options: string[];
+}
+
+export interface NumericAnswer {
+  value: number | null;
+  tolerance: number;
+}
+
+export interface ShortTextAnswer {
+  accepted: string[];
+  case_sensitive: boolean;
+}
+
+export type QuestionAnswer =
+  | SingleChoiceAnswer
+  | TrueFalseAnswer
+  | MultipleChoiceAnswer
+  | NumericAnswer
+  | ShortTextAnswer;
+
+// Student responses, stored in exam_attempts.answers and student_answers.response
+export type QuestionResponse =
+  | { option: string }
+  | { value: boolean }
+  | { options: string[] }
+  | { value: number }
+  | { text: string };
+
+// Versioned question content, as stored in question_revisions.content
+export interface QuestionContent {
+  question_type: QuestionType;
+  options: string[];
+  question_text: string;
+  answer: QuestionAnswer;
+}
+
+export const isChoiceType = (type: QuestionType) =>
+  type === 'single_choice' || type === 'multiple_choice';
+
+export const defaultOptions = (type: QuestionType): string[] =>
+  isChoiceType(type) ? ['', '', '', ''] : [];
+
+export const defaultAnswer = (type: QuestionType): QuestionAnswer => {
+  switch (type) {
+    case 'single_choice':
+      return { option: 'A' };
+    case 'true_false':
+      return { value: true };
+    case 'multiple_choice':
+      return { options: [] };
+    case 'numeric':
+      return { value: null, tolerance: 0 };
+    case 'short_text':
+      return { accepted: [''], case_sensitive: false };
+  }
+};
+
+/** Switches a question to another type, resetting the answer key for it. */
+export const withQuestionType = <T extends QuestionContent>(question: T, type: QuestionType): T => ({
+  ...question,
+  question_type: type,
+  // Keep typed options when switching between single and multiple choice
+  options: isChoiceType(type) && question.options.length > 0 ? question.options : defaultOptions(type),
+  answer: defaultAnswer(type),
+});
+
+/**
+ * Returns the first problem that would stop a question from being saved,
+ * or null when the question is complete.
+ */
+export const getQuestionError = (question: QuestionContent): string | null => {
+  if (!question.question_text.trim()) {
+    return 'Question text is required';
+  }
+
+  switch (question.question_type) {
+    case 'single_choice':
+    case 'multiple_choice': {
+      if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+        return `Add between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`;
+      }
+      if (question.options.some((option) => !option.trim())) {
+        return 'All options must be filled in';
+      }
+      const correct = question.question_type === 'multiple_choice'
+        ? (question.answer as MultipleChoiceAnswer).options
+        : [(question.answer as SingleChoiceAnswer).option];
+      if (correct.length === 0) {
+        return 'Mark at least one correct option';
+      }
+      if (correct.some((label) => !isOptionLabel(label) || optionIndex(label) >= question.options.length)) {
+        return 'The correct answer must be one of the options';
+      }
+      return null;
+    }
+    case 'numeric': {
+      const { value, tolerance } = question.answer as NumericAnswer;
+      if (value === null || !Number.isFinite(value)) {
+        return 'Enter the correct numeric answer';
+      }
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        return 'Tolerance must be zero or a positive number';
+      }
+      return null;
+    }
+    case 'short_text':
+      if ((question.answer as ShortTextAnswer).accepted.every((accepted) => !accepted.trim())) {
+        return 'Add at least one accepted answer';
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/** Drops blank accepted answers and other editor-only leftovers before saving. */
+export const normalizeAnswer = (type: QuestionType, answer: QuestionAnswer): QuestionAnswer => {
+  if (type === 'short_text') {
+    const { accepted, case_sensitive } = answer as ShortTextAnswer;
+    return {
+      accepted: accepted.map((a) => a.trim()).filter(Boolean),
+      case_sensitive,
+    };
+  }
+  if (type === 'multiple_choice') {
+    return { options: [...(answer as MultipleChoiceAnswer).options].sort() };
+  }
+  return answer;
+};
+
+const remapChoiceAnswer = (
+  type: QuestionType,
+  answer: QuestionAnswer,
+  remap: (index: number) => number | null
+): QuestionAnswer => {
+  const remapLabel = (label: string) => {
+    const next = remap(optionIndex(label));
+    return next === null ? null : optionLabel(next);
+  };
+
+  if (type === 'multiple_choice') {
+    return {
+      options: (answer as MultipleChoiceAnswer).options
+        .map(remapLabel)
+        .filter((label): label is string => label !== null)
+        .sort(),
+    };
+  }
+
+  // A removed single answer falls back to the first option
+  return { option: remapLabel((answer as SingleChoiceAnswer).option) ?? optionLabel(0) };
+};
+
+/** Removes an option and shifts the answer letters that pointed past it. */
+export const removeOption = <T extends QuestionContent>(question: T, index: number): T => ({
+  ...question,
+  options: question.options.filter((_, i) => i !== index),
+  answer: remapChoiceAnswer(question.question_type, question.answer, (i) =>
+    i === index ? null : i > index ? i - 1 : i
+  ),
+});
+
+/** Moves an option to a new position, keeping the answer pointing at the same text. */
+export const moveOption = <T extends QuestionContent>(question: T, from: number, to: number): T => {
+  const options = [...question.options];
+  const [moved] = options.splice(from, 1);
+  options.splice(to, 0, moved);
+
+  return {
+    ...question,
+    options,
+    answer: remapChoiceAnswer(question.question_type, question.answer, (i) => {
+      if (i === from) return to;
+      if (from < to && i > from && i <= to) return i - 1;
+      if (from > to && i >= to && i < from) return i + 1;
+      return i;
+    }),
+  };
+};
+
+/**
+ * Shows a choice question with its options in a shuffled attempt's order.
+ * `order` lists the canonical option index shown at each position; the answer
+ * key follows its options so the letters match what the student saw.
+ */
+export const applyOptionOrder = <T extends QuestionContent>(question: T, order: number[] | null): T => {
+  if (!order || !isChoiceType(question.question_type)) return question;
+
+  return {
+    ...question,
+    options: order.map((i) => question.options[i]),
+    answer: remapChoiceAnswer(question.question_type, question.answer, (i) => order.indexOf(i)),
+  };
+};
+
+/** Maps a graded (canonical) response to the option letters of a shuffled attempt. */
+export const applyOptionOrderToResponse = (
+  type: QuestionType,
+  response: QuestionResponse | null,
+  order: number[] | null
+): QuestionResponse | null => {
+  if (!response || !order || !isChoiceType(type)) return response;
+  // Choice responses share the shape of their answer keys
+  return remapChoiceAnswer(type, response as QuestionAnswer, (i) => order.indexOf(i)) as QuestionResponse;
+};
+
+/** Human-readable form of an answer key, used in the result review. */
+export const describeAnswer = (type: QuestionType, answer: QuestionAnswer): string => {
+  switch (type) {
+    case 'single_choice':
+      return (answer as SingleChoiceAnswer).option;
+    case 'true_false':
+      return (answer as TrueFalseAnswer).value ? 'True' : 'False';
+    case 'multiple_choice':
+      return (answer as MultipleChoiceAnswer).options.join(', ');
+    case 'numeric': {
+      const { value, tolerance } = answer as NumericAnswer;
+      return tolerance > 0 ? `${value} (± ${tolerance})` : `${value}`;
+    }
+    case 'short_text':
+      return (answer as ShortTextAnswer).accepted.join(' / ');
+  }
+};
+
+/** Human-readable form of a student's response, used in the result review. */
+export const describeResponse = (type: QuestionType, response: QuestionResponse | null): string | null => {
+  if (!response) return null;
+
+  switch (type) {
+    case 'single_choice':
+      return (response as { option: string }).option;
+    case 'true_false':
+      return (response as { value: boolean }).value ? 'True' : 'False';
+    case 'multiple_choice':
+      return (response as { options: string[] }).options.join(', ');
+    case 'numeric':
+      return String((response as { value: number }).value);
+    case 'short_text':
+      return (response as { text: string }).text;
+  }
+};
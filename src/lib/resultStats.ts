@@ -0,0 +1,65 @@
+/** The parts of a result the exam reports summarise. */
+export interface ScoredResult {
+  score: number;
+  // Null when the exam had no pass mark at grading time
+  passed: boolean | null;
+}
+
+export interface ResultSummary {
+  attempts: number;
+  mean: number | null;
+  median: number | null;
+  // Share of pass-marked attempts that passed, 0 to 100; null when none had a pass mark
+  passRate: number | null;
+}
+
+export interface ScoreBucket {
+  // e.g. "90–100"
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const summarizeResults = (results: ScoredResult[]): ResultSummary => {
+  const scores = results.map((result) => result.score);
+  const marked = results.filter((result) => result.passed !== null);
+
+  return {
+    attempts: results.length,
+    mean: scores.length > 0 ? round1(scores.reduce((total, score) => total + score, 0) / scores.length) : null,
+    median: median(scores),
+    passRate: marked.length > 0
+      ? round1((marked.filter((result) => result.passed).length * 100) / marked.length)
+      : null,
+  };
+};
+
+/**
+ * Counts scores into equal percentage ranges for a histogram. The top range
+ * includes 100, so 10-point buckets run 0–9, 10–19, … 90–100.
+ */
+export const scoreHistogram = (scores: number[], bucketSize = 10): ScoreBucket[] => {
+  const buckets: ScoreBucket[] = [];
+  for (let min = 0; min < 100; min += bucketSize) {
+    const max = min + bucketSize >= 100 ? 100 : min + bucketSize - 1;
+    buckets.push({ label: `${min}–${max}`, min, max, count: 0 });
+  }
+
+  for (const score of scores) {
+    const index = Math.min(Math.floor(Math.max(score, 0) / bucketSize), buckets.length - 1);
+    buckets[index].count += 1;
+  }
+
+  return buckets;
+};
@@ -0,0 +1,32 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AttemptScoring = Database['public']['Enums']['attempt_scoring'];
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoring, string> = {
+  best: 'Best attempt',
+  latest: 'Latest attempt',
+  average: 'Average of attempts',
+};
+
+/** The retake columns of an exam. */
+export interface RetakePolicy {
+  // Null allows unlimited attempts
+  max_attempts: number | null;
+  attempt_cooldown_minutes: number;
+}
+
+/** A student's attempts on one exam, as in the exam_scores view. */
+export interface ExamStanding {
+  attempts: number;
+  last_completed_at: string | null;
+}
+
+/** Attempts the student has left, or null when the exam has no limit. */
+export const attemptsLeft = (policy: RetakePolicy, standing?: ExamStanding) =>
+  policy.max_attempts === null ? null : Math.max(0, policy.max_attempts - (standing?.attempts ?? 0));
+
+/** When the cooldown after the student's last attempt ends, if there is one. */
+export const retakeAvailableAt = (policy: RetakePolicy, standing?: ExamStanding): Date | null => {
+  if (!standing?.last_completed_at || policy.attempt_cooldown_minutes === 0) return null;
+  return new Date(new Date(standing.last_completed_at).getTime() + policy.attempt_cooldown_minutes * 60_000);
+};
@@ -0,0 +1,9 @@
+/** Formats a mark value with at most two decimals, e.g. 2, 0.66, 46.5. */
+export const formatMarks = (marks: number) => `${Number(Number(marks).toFixed(2))}`;
+
+/** Formats a signed mark value for a single answer, e.g. +2, −0.66, 0. */
+export const formatSignedMarks = (marks: number) => {
+  if (marks > 0) return `+${formatMarks(marks)}`;
+  if (marks < 0) return `−${formatMarks(-marks)}`;
+  return '0';
+};
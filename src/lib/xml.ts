@@ -0,0 +1,33 @@
+/** Escapes text for use in XML element content and attribute values. */
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** Parses an XML document, or returns null when it is not well-formed. */
+export const parseXml = (text: string): Document | null => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+/** Elements with a local name anywhere below `parent`, whatever their namespace. */
+export const elementsNamed = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+/** Direct children with a local name, whatever their namespace. */
+export const childrenNamed = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter((child) => child.localName === localName);
+
+/** Text of the first direct child with a local name, or '' when there is none. */
+export const childText = (parent: Element, localName: string) =>
+  childrenNamed(parent, localName)[0]?.textContent?.trim() ?? '';
+
+/** Plain text of an HTML fragment, keeping paragraph and line breaks. */
+export const htmlToText = (html: string) => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li|h\d)>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent ?? '';
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
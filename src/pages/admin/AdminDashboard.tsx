@@ -5,6 +5,7 @@ import DashboardLayout from '@/components/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { FileText, Users, Plus, CheckCircle2, Clock } from 'lucide-react';
+import { categoryBadgeStyle } from '@/lib/categories';
 
 interface Stats {
   totalExams: number;
@@ -13,7 +14,7 @@ interface Stats {
   recentExams: Array<{
     id: string;
     title: string;
-    category: string;
+    category: { name: string; colour: string } | null;
     created_at: string;
   }>;
 }
@@ -33,7 +34,7 @@ export default function AdminDashboard() {
         // Fetch exam counts
         const { data: exams } = await supabase
           .from('exams')
-          .select('id, title, category, is_active, created_at')
+          .select('id, title, status, created_at, category:categories(name, colour)')
           .order('created_at', { ascending: false });
 
         // Fetch total attempts
@@ -44,7 +45,7 @@ export default function AdminDashboard() {
         if (exams) {
           setStats({
             totalExams: exams.length,
-            activeExams: exams.filter(e => e.is_active).length,
+            activeExams: exams.filter(e => e.status === 'published').length,
             totalAttempts: attemptCount || 0,
             recentExams: exams.slice(0, 5),
           });
@@ -59,19 +60,6 @@ export default function AdminDashboard() {
     fetchStats();
   }, []);
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'basic':
-        return 'bg-exam-basic/10 text-exam-basic';
-      case 'prelims':
-        return 'bg-exam-prelims/10 text-exam-prelims';
-      case 'mains':
-        return 'bg-exam-mains/10 text-exam-mains';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  };
-
   return (
     <DashboardLayout>
       <div className="space-y-8">
@@ -113,7 +101,7 @@ export default function AdminDashboard() {
             <CardContent className="p-6">
               <div className="flex items-start justify-between">
                 <div>
-                  <p className="text-sm text-muted-foreground">Active Exams</p>
+                  <p className="text-sm text-muted-foreground">Published Exams</p>
                   <p className="text-3xl font-display font-bold mt-1">{stats.activeExams}</p>
                 </div>
                 <div className="w-12 h-12 rounded-xl bg-success/10 flex items-center justify-center">
@@ -179,8 +167,8 @@ export default function AdminDashboard() {
                       <div>
                         <h3 className="font-medium text-foreground">{exam.title}</h3>
                         <div className="flex items-center gap-2 mt-1">
-                          <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${getCategoryColor(exam.category)}`}>
-                            {exam.category}
+                          <span className="text-xs px-2 py-0.5 rounded-full" style={categoryBadgeStyle(exam.category?.colour)}>
+                            {exam.category?.name}
                           </span>
                           <span className="text-xs text-muted-foreground flex items-center gap-1">
                             <Clock className="w-3 h-3" />
@@ -1,13 +1,17 @@
 import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useQuestionTags } from '@/hooks/useQuestionTags';
+import { useCategories } from '@/hooks/useCategories';
 import DashboardLayout from '@/components/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import {
@@ -21,34 +25,153 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { Plus, Trash2, Save, ArrowLeft, Loader2 } from 'lucide-react';
+import {
+  Plus,
+  Trash2,
+  Save,
+  ArrowLeft,
+  Loader2,
+  ChevronUp,
+  ChevronDown,
+  X,
+  Library,
+  Upload,
+  Eye,
+  Send,
+  Rocket,
+} from 'lucide-react';
 import { toast } from 'sonner';
+import { diffQuestions } from '@/lib/questionDiff';
+import { formatMarks } from '@/lib/scoring';
+import QuestionAnswerEditor from '@/components/QuestionAnswerEditor';
+import QuestionBankPicker, { BankQuestion } from '@/components/QuestionBankPicker';
+import TagInput from '@/components/TagInput';
+import QuestionImportDialog from '@/components/QuestionImportDialog';
+import QuestionPreview from '@/components/QuestionPreview';
+import RichText from '@/components/RichText';
+import ImageUploadButton from '@/components/ImageUploadButton';
+import GradeBandsEditor from '@/components/GradeBandsEditor';
+import { appendImage } from '@/lib/imageStorage';
+import { EXAM_STATUS_LABELS, EXAM_STATUS_STYLES, ExamStatus } from '@/lib/examStatus';
+import { fromDateTimeLocal, toDateTimeLocal } from '@/lib/examSchedule';
+import { ATTEMPT_SCORING_LABELS, AttemptScoring } from '@/lib/retakePolicy';
+import {
+  getGradeBandsError,
+  getPassMarkError,
+  GradeBand,
+  parseGradeBands,
+  sortGradeBands,
+} from '@/lib/grading';
+import { ImportedQuestion } from '@/lib/questionImport';
+import {
+  defaultAnswer,
+  defaultOptions,
+  DIFFICULTY_LABELS,
+  getQuestionError,
+  isChoiceType,
+  normalizeAnswer,
+  normalizeTags,
+  QuestionAnswer,
+  QuestionDifficulty,
+  QuestionType,
+  QUESTION_TYPE_LABELS,
+  withQuestionType,
+} from '@/lib/questionTypes';
 
+// A question as used by this exam: shared bank content plus the exam's own settings
 interface Question {
+  // Link to the exam; missing until saved
   id?: string;
+  // Bank question; missing for questions first written in this editor
+  question_id?: string;
+  // Other exams using the same bank question, whose papers change with it
+  shared_with?: number;
+  question_type: QuestionType;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_option: 'A' | 'B' | 'C' | 'D';
+  options: string[];
+  answer: QuestionAnswer;
+  marks: number | null;
+  negative_marks: number | null;
+  section_id: string | null;
+  // Shared reading passage or data set shown beside the question
+  passage_id: string | null;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  explanation: string;
   order_index: number;
 }
 
-type ExamCategory = 'basic' | 'prelims' | 'mains';
+interface DrawRule {
+  topic: string;
+  min_count: number;
+}
+
+interface Section {
+  id: string;
+  title: string;
+  duration_minutes: number;
+}
+
+interface Passage {
+  id: string;
+  title: string;
+  content: string;
+}
+
+type ExplanationVisibility = 'immediately' | 'after_close' | 'never';
 
 interface ExamForm {
   title: string;
   description: string;
-  category: ExamCategory;
+  // Empty until the categories load for a new exam
+  category_id: string;
   duration_minutes: number;
-  is_active: boolean;
+  marks_per_correct: number;
+  negative_marks: number;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  show_explanations: ExplanationVisibility;
+  // Questions drawn per attempt; null uses every question
+  draw_count: number | null;
+  // Availability window; null leaves that side open
+  opens_at: string | null;
+  closes_at: string | null;
+  fixed_start: boolean;
+  // Retake policy; null allows unlimited attempts
+  max_attempts: number | null;
+  attempt_cooldown_minutes: number;
+  attempt_scoring: AttemptScoring;
+  // Grading; null uses the category's
+  pass_mark: number | null;
+  grade_bands: GradeBand[] | null;
 }
 
-const DURATION_BY_CATEGORY = {
-  basic: 40,
-  prelims: 20,
-  mains: 30,
+// Drafts save as they are; review and publishing first check the exam is complete
+type SaveMode = 'draft' | 'review' | 'publish';
+
+// Select values standing in for a question without a difficulty or passage
+const NO_DIFFICULTY = 'none';
+const NO_PASSAGE = 'none';
+
+// Heads the live preview shown beside a question or passage while it is edited
+const PreviewLabel = () => (
+  <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+    <Eye className="w-4 h-4" />
+    Preview
+  </p>
+);
+
+// Drafts skip validation, so counts the database requires to be positive are brought into range
+const atLeastOne = (value: number) => Math.max(1, Math.round(value) || 1);
+
+// Empty mark inputs clear a per-question override
+const parseMarks = (value: string) => (value === '' ? null : Math.max(0, Number(value)));
+
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const moved = [...items];
+  moved.splice(to, 0, ...moved.splice(from, 1));
+  return moved;
 };
 
 export default function ExamEditor() {
@@ -58,15 +181,43 @@ export default function ExamEditor() {
   const isEditing = !!id;
 
   const [loading, setLoading] = useState(isEditing);
-  const [saving, setSaving] = useState(false);
+  const [saving, setSaving] = useState<SaveMode | null>(null);
   const [exam, setExam] = useState<ExamForm>({
     title: '',
     description: '',
-    category: 'basic',
+    category_id: '',
     duration_minutes: 40,
-    is_active: true,
+    marks_per_correct: 1,
+    negative_marks: 0,
+    shuffle_questions: false,
+    shuffle_options: false,
+    show_explanations: 'immediately',
+    draw_count: null,
+    opens_at: null,
+    closes_at: null,
+    fixed_start: false,
+    max_attempts: null,
+    attempt_cooldown_minutes: 0,
+    attempt_scoring: 'best',
+    pass_mark: null,
+    grade_bands: null,
   });
+  const [status, setStatus] = useState<ExamStatus>('draft');
+  // The version students currently take, if the exam was ever published
+  const [publishedVersion, setPublishedVersion] = useState<{ version: number; published_at: string } | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [originalQuestions, setOriginalQuestions] = useState<Question[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [originalSections, setOriginalSections] = useState<Section[]>([]);
+  const [passages, setPassages] = useState<Passage[]>([]);
+  const [originalPassages, setOriginalPassages] = useState<Passage[]>([]);
+  const [drawRules, setDrawRules] = useState<DrawRule[]>([]);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const { topics: bankTopics, tags: bankTags } = useQuestionTags();
+  const { categories, categoriesById } = useCategories();
+  const category = categoriesById[exam.category_id];
+  const categoryBands = parseGradeBands(category?.grade_bands ?? null) ?? [];
 
   useEffect(() => {
     if (isEditing) {
@@ -74,6 +225,16 @@ export default function ExamEditor() {
     }
   }, [id]);
 
+  // New exams start in the first category, with its duration
+  useEffect(() => {
+    if (isEditing || categories.length === 0) return;
+    setExam(prev => prev.category_id ? prev : {
+      ...prev,
+      category_id: categories[0].id,
+      duration_minutes: categories[0].default_duration_minutes,
+    });
+  }, [categories, isEditing]);
+
   const fetchExam = async () => {
     try {
       const { data: examData, error: examError } = await supabase
@@ -84,26 +245,88 @@ export default function ExamEditor() {
 
       if (examError) throw examError;
 
-      const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
-        .select('*')
+      const { data: linksData, error: questionsError } = await supabase
+        .from('exam_question_links')
+        .select('id, section_id, marks, negative_marks, order_index, question:questions(*, exam_question_links(exam_id))')
         .eq('exam_id', id)
         .order('order_index');
 
       if (questionsError) throw questionsError;
 
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('exam_sections')
+        .select('id, title, duration_minutes')
+        .eq('exam_id', id)
+        .order('order_index');
+
+      if (sectionsError) throw sectionsError;
+
+      const { data: rulesData, error: rulesError } = await supabase
+        .from('exam_draw_rules')
+        .select('topic, min_count')
+        .eq('exam_id', id)
+        .order('created_at');
+
+      if (rulesError) throw rulesError;
+
+      const { data: versionData, error: versionError } = await supabase
+        .from('exam_versions')
+        .select('version, published_at')
+        .eq('exam_id', id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (versionError) throw versionError;
+
       setExam({
         title: examData.title,
         description: examData.description || '',
-        category: examData.category,
+        category_id: examData.category_id,
         duration_minutes: examData.duration_minutes,
-        is_active: examData.is_active,
+        marks_per_correct: examData.marks_per_correct,
+        negative_marks: examData.negative_marks,
+        shuffle_questions: examData.shuffle_questions,
+        shuffle_options: examData.shuffle_options,
+        show_explanations: examData.show_explanations,
+        draw_count: examData.draw_count,
+        opens_at: examData.opens_at,
+        closes_at: examData.closes_at,
+        fixed_start: examData.fixed_start,
+        max_attempts: examData.max_attempts,
+        attempt_cooldown_minutes: examData.attempt_cooldown_minutes,
+        attempt_scoring: examData.attempt_scoring,
+        pass_mark: examData.pass_mark,
+        grade_bands: parseGradeBands(examData.grade_bands),
       });
+      setStatus(examData.status);
+      setPublishedVersion(versionData);
 
-      setQuestions((questionsData || []).map(q => ({
-        ...q,
-        correct_option: q.correct_option as 'A' | 'B' | 'C' | 'D',
-      })));
+      const loadedQuestions = (linksData || []).map(({ question: q, ...link }) => ({
+        id: link.id,
+        question_id: q.id,
+        shared_with: q.exam_question_links.filter(l => l.exam_id !== id).length,
+        question_type: q.question_type,
+        question_text: q.question_text,
+        options: q.options as string[],
+        answer: q.answer as unknown as QuestionAnswer,
+        marks: link.marks,
+        negative_marks: link.negative_marks,
+        section_id: link.section_id,
+        passage_id: q.passage_id,
+        topic: q.topic,
+        difficulty: q.difficulty,
+        tags: q.tags,
+        explanation: q.explanation ?? '',
+        order_index: link.order_index,
+      }));
+
+      await loadPassages(loadedQuestions.map(q => q.passage_id));
+      setQuestions(loadedQuestions);
+      setOriginalQuestions(loadedQuestions);
+      setSections(sectionsData || []);
+      setOriginalSections(sectionsData || []);
+      setDrawRules(rulesData || []);
     } catch (error) {
       console.error('Error fetching exam:', error);
       toast.error('Failed to load exam');
@@ -113,11 +336,43 @@ export default function ExamEditor() {
     }
   };
 
-  const handleCategoryChange = (category: ExamCategory) => {
+  // Bank passages used by questions loaded or picked into the editor
+  const loadPassages = async (passageIds: (string | null)[]) => {
+    const missing = [...new Set(passageIds)].filter(passageId => passageId && !passages.some(p => p.id === passageId));
+    if (missing.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('passages')
+      .select('id, title, content')
+      .in('id', missing);
+
+    if (error) throw error;
+
+    setPassages(prev => [...prev, ...(data || [])]);
+    setOriginalPassages(prev => [...prev, ...(data || [])]);
+  };
+
+  const addPassage = () => {
+    setPassages([...passages, { id: crypto.randomUUID(), title: '', content: '' }]);
+  };
+
+  const updatePassage = (index: number, changes: Partial<Passage>) => {
+    setPassages(passages.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  // The passage stays in the bank for other exams; only this exam's questions let go of it
+  const removePassage = (index: number) => {
+    const removed = passages[index];
+    setPassages(passages.filter((_, i) => i !== index));
+    setQuestions(questions.map(q => (q.passage_id === removed.id ? { ...q, passage_id: null } : q)));
+  };
+
+  // A category suggests a duration, which can still be changed
+  const handleCategoryChange = (categoryId: string) => {
     setExam(prev => ({
       ...prev,
-      category,
-      duration_minutes: DURATION_BY_CATEGORY[category],
+      category_id: categoryId,
+      duration_minutes: categoriesById[categoryId]?.default_duration_minutes ?? prev.duration_minutes,
     }));
   };
 
@@ -125,48 +380,247 @@ export default function ExamEditor() {
     setQuestions([
       ...questions,
       {
+        question_type: 'single_choice',
         question_text: '',
-        option_a: '',
-        option_b: '',
-        option_c: '',
-        option_d: '',
-        correct_option: 'A',
+        options: defaultOptions('single_choice'),
+        answer: defaultAnswer('single_choice'),
+        marks: null,
+        negative_marks: null,
+        section_id: sections.length > 0 ? sections[sections.length - 1].id : null,
+        passage_id: null,
+        topic: null,
+        difficulty: null,
+        tags: [],
+        explanation: '',
         order_index: questions.length,
       },
     ]);
   };
 
-  const updateQuestion = (index: number, field: keyof Question, value: string) => {
+  const addSection = () => {
+    const section = { id: crypto.randomUUID(), title: '', duration_minutes: 10 };
+    // The first section takes over every existing question
+    if (sections.length === 0) {
+      setQuestions(questions.map(q => ({ ...q, section_id: section.id })));
+    }
+    setSections([...sections, section]);
+  };
+
+  const updateSection = (index: number, changes: Partial<Section>) => {
+    setSections(sections.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const toggleDraw = (enabled: boolean) => {
+    setExam({ ...exam, draw_count: enabled ? Math.max(1, questions.length) : null });
+    if (!enabled) setDrawRules([]);
+  };
+
+  const updateDrawRule = (index: number, changes: Partial<DrawRule>) => {
+    setDrawRules(drawRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const removeSection = (index: number) => {
+    const removed = sections[index];
+    setSections(sections.filter((_, i) => i !== index));
+    setQuestions(questions.map(q => (q.section_id === removed.id ? { ...q, section_id: null } : q)));
+  };
+
+  const updateQuestion = <K extends keyof Question>(index: number, field: K, value: Question[K]) => {
     const updated = [...questions];
     updated[index] = { ...updated[index], [field]: value };
     setQuestions(updated);
   };
 
+  const changeQuestionType = (index: number, questionType: QuestionType) => {
+    const updated = [...questions];
+    updated[index] = withQuestionType(updated[index], questionType);
+    setQuestions(updated);
+  };
+
+  const addFromBank = (picked: BankQuestion[]) => {
+    loadPassages(picked.map(q => q.passage_id)).catch(error => {
+      console.error('Error fetching passages:', error);
+      toast.error('Failed to load passages for the picked questions');
+    });
+    setQuestions([
+      ...questions,
+      ...picked.map((q, offset) => ({
+        question_id: q.id,
+        shared_with: q.used_in,
+        question_type: q.question_type,
+        question_text: q.question_text,
+        options: q.options,
+        answer: q.answer,
+        topic: q.topic,
+        difficulty: q.difficulty,
+        tags: q.tags,
+        explanation: q.explanation ?? '',
+        passage_id: q.passage_id,
+        marks: null,
+        negative_marks: null,
+        section_id: sections.length > 0 ? sections[sections.length - 1].id : null,
+        order_index: questions.length + offset,
+      })),
+    ]);
+  };
+
+  const addImported = (imported: ImportedQuestion[]) => {
+    setQuestions([
+      ...questions,
+      ...imported.map((q, offset) => ({
+        ...q,
+        passage_id: null,
+        marks: null,
+        negative_marks: null,
+        section_id: sections.length > 0 ? sections[sections.length - 1].id : null,
+        order_index: questions.length + offset,
+      })),
+    ]);
+    toast.success(`Imported ${imported.length} ${imported.length === 1 ? 'question' : 'questions'}`);
+  };
+
+  const patchQuestion = (index: number, changes: Partial<Question>) => {
+    const updated = [...questions];
+    updated[index] = { ...updated[index], ...changes };
+    setQuestions(updated);
+  };
+
   const removeQuestion = (index: number) => {
     setQuestions(questions.filter((_, i) => i !== index));
   };
 
-  const handleSave = async () => {
-    if (!exam.title.trim()) {
-      toast.error('Please enter an exam title');
-      return;
+  // Returns false after reporting the first problem that keeps the exam from review or publishing
+  const validateExam = () => {
+    if (sections.length === 0 && (!Number.isInteger(exam.duration_minutes) || exam.duration_minutes < 1)) {
+      toast.error('Exam duration must be a whole number of minutes, at least 1');
+      return false;
     }
 
     if (questions.length === 0) {
       toast.error('Please add at least one question');
-      return;
+      return false;
     }
 
     // Validate all questions
     for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.question_text.trim() || !q.option_a.trim() || !q.option_b.trim() || !q.option_c.trim() || !q.option_d.trim()) {
-        toast.error(`Please fill in all fields for question ${i + 1}`);
-        return;
+      const questionError = getQuestionError(questions[i]);
+      if (questionError) {
+        toast.error(`Question ${i + 1}: ${questionError}`);
+        return false;
+      }
+      if (sections.length > 0 && !sections.some(s => s.id === questions[i].section_id)) {
+        toast.error(`Question ${i + 1}: Choose a section`);
+        return false;
+      }
+    }
+
+    for (let i = 0; i < sections.length; i++) {
+      if (!sections[i].title.trim()) {
+        toast.error(`Section ${i + 1}: Section title is required`);
+        return false;
+      }
+      if (!Number.isInteger(sections[i].duration_minutes) || sections[i].duration_minutes < 1) {
+        toast.error(`Section ${i + 1}: Time limit must be at least one minute`);
+        return false;
+      }
+      if (!questions.some(q => q.section_id === sections[i].id)) {
+        toast.error(`Section ${i + 1}: Add at least one question`);
+        return false;
       }
     }
 
-    setSaving(true);
+    for (const passage of passages.filter(p => questions.some(q => q.passage_id === p.id))) {
+      const label = passage.title.trim() || `Passage ${passages.indexOf(passage) + 1}`;
+      if (!passage.title.trim() || !passage.content.trim()) {
+        toast.error(`${label}: A passage needs a title and content`);
+        return false;
+      }
+    }
+
+    if (exam.draw_count !== null) {
+      if (sections.length > 0) {
+        toast.error('Random question draws cannot be combined with sections');
+        return false;
+      }
+      if (!Number.isInteger(exam.draw_count) || exam.draw_count < 1 || exam.draw_count > questions.length) {
+        toast.error(`Questions per attempt must be between 1 and ${questions.length}`);
+        return false;
+      }
+      for (let i = 0; i < drawRules.length; i++) {
+        const { topic, min_count } = drawRules[i];
+        const available = questions.filter(q => q.topic?.trim() === topic).length;
+        if (!topic) {
+          toast.error(`Draw rule ${i + 1}: Choose a topic`);
+          return false;
+        }
+        if (drawRules.findIndex(rule => rule.topic === topic) !== i) {
+          toast.error(`Draw rule ${i + 1}: ${topic} already has a rule`);
+          return false;
+        }
+        if (!Number.isInteger(min_count) || min_count < 1 || min_count > available) {
+          toast.error(`Draw rule ${i + 1}: ${topic} has ${available} questions to draw from`);
+          return false;
+        }
+      }
+      if (drawRules.reduce((total, rule) => total + rule.min_count, 0) > exam.draw_count) {
+        toast.error('Draw rules ask for more questions than each attempt gets');
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleSave = async (mode: SaveMode) => {
+    if (!exam.title.trim()) {
+      toast.error('Please enter an exam title');
+      return;
+    }
+
+    if (!exam.category_id) {
+      toast.error('Please choose a category');
+      return;
+    }
+
+    // The database checks the schedule on every save, so even drafts need a valid one
+    if (exam.opens_at && exam.closes_at && new Date(exam.closes_at) <= new Date(exam.opens_at)) {
+      toast.error('The exam must close after it opens');
+      return;
+    }
+
+    if (exam.fixed_start && !exam.opens_at) {
+      toast.error('Set an opening time for a fixed start');
+      return;
+    }
+
+    // Grading is checked on every save as well
+    const gradingError = getPassMarkError(exam.pass_mark) ?? (exam.grade_bands && getGradeBandsError(exam.grade_bands));
+    if (gradingError) {
+      toast.error(gradingError);
+      return;
+    }
+
+    if (mode !== 'draft' && !validateExam()) return;
+
+    const usedPassages = passages.filter(p => questions.some(q => q.passage_id === p.id));
+    const savedRules = drawRules.filter((rule, index) =>
+      rule.topic && drawRules.findIndex(other => other.topic === rule.topic) === index
+    );
+    // Saving a draft sends an exam in review back to draft; publishing changes the status server-side
+    const nextStatus: ExamStatus = mode === 'review'
+      ? 'in_review'
+      : mode === 'draft' && status === 'in_review' ? 'draft' : status;
+
+    const savedBands = exam.grade_bands
+      ? sortGradeBands(exam.grade_bands.map(band => ({ ...band, name: band.name.trim() }))) as unknown as Json
+      : null;
+
+    // A sectioned exam runs for the sum of its section time limits
+    const durationMinutes = sections.length > 0
+      ? sections.reduce((total, s) => total + atLeastOne(s.duration_minutes), 0)
+      : atLeastOne(exam.duration_minutes);
+
+    setSaving(mode);
 
     try {
       let examId = id;
@@ -178,16 +632,27 @@ export default function ExamEditor() {
           .update({
             title: exam.title,
             description: exam.description || null,
-            category: exam.category,
-            duration_minutes: exam.duration_minutes,
-            is_active: exam.is_active,
+            category_id: exam.category_id,
+            duration_minutes: durationMinutes,
+            marks_per_correct: exam.marks_per_correct,
+            negative_marks: exam.negative_marks,
+            shuffle_questions: exam.shuffle_questions,
+            shuffle_options: exam.shuffle_options,
+            show_explanations: exam.show_explanations,
+            draw_count: exam.draw_count !== null ? atLeastOne(exam.draw_count) : null,
+            status: nextStatus,
+            opens_at: exam.opens_at,
+            closes_at: exam.closes_at,
+            fixed_start: exam.fixed_start,
+            max_attempts: exam.max_attempts !== null ? atLeastOne(exam.max_attempts) : null,
+            attempt_cooldown_minutes: Math.max(0, Math.round(exam.attempt_cooldown_minutes) || 0),
+            attempt_scoring: exam.attempt_scoring,
+            pass_mark: exam.pass_mark,
+            grade_bands: savedBands,
           })
           .eq('id', id);
 
         if (error) throw error;
-
-        // Delete existing questions and add new ones
-        await supabase.from('questions').delete().eq('exam_id', id);
       } else {
         // Create new exam
         const { data, error } = await supabase
@@ -195,9 +660,23 @@ export default function ExamEditor() {
           .insert({
             title: exam.title,
             description: exam.description || null,
-            category: exam.category,
-            duration_minutes: exam.duration_minutes,
-            is_active: exam.is_active,
+            category_id: exam.category_id,
+            duration_minutes: durationMinutes,
+            marks_per_correct: exam.marks_per_correct,
+            negative_marks: exam.negative_marks,
+            shuffle_questions: exam.shuffle_questions,
+            shuffle_options: exam.shuffle_options,
+            show_explanations: exam.show_explanations,
+            draw_count: exam.draw_count !== null ? atLeastOne(exam.draw_count) : null,
+            status: nextStatus,
+            opens_at: exam.opens_at,
+            closes_at: exam.closes_at,
+            fixed_start: exam.fixed_start,
+            max_attempts: exam.max_attempts !== null ? atLeastOne(exam.max_attempts) : null,
+            attempt_cooldown_minutes: Math.max(0, Math.round(exam.attempt_cooldown_minutes) || 0),
+            attempt_scoring: exam.attempt_scoring,
+            pass_mark: exam.pass_mark,
+            grade_bands: savedBands,
             created_by: user?.id,
           })
           .select('id')
@@ -207,34 +686,187 @@ export default function ExamEditor() {
         examId = data.id;
       }
 
-      // Insert questions
-      const questionsToInsert = questions.map((q, index) => ({
-        exam_id: examId,
+      // Sections are saved first so questions can point at new ones
+      if (sections.length > 0) {
+        const { error: sectionsError } = await supabase
+          .from('exam_sections')
+          .upsert(sections.map((s, index) => ({
+            id: s.id,
+            exam_id: examId,
+            title: s.title.trim(),
+            duration_minutes: atLeastOne(s.duration_minutes),
+            order_index: index,
+          })));
+
+        if (sectionsError) throw sectionsError;
+      }
+
+      // Passages are saved before the questions that refer to them
+      const newPassages = usedPassages.filter(p => !originalPassages.some(o => o.id === p.id));
+      const changedPassages = usedPassages.filter(p => {
+        const original = originalPassages.find(o => o.id === p.id);
+        return original && (original.title !== p.title.trim() || original.content !== p.content.trim());
+      });
+
+      if (newPassages.length > 0) {
+        const { error: passagesError } = await supabase
+          .from('passages')
+          .insert(newPassages.map(p => ({
+            id: p.id,
+            title: p.title.trim(),
+            content: p.content.trim(),
+            created_by: user?.id,
+          })));
+
+        if (passagesError) throw passagesError;
+      }
+
+      if (changedPassages.length > 0) {
+        const { error: passagesError } = await supabase
+          .from('passages')
+          .upsert(changedPassages.map(p => ({ id: p.id, title: p.title.trim(), content: p.content.trim() })));
+
+        if (passagesError) throw passagesError;
+      }
+
+      // Keep each section's questions together, in the order they appear in the editor
+      const sectionOrder = (q: Question) => sections.findIndex(s => s.id === q.section_id);
+      const orderedQuestions = [...questions].sort((a, b) => sectionOrder(a) - sectionOrder(b));
+
+      // Bank content first: questions written here join the bank, edits update the shared item.
+      // Only changed questions are touched, so the rest keep their revision history.
+      const toContent = (q: Question) => ({
+        id: q.question_id,
+        question_type: q.question_type,
         question_text: q.question_text,
-        option_a: q.option_a,
-        option_b: q.option_b,
-        option_c: q.option_c,
-        option_d: q.option_d,
-        correct_option: q.correct_option,
+        options: isChoiceType(q.question_type) ? q.options : [],
+        answer: normalizeAnswer(q.question_type, q.answer) as unknown as Json,
+        topic: q.topic?.trim() || null,
+        difficulty: q.difficulty,
+        tags: normalizeTags(q.tags),
+        explanation: q.explanation.trim() || null,
+        passage_id: q.passage_id,
+      });
+
+      const contentDiff = diffQuestions(originalQuestions.map(toContent), orderedQuestions.map(toContent));
+
+      if (contentDiff.toUpdate.length > 0) {
+        const { error: updateError } = await supabase
+          .from('questions')
+          .upsert(contentDiff.toUpdate);
+
+        if (updateError) throw updateError;
+      }
+
+      let createdIds: string[] = [];
+      if (contentDiff.toInsert.length > 0) {
+        const { data: created, error: insertError } = await supabase
+          .from('questions')
+          .insert(contentDiff.toInsert.map(({ id: _id, ...content }) => ({ ...content, created_by: user?.id })))
+          .select('id');
+
+        if (insertError) throw insertError;
+        createdIds = created.map(q => q.id);
+      }
+
+      // New bank ids come back in insertion order
+      let nextCreated = 0;
+      const linkedQuestions = orderedQuestions.map((q, index) => ({
+        ...q,
+        question_id: q.question_id ?? createdIds[nextCreated++],
         order_index: index,
       }));
 
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert);
+      // Then the exam's links: which questions it uses, in what order, section and marks
+      const toLink = (q: Question) => ({
+        id: q.id,
+        exam_id: examId,
+        question_id: q.question_id,
+        section_id: q.section_id,
+        marks: q.marks,
+        negative_marks: q.negative_marks,
+        order_index: q.order_index,
+      });
 
-      if (questionsError) throw questionsError;
+      const { toInsert, toUpdate, toDelete } = diffQuestions(
+        originalQuestions.map(toLink),
+        linkedQuestions.map(toLink)
+      );
 
-      toast.success(isEditing ? 'Exam updated successfully' : 'Exam created successfully');
+      // Removing a question from the exam keeps it in the bank
+      if (toDelete.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('exam_question_links')
+          .delete()
+          .in('id', toDelete);
+
+        if (deleteError) throw deleteError;
+      }
+
+      if (toUpdate.length > 0) {
+        const { error: updateError } = await supabase
+          .from('exam_question_links')
+          .upsert(toUpdate);
+
+        if (updateError) throw updateError;
+      }
+
+      if (toInsert.length > 0) {
+        const { error: insertError } = await supabase
+          .from('exam_question_links')
+          .insert(toInsert.map(({ id: _id, ...link }) => link));
+
+        if (insertError) throw insertError;
+      }
+
+      // Draw rules carry no history, so they are simply replaced
+      const { error: rulesDeleteError } = await supabase
+        .from('exam_draw_rules')
+        .delete()
+        .eq('exam_id', examId);
+
+      if (rulesDeleteError) throw rulesDeleteError;
+
+      if (exam.draw_count !== null && savedRules.length > 0) {
+        const { error: rulesError } = await supabase
+          .from('exam_draw_rules')
+          .insert(savedRules.map(rule => ({ exam_id: examId, topic: rule.topic, min_count: atLeastOne(rule.min_count) })));
+
+        if (rulesError) throw rulesError;
+      }
+
+      const removedSections = originalSections.filter(o => !sections.some(s => s.id === o.id));
+      if (removedSections.length > 0) {
+        const { error: sectionDeleteError } = await supabase
+          .from('exam_sections')
+          .delete()
+          .in('id', removedSections.map(s => s.id));
+
+        if (sectionDeleteError) throw sectionDeleteError;
+      }
+
+      // Publishing freezes what was just saved as the version students take
+      if (mode === 'publish') {
+        const { data: version, error: publishError } = await supabase
+          .rpc('publish_exam', { _exam_id: examId });
+
+        if (publishError) throw publishError;
+        toast.success(`Published version ${version}`);
+      } else {
+        toast.success(mode === 'review' ? 'Exam submitted for review' : 'Draft saved');
+      }
       navigate('/admin/exams');
     } catch (error) {
       console.error('Error saving exam:', error);
       toast.error('Failed to save exam');
     } finally {
-      setSaving(false);
+      setSaving(null);
     }
   };
 
+  const topics = [...new Set(questions.map(q => q.topic?.trim()).filter(Boolean))].sort();
+  const topicSuggestions = [...new Set([...bankTopics, ...topics])].sort();
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -247,18 +879,27 @@ export default function ExamEditor() {
 
   return (
     <DashboardLayout>
-      <div className="space-y-6 max-w-4xl">
+      <div className="space-y-6 max-w-6xl">
         {/* Header */}
         <div className="flex items-center gap-4">
           <Button variant="ghost" size="icon" onClick={() => navigate('/admin/exams')}>
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div>
-            <h1 className="text-2xl font-display font-bold text-foreground">
-              {isEditing ? 'Edit Exam' : 'Create New Exam'}
-            </h1>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-display font-bold text-foreground">
+                {isEditing ? 'Edit Exam' : 'Create New Exam'}
+              </h1>
+              {isEditing && (
+                <Badge variant="outline" className={EXAM_STATUS_STYLES[status]}>
+                  {EXAM_STATUS_LABELS[status]}
+                </Badge>
+              )}
+            </div>
             <p className="text-muted-foreground mt-1">
-              {isEditing ? 'Update exam details and questions' : 'Set up your exam with questions'}
+              {publishedVersion
+                ? `Students take version ${publishedVersion.version}, published ${new Date(publishedVersion.published_at).toLocaleDateString()}. Changes reach them when you publish again, except the category, which applies when saved.`
+                : isEditing ? 'Update exam details and questions' : 'Set up your exam with questions'}
             </p>
           </div>
         </div>
@@ -282,19 +923,37 @@ export default function ExamEditor() {
 
               <div className="space-y-2">
                 <Label htmlFor="category">Category</Label>
-                <Select value={exam.category} onValueChange={handleCategoryChange}>
-                  <SelectTrigger>
-                    <SelectValue />
+                <Select value={exam.category_id} onValueChange={handleCategoryChange}>
+                  <SelectTrigger id="category">
+                    <SelectValue placeholder="Select a category" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="basic">Basic (40 min)</SelectItem>
-                    <SelectItem value="prelims">Prelims (20 min)</SelectItem>
-                    <SelectItem value="mains">Mains (30 min)</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name} ({category.default_duration_minutes} min)
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="duration">Duration (minutes)</Label>
+              <Input
+                id="duration"
+                type="number"
+                min={1}
+                value={sections.length > 0 ? sections.reduce((total, s) => total + s.duration_minutes, 0) : exam.duration_minutes}
+                onChange={(e) => setExam({ ...exam, duration_minutes: e.target.valueAsNumber || 0 })}
+                disabled={sections.length > 0}
+                className="sm:w-40"
+              />
+              {sections.length > 0 && (
+                <p className="text-xs text-muted-foreground">Set by the section time limits below.</p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="description">Description (Optional)</Label>
               <Textarea
@@ -306,26 +965,449 @@ export default function ExamEditor() {
               />
             </div>
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="marks-per-correct">Marks per Correct Answer</Label>
+                <Input
+                  id="marks-per-correct"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={exam.marks_per_correct}
+                  onChange={(e) => setExam({ ...exam, marks_per_correct: parseMarks(e.target.value) ?? 0 })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="negative-marks">Penalty per Wrong Answer</Label>
+                <Input
+                  id="negative-marks"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={exam.negative_marks}
+                  onChange={(e) => setExam({ ...exam, negative_marks: parseMarks(e.target.value) ?? 0 })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Skipped questions score zero. Use 0 to disable negative marking.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shuffle-questions"
+                checked={exam.shuffle_questions}
+                onCheckedChange={(checked) => setExam({ ...exam, shuffle_questions: checked })}
+              />
+              <Label htmlFor="shuffle-questions">Shuffle question order for each student</Label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shuffle-options"
+                checked={exam.shuffle_options}
+                onCheckedChange={(checked) => setExam({ ...exam, shuffle_options: checked })}
+              />
+              <Label htmlFor="shuffle-options">Shuffle answer options for each student</Label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="opens-at">Opens At (Optional)</Label>
+                <Input
+                  id="opens-at"
+                  type="datetime-local"
+                  value={toDateTimeLocal(exam.opens_at)}
+                  onChange={(e) => setExam({ ...exam, opens_at: fromDateTimeLocal(e.target.value) })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="closes-at">Closes At (Optional)</Label>
+                <Input
+                  id="closes-at"
+                  type="datetime-local"
+                  value={toDateTimeLocal(exam.closes_at)}
+                  onChange={(e) => setExam({ ...exam, closes_at: fromDateTimeLocal(e.target.value) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Attempts still running at this time are submitted. Schedule changes reach students when you publish.
+                </p>
+              </div>
+            </div>
+
             <div className="flex items-center gap-2">
               <Switch
-                id="active"
-                checked={exam.is_active}
-                onCheckedChange={(checked) => setExam({ ...exam, is_active: checked })}
+                id="fixed-start"
+                checked={exam.fixed_start}
+                onCheckedChange={(checked) => setExam({ ...exam, fixed_start: checked })}
               />
-              <Label htmlFor="active">Exam is active and visible to students</Label>
+              <Label htmlFor="fixed-start">
+                Start every student's clock at the opening time, as in a live sitting
+              </Label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="max-attempts">Attempts per Student</Label>
+                <Input
+                  id="max-attempts"
+                  type="number"
+                  min={1}
+                  value={exam.max_attempts ?? ''}
+                  onChange={(e) => setExam({ ...exam, max_attempts: e.target.value === '' ? null : e.target.valueAsNumber })}
+                  placeholder="Unlimited"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="attempt-cooldown">Wait Between Attempts (min)</Label>
+                <Input
+                  id="attempt-cooldown"
+                  type="number"
+                  min={0}
+                  value={exam.attempt_cooldown_minutes}
+                  onChange={(e) => setExam({ ...exam, attempt_cooldown_minutes: e.target.valueAsNumber || 0 })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Attempt that Counts</Label>
+                <Select
+                  value={exam.attempt_scoring}
+                  onValueChange={(value) => setExam({ ...exam, attempt_scoring: value as AttemptScoring })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ATTEMPT_SCORING_LABELS) as AttemptScoring[]).map(scoring => (
+                      <SelectItem key={scoring} value={scoring}>{ATTEMPT_SCORING_LABELS[scoring]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="pass-mark">Pass Mark (%)</Label>
+                <Input
+                  id="pass-mark"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={exam.pass_mark ?? ''}
+                  onChange={(e) => setExam({ ...exam, pass_mark: e.target.value === '' ? null : e.target.valueAsNumber })}
+                  placeholder={category?.pass_mark != null ? `Category's (${category.pass_mark}%)` : 'No pass mark'}
+                />
+              </div>
+
+              <div className="space-y-2 sm:col-span-2">
+                <div className="flex items-center gap-2 h-5">
+                  <Switch
+                    id="own-grade-bands"
+                    checked={exam.grade_bands !== null}
+                    onCheckedChange={(checked) => setExam({
+                      ...exam,
+                      // Start from the category's bands, which are usually close
+                      grade_bands: checked ? parseGradeBands(category?.grade_bands ?? null) ?? [] : null,
+                    })}
+                  />
+                  <Label htmlFor="own-grade-bands">Give this exam its own grade bands</Label>
+                </div>
+                {exam.grade_bands !== null ? (
+                  <GradeBandsEditor
+                    value={exam.grade_bands}
+                    onChange={(grade_bands) => setExam({ ...exam, grade_bands })}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {categoryBands.length > 0
+                      ? `Graded by the category's bands: ${categoryBands.map(band => `${band.name} from ${band.min_score}%`).join(', ')}`
+                      : 'The category has no grade bands.'}
+                  </p>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Each result keeps the grade and pass or fail it was given; changes apply to attempts on the next version you publish.
+            </p>
+
+            <div className="space-y-2">
+              <Label>Show Answer Explanations</Label>
+              <Select
+                value={exam.show_explanations}
+                onValueChange={(value) => setExam({ ...exam, show_explanations: value as ExplanationVisibility })}
+              >
+                <SelectTrigger className="sm:w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="immediately">Immediately after submitting</SelectItem>
+                  <SelectItem value="after_close">After the exam closes</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The exam closes at its closing time, at the end of a fixed-start sitting, or when it is no longer published.
+              </p>
             </div>
           </CardContent>
         </Card>
 
-        {/* Questions */}
+        {/* Sections */}
         <Card className="shadow-card border-0">
           <CardHeader className="flex flex-row items-center justify-between">
-            <CardTitle className="font-display">Questions ({questions.length})</CardTitle>
-            <Button onClick={addQuestion} variant="outline" size="sm">
+            <div>
+              <CardTitle className="font-display">Sections ({sections.length})</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                {sections.length > 0
+                  ? `Students take the sections in order, each against its own timer. Total time: ${sections.reduce((total, s) => total + s.duration_minutes, 0)} min`
+                  : 'Optional. Split the exam into sections with separate time limits.'}
+              </p>
+            </div>
+            <Button onClick={addSection} variant="outline" size="sm">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Section
+            </Button>
+          </CardHeader>
+          {sections.length > 0 && (
+            <CardContent className="space-y-3">
+              {sections.map((section, index) => (
+                <div key={section.id} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Label>Section {index + 1}</Label>
+                    <Input
+                      value={section.title}
+                      onChange={(e) => updateSection(index, { title: e.target.value })}
+                      placeholder="e.g., Reasoning"
+                    />
+                  </div>
+                  <div className="w-32 space-y-2">
+                    <Label>Minutes</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={section.duration_minutes}
+                      onChange={(e) => updateSection(index, { duration_minutes: e.target.valueAsNumber || 0 })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => setSections(moveItem(sections, index, index - 1))}
+                    disabled={index === 0}
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => setSections(moveItem(sections, index, index + 1))}
+                    disabled={index === sections.length - 1}
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 text-destructive"
+                    onClick={() => removeSection(index)}
+                    title="Remove section"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Passages */}
+        <Card className="shadow-card border-0">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="font-display">Passages ({passages.length})</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Optional. A reading passage, case study or data set shown beside every question linked to it.
+                Passages no question uses are not saved.
+              </p>
+            </div>
+            <Button onClick={addPassage} variant="outline" size="sm">
               <Plus className="w-4 h-4 mr-2" />
-              Add Question
+              Add Passage
             </Button>
           </CardHeader>
+          {passages.length > 0 && (
+            <CardContent className="space-y-6">
+              {passages.map((passage, index) => {
+                const linkedNumbers = questions
+                  .map((q, questionIndex) => (q.passage_id === passage.id ? questionIndex + 1 : null))
+                  .filter((n): n is number => n !== null);
+
+                return (
+                  <div key={passage.id} className="p-4 rounded-lg border border-border space-y-3">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-2">
+                        <Label>Passage {index + 1}</Label>
+                        <Input
+                          value={passage.title}
+                          onChange={(e) => updatePassage(index, { title: e.target.value })}
+                          placeholder="e.g., The history of tea"
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="shrink-0 text-destructive"
+                        onClick={() => removePassage(index)}
+                        title="Remove passage"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {/* The preview follows the text as it is typed */}
+                    <div className="grid gap-4 lg:grid-cols-2">
+                      <div className="space-y-2 min-w-0">
+                        <Textarea
+                          value={passage.content}
+                          onChange={(e) => updatePassage(index, { content: e.target.value })}
+                          placeholder="Passage text. Supports Markdown, $maths$ and `code`."
+                          rows={10}
+                        />
+                        <ImageUploadButton
+                          onInsert={(markdown) => updatePassage(index, { content: appendImage(passage.content, markdown) })}
+                        />
+                      </div>
+                      <div className="space-y-2 min-w-0">
+                        <PreviewLabel />
+                        <div className="p-4 rounded-lg border border-border bg-card max-h-80 overflow-y-auto">
+                          <RichText text={passage.content.trim() || '*No passage text yet*'} />
+                        </div>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {linkedNumbers.length > 0
+                        ? `Used by question${linkedNumbers.length === 1 ? '' : 's'} ${linkedNumbers.join(', ')}`
+                        : 'Not used by any question yet. Link questions to it below.'}
+                    </p>
+                  </div>
+                );
+              })}
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Question Pool */}
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle className="font-display">Question Pool</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch id="draw" checked={exam.draw_count !== null} onCheckedChange={toggleDraw} />
+              <Label htmlFor="draw">Draw a random set of questions for each attempt</Label>
+            </div>
+
+            {exam.draw_count !== null && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={questions.length}
+                    step={1}
+                    value={exam.draw_count}
+                    onChange={(e) => setExam({ ...exam, draw_count: e.target.valueAsNumber || 0 })}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    of {questions.length} questions per attempt
+                  </span>
+                </div>
+
+                <div className="space-y-3">
+                  {drawRules.map((rule, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground shrink-0">At least</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={rule.min_count}
+                        onChange={(e) => updateDrawRule(index, { min_count: e.target.valueAsNumber || 0 })}
+                        className="w-20"
+                      />
+                      <span className="text-sm text-muted-foreground shrink-0">from</span>
+                      <Select value={rule.topic || undefined} onValueChange={(topic) => updateDrawRule(index, { topic })}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Choose a topic" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {topics.map(topic => (
+                            <SelectItem key={topic} value={topic}>{topic}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="shrink-0 text-destructive"
+                        onClick={() => setDrawRules(drawRules.filter((_, i) => i !== index))}
+                        title="Remove rule"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-muted-foreground">
+                      {topics.length > 0
+                        ? 'Rules guarantee a minimum per topic; the rest is drawn from the whole pool.'
+                        : 'Give questions a topic to add per-topic minimums.'}
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDrawRules([...drawRules, { topic: '', min_count: 1 }])}
+                      disabled={topics.length === 0}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Rule
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Questions */}
+        <Card className="shadow-card border-0">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="font-display">Questions ({questions.length})</CardTitle>
+            <div className="flex gap-2">
+              <Button onClick={() => setShowBankPicker(true)} variant="outline" size="sm">
+                <Library className="w-4 h-4 mr-2" />
+                Add from Bank
+              </Button>
+              <Button onClick={() => setShowImport(true)} variant="outline" size="sm">
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button onClick={addQuestion} variant="outline" size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+          </CardHeader>
           <CardContent className="space-y-6">
             {questions.length === 0 ? (
               <div className="text-center py-8">
@@ -339,72 +1421,207 @@ export default function ExamEditor() {
               questions.map((question, index) => (
                 <div
                   key={index}
-                  className="p-4 rounded-lg border border-border bg-muted/30 space-y-4"
+                  className="p-4 rounded-lg border border-border bg-muted/30 grid gap-6 lg:grid-cols-2"
                 >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1 space-y-2">
-                      <Label>Question {index + 1}</Label>
-                      <Textarea
-                        value={question.question_text}
-                        onChange={(e) => updateQuestion(index, 'question_text', e.target.value)}
-                        placeholder="Enter your question..."
-                        rows={2}
-                      />
+                  <div className="space-y-4 min-w-0">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 space-y-2">
+                        <Label>Question {index + 1}</Label>
+                        {!!question.shared_with && (
+                          <p className="text-xs text-warning">
+                            Also used in {question.shared_with} other {question.shared_with === 1 ? 'exam' : 'exams'}.
+                            Edits to the question change it there too.
+                          </p>
+                        )}
+                        <Textarea
+                          value={question.question_text}
+                          onChange={(e) => updateQuestion(index, 'question_text', e.target.value)}
+                          placeholder="Enter your question... Markdown, $maths$ and ```code``` are supported"
+                          rows={2}
+                        />
+                        <ImageUploadButton
+                          onInsert={(markdown) => updateQuestion(index, 'question_text', appendImage(question.question_text, markdown))}
+                        />
+                      </div>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive shrink-0">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Remove Question?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This removes the question from this exam. It stays in the question bank.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => removeQuestion(index)}
+                              className="bg-destructive text-destructive-foreground"
+                            >
+                              Remove
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
                     </div>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="icon" className="text-destructive shrink-0">
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete Question?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Are you sure you want to delete this question?
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => removeQuestion(index)}
-                            className="bg-destructive text-destructive-foreground"
+
+                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                      {sections.length > 0 && (
+                        <div className="space-y-2">
+                          <Label>Section</Label>
+                          <Select
+                            value={question.section_id ?? undefined}
+                            onValueChange={(value) => updateQuestion(index, 'section_id', value)}
                           >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a section" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {sections.map((section, sectionIndex) => (
+                                <SelectItem key={section.id} value={section.id}>
+                                  {section.title || `Section ${sectionIndex + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
 
-                  <div className="grid gap-3 sm:grid-cols-2">
-                    {(['A', 'B', 'C', 'D'] as const).map((option) => (
-                      <div key={option} className="flex items-center gap-2">
-                        <div
-                          className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium shrink-0 cursor-pointer transition-colors ${
-                            question.correct_option === option
-                              ? 'bg-success text-success-foreground'
-                              : 'bg-muted text-muted-foreground hover:bg-muted/80'
-                          }`}
-                          onClick={() => updateQuestion(index, 'correct_option', option)}
-                          title={question.correct_option === option ? 'Correct answer' : 'Click to mark as correct'}
-                        >
-                          {option}
+                      {passages.length > 0 && (
+                        <div className="space-y-2">
+                          <Label>Passage</Label>
+                          <Select
+                            value={question.passage_id ?? NO_PASSAGE}
+                            onValueChange={(value) => updateQuestion(index, 'passage_id', value === NO_PASSAGE ? null : value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_PASSAGE}>None</SelectItem>
+                              {passages.map((passage, passageIndex) => (
+                                <SelectItem key={passage.id} value={passage.id}>
+                                  {passage.title || `Passage ${passageIndex + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <Label>Question Type</Label>
+                        <Select
+                          value={question.question_type}
+                          onValueChange={(value) => changeQuestionType(index, value as QuestionType)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Topic</Label>
+                        <TagInput
+                          single
+                          value={question.topic ? [question.topic] : []}
+                          onChange={(value) => updateQuestion(index, 'topic', value[0] ?? null)}
+                          suggestions={topicSuggestions}
+                          placeholder="Set topic"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Difficulty</Label>
+                        <Select
+                          value={question.difficulty ?? NO_DIFFICULTY}
+                          onValueChange={(value) => updateQuestion(
+                            index,
+                            'difficulty',
+                            value === NO_DIFFICULTY ? null : value as QuestionDifficulty,
+                          )}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+                            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Marks</Label>
                         <Input
-                          value={question[`option_${option.toLowerCase()}` as keyof Question] as string}
-                          onChange={(e) =>
-                            updateQuestion(index, `option_${option.toLowerCase()}` as keyof Question, e.target.value)
-                          }
-                          placeholder={`Option ${option}`}
-                          className="flex-1"
+                          type="number"
+                          step="any"
+                          min={0}
+                          value={question.marks ?? ''}
+                          onChange={(e) => updateQuestion(index, 'marks', parseMarks(e.target.value))}
+                          placeholder={`Exam default (${formatMarks(exam.marks_per_correct)})`}
                         />
                       </div>
-                    ))}
+
+                      <div className="space-y-2">
+                        <Label>Penalty</Label>
+                        <Input
+                          type="number"
+                          step="any"
+                          min={0}
+                          value={question.negative_marks ?? ''}
+                          onChange={(e) => updateQuestion(index, 'negative_marks', parseMarks(e.target.value))}
+                          placeholder={`Exam default (${formatMarks(exam.negative_marks)})`}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Tags</Label>
+                      <TagInput
+                        value={question.tags}
+                        onChange={(tags) => updateQuestion(index, 'tags', tags)}
+                        suggestions={bankTags}
+                      />
+                    </div>
+
+                    <QuestionAnswerEditor
+                      question={question}
+                      onChange={(changes) => patchQuestion(index, changes)}
+                    />
+
+                    <div className="space-y-2">
+                      <Label>Explanation (Optional)</Label>
+                      <Textarea
+                        value={question.explanation}
+                        onChange={(e) => updateQuestion(index, 'explanation', e.target.value)}
+                        placeholder="Why the correct answer is correct..."
+                        rows={3}
+                      />
+                    </div>
+
+                  </div>
+
+                  {/* Beside the fields on wide screens, staying in view while the question is edited */}
+                  <div className="space-y-2 min-w-0 lg:sticky lg:top-4 lg:self-start">
+                    <PreviewLabel />
+                    <QuestionPreview
+                      question={question}
+                      passage={passages.find(p => p.id === question.passage_id)?.content}
+                    />
                   </div>
-                  <p className="text-xs text-muted-foreground">
-                    Click on A, B, C, or D to mark the correct answer
-                  </p>
                 </div>
               ))
             )}
@@ -416,21 +1633,36 @@ export default function ExamEditor() {
           <Button variant="outline" onClick={() => navigate('/admin/exams')}>
             Cancel
           </Button>
-          <Button onClick={handleSave} className="gradient-primary" disabled={saving}>
-            {saving ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              <>
-                <Save className="w-4 h-4 mr-2" />
-                {isEditing ? 'Update Exam' : 'Create Exam'}
-              </>
-            )}
+          <Button variant="outline" onClick={() => handleSave('draft')} disabled={saving !== null}>
+            {saving === 'draft' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Draft
           </Button>
+          {status === 'in_review' || status === 'published' ? (
+            <Button onClick={() => handleSave('publish')} className="gradient-primary" disabled={saving !== null}>
+              {saving === 'publish' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Rocket className="w-4 h-4 mr-2" />}
+              {status === 'published' ? 'Publish Changes' : 'Publish'}
+            </Button>
+          ) : (
+            <Button onClick={() => handleSave('review')} className="gradient-primary" disabled={saving !== null}>
+              {saving === 'review' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Submit for Review
+            </Button>
+          )}
         </div>
       </div>
+
+      <QuestionBankPicker
+        open={showBankPicker}
+        onOpenChange={setShowBankPicker}
+        excludeIds={questions.map(q => q.question_id).filter((questionId): questionId is string => !!questionId)}
+        onAdd={addFromBank}
+      />
+
+      <QuestionImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        onImport={addImported}
+      />
     </DashboardLayout>
   );
 }
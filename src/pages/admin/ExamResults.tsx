@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  ArrowLeft,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  BarChart3,
+  CheckCircle2,
+  Loader2,
+  Search,
+  Sigma,
+  Trophy,
+  Users,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import { formatMarks } from '@/lib/scoring';
+import { getOutcomeColor, resolveGrading } from '@/lib/grading';
+import { ExamVersionContent } from '@/lib/examStatus';
+import { scoreHistogram, summarizeResults } from '@/lib/resultStats';
+
+interface ExamDetails {
+  title: string;
+  pass_mark: number | null;
+  grade_bands: Json | null;
+  category: {
+    name: string;
+    colour: string;
+    pass_mark: number | null;
+    grade_bands: Json;
+  } | null;
+  // The latest version, if the exam was ever published
+  exam_versions: { content: Json }[];
+}
+
+interface Attempt {
+  id: string;
+  user_id: string;
+  student_name: string;
+  student_email: string;
+  score: number;
+  marks_obtained: number;
+  max_marks: number;
+  time_taken_seconds: number | null;
+  completed_at: string;
+  grade: string | null;
+  passed: boolean | null;
+}
+
+type SortKey = 'student' | 'score' | 'time' | 'date';
+
+// PostgREST caps how many rows one response returns, so results are read a page at a time
+const RESULTS_PAGE = 1000;
+// Keeps profile lookups well within URL length limits
+const LOOKUP_CHUNK = 100;
+type OutcomeFilter = 'all' | 'passed' | 'not_passed';
+
+const chartConfig = {
+  count: { label: 'Attempts', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const compareAttempts: Record<SortKey, (a: Attempt, b: Attempt) => number> = {
+  student: (a, b) => a.student_name.localeCompare(b.student_name),
+  score: (a, b) => a.score - b.score,
+  // Attempts without a recorded time sort as the slowest
+  time: (a, b) => {
+    if (a.time_taken_seconds === null || b.time_taken_seconds === null) {
+      return Number(a.time_taken_seconds === null) - Number(b.time_taken_seconds === null);
+    }
+    return a.time_taken_seconds - b.time_taken_seconds;
+  },
+  date: (a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime(),
+};
+
+export default function ExamResults() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [exam, setExam] = useState<ExamDetails | null>(null);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [outcome, setOutcome] = useState<OutcomeFilter>('all');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'date', ascending: false });
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      try {
+        const { data: examData, error: examError } = await supabase
+          .from('exams')
+          .select('title, pass_mark, grade_bands, category:categories(name, colour, pass_mark, grade_bands), exam_versions(content)')
+          .eq('id', id)
+          .order('version', { referencedTable: 'exam_versions', ascending: false })
+          .limit(1, { referencedTable: 'exam_versions' })
+          .single();
+
+        if (examError) throw examError;
+
+        const resultsData: Omit<Attempt, 'student_name' | 'student_email'>[] = [];
+        for (let from = 0; ; from += RESULTS_PAGE) {
+          const { data, error } = await supabase
+            .from('exam_results')
+            .select('id, user_id, score, marks_obtained, max_marks, time_taken_seconds, completed_at, grade, passed')
+            .eq('exam_id', id)
+            .order('completed_at')
+            .order('id')
+            .range(from, from + RESULTS_PAGE - 1);
+
+          if (error) throw error;
+          resultsData.push(...(data || []));
+          if (!data || data.length < RESULTS_PAGE) break;
+        }
+
+        // Results reference auth users, so students' names come from their profiles separately
+        const userIds = [...new Set(resultsData.map(r => r.user_id))];
+        const profiles: Record<string, { full_name: string; email: string }> = {};
+        for (let i = 0; i < userIds.length; i += LOOKUP_CHUNK) {
+          const { data, error } = await supabase
+            .from('profiles')
+            .select('user_id, full_name, email')
+            .in('user_id', userIds.slice(i, i + LOOKUP_CHUNK));
+
+          if (error) throw error;
+          (data || []).forEach(p => { profiles[p.user_id] = p; });
+        }
+
+        setExam(examData);
+        setAttempts(resultsData.map(result => ({
+          ...result,
+          student_name: profiles[result.user_id]?.full_name || 'Unknown student',
+          student_email: profiles[result.user_id]?.email || '',
+        })));
+      } catch (error) {
+        console.error('Error fetching exam results:', error);
+        toast.error('Failed to load results');
+        navigate('/admin/exams');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchResults();
+  }, [id, navigate]);
+
+  const summary = useMemo(() => summarizeResults(attempts), [attempts]);
+  const histogram = useMemo(() => scoreHistogram(attempts.map(a => a.score)), [attempts]);
+  const studentCount = new Set(attempts.map(a => a.user_id)).size;
+  // Attempts are graded under the published pass mark, not the one being edited
+  const published = exam?.exam_versions[0]?.content as unknown as ExamVersionContent | undefined;
+  const passMark = published ? published.exam.pass_mark : exam ? resolveGrading(exam, exam.category).pass_mark : null;
+
+  const shownAttempts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = attempts.filter(attempt =>
+      (!query || attempt.student_name.toLowerCase().includes(query) || attempt.student_email.toLowerCase().includes(query)) &&
+      (outcome === 'all' || (outcome === 'passed' ? attempt.passed === true : attempt.passed === false))
+    );
+    const compare = compareAttempts[sort.key];
+    return filtered.sort((a, b) => (sort.ascending ? compare(a, b) : compare(b, a)));
+  }, [attempts, search, outcome, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    // Names read best A to Z; numbers and dates start from the highest
+    setSort(sort.key === key ? { key, ascending: !sort.ascending } : { key, ascending: key === 'student' });
+  };
+
+  const renderSortHead = (key: SortKey, label: string) => {
+    const Icon = sort.key !== key ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+    return (
+      <TableHead>
+        <Button variant="ghost" size="sm" onClick={() => toggleSort(key)} className="-ml-3 h-8">
+          {label}
+          <Icon className={`w-4 h-4 ml-1 ${sort.key === key ? '' : 'text-muted-foreground'}`} />
+        </Button>
+      </TableHead>
+    );
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}m ${secs}s`;
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin/exams')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-display font-bold text-foreground">{exam?.title}</h1>
+              <CategoryBadge category={exam?.category} />
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {passMark !== null ? `Results and score distribution · Pass mark ${passMark}%` : 'Results and score distribution'}
+            </p>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card className="shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Attempts</p>
+                  <p className="text-3xl font-display font-bold mt-1">{summary.attempts}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    by {studentCount} student{studentCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center">
+                  <Users className="w-6 h-6 text-primary" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Mean Score</p>
+                  <p className="text-3xl font-display font-bold mt-1">
+                    {summary.mean !== null ? `${summary.mean}%` : '—'}
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-xl bg-info/10 flex items-center justify-center">
+                  <Sigma className="w-6 h-6 text-info" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Median Score</p>
+                  <p className="text-3xl font-display font-bold mt-1">
+                    {summary.median !== null ? `${summary.median}%` : '—'}
+                  </p>
+                </div>
+                <div className="w-12 h-12 rounded-xl bg-warning/10 flex items-center justify-center">
+                  <Trophy className="w-6 h-6 text-warning" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card border-0">
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">Pass Rate</p>
+                  <p className="text-3xl font-display font-bold mt-1">
+                    {summary.passRate !== null ? `${summary.passRate}%` : '—'}
+                  </p>
+                  {summary.passRate === null && summary.attempts > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">No attempt was graded with a pass mark</p>
+                  )}
+                </div>
+                <div className="w-12 h-12 rounded-xl bg-success/10 flex items-center justify-center">
+                  <CheckCircle2 className="w-6 h-6 text-success" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Score Distribution */}
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle className="font-display">Score Distribution</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {attempts.length === 0 ? (
+              <div className="text-center py-12">
+                <BarChart3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No one has taken this exam yet</p>
+              </div>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={histogram}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip
+                    cursor={false}
+                    content={<ChartTooltipContent labelFormatter={(label) => `Scores ${label}%`} />}
+                  />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Attempts */}
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle className="font-display">Attempts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by student name or email"
+                  className="pl-9"
+                />
+              </div>
+              <Select value={outcome} onValueChange={(value) => setOutcome(value as OutcomeFilter)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All outcomes</SelectItem>
+                  <SelectItem value="passed">Passed</SelectItem>
+                  <SelectItem value="not_passed">Not passed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {shownAttempts.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {attempts.length === 0 ? 'No attempts yet' : 'No attempts match these filters'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {renderSortHead('student', 'Student')}
+                      {renderSortHead('score', 'Score')}
+                      <TableHead>Marks</TableHead>
+                      <TableHead>Outcome</TableHead>
+                      {renderSortHead('time', 'Time')}
+                      {renderSortHead('date', 'Date')}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shownAttempts.map((attempt) => (
+                      <TableRow key={attempt.id}>
+                        <TableCell>
+                          <p className="font-medium">{attempt.student_name}</p>
+                          <p className="text-xs text-muted-foreground">{attempt.student_email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <span className={`font-bold ${getOutcomeColor(attempt.passed)}`}>{attempt.score}%</span>
+                        </TableCell>
+                        <TableCell>
+                          {formatMarks(attempt.marks_obtained)}/{formatMarks(attempt.max_marks)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {attempt.passed !== null && (
+                              <Badge
+                                variant="outline"
+                                className={attempt.passed
+                                  ? 'bg-success/10 text-success border-success/20'
+                                  : 'bg-destructive/10 text-destructive border-destructive/20'}
+                              >
+                                {attempt.passed ? 'Passed' : 'Not passed'}
+                              </Badge>
+                            )}
+                            {attempt.grade && <span className="text-sm text-muted-foreground">{attempt.grade}</span>}
+                            {attempt.passed === null && !attempt.grade && <span className="text-muted-foreground">-</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {attempt.time_taken_seconds !== null ? formatTime(attempt.time_taken_seconds) : '-'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {new Date(attempt.completed_at).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
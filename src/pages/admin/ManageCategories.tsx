@@ -0,0 +1,547 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, Loader2, Save, ArrowUp, ArrowDown, Tags } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import GradeBandsEditor from '@/components/GradeBandsEditor';
+import { Category } from '@/lib/categories';
+import { getGradeBandsError, getPassMarkError, GradeBand, parseGradeBands, sortGradeBands } from '@/lib/grading';
+
+interface CategoryRow extends Category {
+  exam_count: number;
+}
+
+// The editable fields of a category
+type CategoryForm = Pick<Category, 'name' | 'colour' | 'default_duration_minutes'>;
+
+interface GradingForm {
+  pass_mark: number | null;
+  grade_bands: GradeBand[];
+}
+
+const emptyForm: CategoryForm = {
+  name: '',
+  colour: '#0da2e7',
+  default_duration_minutes: 30,
+};
+
+export default function ManageCategories() {
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  // Unsaved edits, by category id
+  const [drafts, setDrafts] = useState<Record<string, CategoryForm>>({});
+  const [newCategory, setNewCategory] = useState<CategoryForm>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  // The category whose pass mark and grade bands are being edited
+  const [grading, setGrading] = useState<{ category: CategoryRow; form: GradingForm } | null>(null);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*, exams(count)')
+        .order('order_index')
+        .order('name');
+
+      if (error) throw error;
+
+      setCategories(data?.map(({ exams, ...category }) => ({
+        ...category,
+        exam_count: exams[0]?.count ?? 0,
+      })) || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast.error('Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const formOf = (category: CategoryRow): CategoryForm => drafts[category.id] ?? category;
+
+  const isChanged = (category: CategoryRow) => {
+    const draft = drafts[category.id];
+    return !!draft && (
+      draft.name !== category.name ||
+      draft.colour !== category.colour ||
+      draft.default_duration_minutes !== category.default_duration_minutes
+    );
+  };
+
+  const updateDraft = (category: CategoryRow, changes: Partial<CategoryForm>) => {
+    setDrafts({ ...drafts, [category.id]: { ...formOf(category), ...changes } });
+  };
+
+  const getFormError = (form: CategoryForm, id?: string) => {
+    if (!form.name.trim()) return 'Please enter a category name';
+    if (categories.some(c => c.id !== id && c.name.trim().toLowerCase() === form.name.trim().toLowerCase())) {
+      return `There is already a "${form.name.trim()}" category`;
+    }
+    if (!Number.isInteger(form.default_duration_minutes) || form.default_duration_minutes < 1) {
+      return 'Default duration must be a whole number of minutes, at least 1';
+    }
+    return null;
+  };
+
+  const handleAdd = async () => {
+    const formError = getFormError(newCategory);
+    if (formError) {
+      toast.error(formError);
+      return;
+    }
+
+    setSaving('new');
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .insert({
+          name: newCategory.name.trim(),
+          colour: newCategory.colour,
+          default_duration_minutes: newCategory.default_duration_minutes,
+          order_index: Math.max(-1, ...categories.map(c => c.order_index)) + 1,
+        });
+
+      if (error) throw error;
+
+      setNewCategory(emptyForm);
+      toast.success('Category added');
+      fetchCategories();
+    } catch (error) {
+      console.error('Error adding category:', error);
+      toast.error('Failed to add category');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSave = async (category: CategoryRow) => {
+    const form = formOf(category);
+    const formError = getFormError(form, category.id);
+    if (formError) {
+      toast.error(formError);
+      return;
+    }
+
+    setSaving(category.id);
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({
+          name: form.name.trim(),
+          colour: form.colour,
+          default_duration_minutes: form.default_duration_minutes,
+        })
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      setCategories(categories.map(c => c.id === category.id ? { ...c, ...form, name: form.name.trim() } : c));
+      const { [category.id]: _saved, ...rest } = drafts;
+      setDrafts(rest);
+      toast.success('Category saved');
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast.error('Failed to save category');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const openGrading = (category: CategoryRow) => {
+    setGrading({
+      category,
+      form: { pass_mark: category.pass_mark, grade_bands: parseGradeBands(category.grade_bands) ?? [] },
+    });
+  };
+
+  const handleSaveGrading = async () => {
+    if (!grading) return;
+
+    const { category, form } = grading;
+    const formError = getPassMarkError(form.pass_mark) ?? getGradeBandsError(form.grade_bands);
+    if (formError) {
+      toast.error(formError);
+      return;
+    }
+
+    const gradeBands = sortGradeBands(form.grade_bands.map(band => ({ ...band, name: band.name.trim() }))) as unknown as Json;
+
+    setSaving(category.id);
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({ pass_mark: form.pass_mark, grade_bands: gradeBands })
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      setCategories(categories.map(c => c.id === category.id ? { ...c, pass_mark: form.pass_mark, grade_bands: gradeBands } : c));
+      setGrading(null);
+      toast.success('Grading saved');
+    } catch (error) {
+      console.error('Error saving grading:', error);
+      toast.error('Failed to save grading');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Swaps a category with its neighbour; positions are renumbered so ties cannot stick
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...categories];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    const moved = reordered.map((category, order_index) => ({ ...category, order_index }));
+    const previous = categories;
+
+    setCategories(moved);
+    try {
+      const results = await Promise.all(
+        moved
+          .filter(category => category.order_index !== previous.find(c => c.id === category.id)?.order_index)
+          .map(category =>
+            supabase.from('categories').update({ order_index: category.order_index }).eq('id', category.id)
+          )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      toast.error('Failed to reorder categories');
+      fetchCategories();
+    }
+  };
+
+  const handleDelete = async (category: CategoryRow) => {
+    setDeleting(category.id);
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', category.id);
+
+      if (error) throw error;
+
+      setCategories(categories.filter(c => c.id !== category.id));
+      toast.success('Category deleted');
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast.error('Failed to delete category');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+            Categories
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Group exams into tabs for students, each with its own colour and default duration
+          </p>
+        </div>
+
+        {/* New Category */}
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle className="font-display">Add Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-[1fr_auto_auto_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="new-category-name">Name</Label>
+                <Input
+                  id="new-category-name"
+                  value={newCategory.name}
+                  onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+                  placeholder="e.g. Mock Tests"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-category-colour">Colour</Label>
+                <Input
+                  id="new-category-colour"
+                  type="color"
+                  value={newCategory.colour}
+                  onChange={(e) => setNewCategory({ ...newCategory, colour: e.target.value })}
+                  className="w-16 p-1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-category-duration">Default Duration (min)</Label>
+                <Input
+                  id="new-category-duration"
+                  type="number"
+                  min={1}
+                  value={newCategory.default_duration_minutes}
+                  onChange={(e) => setNewCategory({ ...newCategory, default_duration_minutes: e.target.valueAsNumber || 0 })}
+                  className="w-40"
+                />
+              </div>
+              <Button onClick={handleAdd} disabled={saving === 'new'} className="gradient-primary">
+                {saving === 'new' ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="w-4 h-4 mr-2" />
+                )}
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Categories Table */}
+        <Card className="shadow-card border-0">
+          <CardHeader>
+            <CardTitle className="font-display">All Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : categories.length === 0 ? (
+              <div className="text-center py-12">
+                <Tags className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No categories yet. Add one above before creating exams.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Colour</TableHead>
+                      <TableHead>Default Duration (min)</TableHead>
+                      <TableHead>Grading</TableHead>
+                      <TableHead>Exams</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map((category, index) => {
+                      const form = formOf(category);
+                      // Exams must always have a category to move to
+                      const deleteBlocker = category.exam_count > 0
+                        ? `Move its ${category.exam_count} exam${category.exam_count === 1 ? '' : 's'} to another category first`
+                        : categories.length === 1 ? 'At least one category is needed'
+                        : null;
+
+                      return (
+                        <TableRow key={category.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={index === 0}
+                                onClick={() => handleMove(index, -1)}
+                                title="Move up"
+                              >
+                                <ArrowUp className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={index === categories.length - 1}
+                                onClick={() => handleMove(index, 1)}
+                                title="Move down"
+                              >
+                                <ArrowDown className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={form.name}
+                              onChange={(e) => updateDraft(category, { name: e.target.value })}
+                              className="min-w-40"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <Input
+                                type="color"
+                                value={form.colour}
+                                onChange={(e) => updateDraft(category, { colour: e.target.value })}
+                                className="w-16 p-1"
+                              />
+                              <CategoryBadge category={{ name: form.name || category.name, colour: form.colour }} />
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={form.default_duration_minutes}
+                              onChange={(e) => updateDraft(category, { default_duration_minutes: e.target.valueAsNumber || 0 })}
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="outline" size="sm" onClick={() => openGrading(category)}>
+                              {category.pass_mark !== null ? `Pass ${category.pass_mark}%` : 'No pass mark'}
+                              {' · '}
+                              {parseGradeBands(category.grade_bands)?.length ?? 0} bands
+                            </Button>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{category.exam_count}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={!isChanged(category) || saving === category.id}
+                                onClick={() => handleSave(category)}
+                                title="Save"
+                              >
+                                {saving === category.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Save className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="text-destructive"
+                                    disabled={!!deleteBlocker}
+                                    title={deleteBlocker ?? 'Delete'}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Category?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This will permanently delete "{category.name}". This action cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleDelete(category)}
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                      disabled={deleting === category.id}
+                                    >
+                                      {deleting === category.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        'Delete'
+                                      )}
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!grading} onOpenChange={(open) => !open && setGrading(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Grading for {grading?.category.name}</DialogTitle>
+            <DialogDescription>
+              Exams in this category use these unless they set their own. Published exams keep the grading they were published with until published again, and results keep the grade they were given.
+            </DialogDescription>
+          </DialogHeader>
+          {grading && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="category-pass-mark">Pass Mark (%)</Label>
+                <Input
+                  id="category-pass-mark"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={grading.form.pass_mark ?? ''}
+                  onChange={(e) => setGrading({
+                    ...grading,
+                    form: { ...grading.form, pass_mark: e.target.value === '' ? null : e.target.valueAsNumber },
+                  })}
+                  placeholder="No pass mark"
+                  className="w-40"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Grade Bands</Label>
+                <GradeBandsEditor
+                  value={grading.form.grade_bands}
+                  onChange={(grade_bands) => setGrading({ ...grading, form: { ...grading.form, grade_bands } })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGrading(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveGrading}
+              disabled={!!grading && saving === grading.category.id}
+              className="gradient-primary"
+            >
+              {grading && saving === grading.category.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Grading
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import DashboardLayout from '@/components/DashboardLayout';
+import ExamImportDialog from '@/components/ExamImportDialog';
+import CategoryBadge from '@/components/CategoryBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -24,37 +26,81 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { Plus, Pencil, Trash2, FileText, Clock, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, Pencil, Trash2, FileText, Clock, Loader2, Download, Upload, ChevronDown, BarChart3 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  EXAM_DOCUMENT_FORMAT,
+  EXAM_DOCUMENT_VERSION,
+  ExamDocument,
+} from '@/lib/examTransfer';
+import { EXPORT_FORMAT_LABELS, exportExam, ExportFormat } from '@/lib/interop';
+import { QuestionAnswer } from '@/lib/questionTypes';
+import { EXAM_STATUS_LABELS, EXAM_STATUS_STYLES, ExamStatus, ExamVersionContent } from '@/lib/examStatus';
+import {
+  examClosesAt,
+  ExamSchedule,
+  formatScheduleTime,
+  formatTimeUntil,
+  getExamAvailability,
+} from '@/lib/examSchedule';
+import { parseGradeBands } from '@/lib/grading';
 
 interface Exam {
   id: string;
   title: string;
   description: string | null;
-  category: 'basic' | 'prelims' | 'mains';
+  category: { name: string; colour: string } | null;
   duration_minutes: number;
-  is_active: boolean;
+  status: ExamStatus;
   created_at: string;
+  draw_count: number | null;
   question_count?: number;
+  // Published exams open and close on the schedule they were published with
+  published?: ExamSchedule;
 }
 
 export default function ManageExams() {
   const [exams, setExams] = useState<Exam[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  // Parts of the last export its format could not hold
+  const [exportReport, setExportReport] = useState<{ fileName: string; unmapped: string[] } | null>(null);
 
   const fetchExams = async () => {
     try {
       const { data, error } = await supabase
         .from('exams')
-        .select('*, questions(id)')
+        .select('*, category:categories(name, colour), exam_question_links(id)')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('published_exam_settings')
+        .select('exam_id, settings');
+
+      if (settingsError) throw settingsError;
+
+      const settingsByExam = new Map(
+        (settingsData || []).map(({ exam_id, settings }) => [exam_id, settings as unknown as ExamVersionContent['exam']])
+      );
+
       const examsWithCount = data?.map(exam => ({
         ...exam,
-        question_count: exam.questions?.length || 0,
+        published: settingsByExam.get(exam.id),
+        question_count: exam.exam_question_links?.length || 0,
       })) || [];
 
       setExams(examsWithCount);
@@ -70,6 +116,29 @@ export default function ManageExams() {
     fetchExams();
   }, []);
 
+  // Scheduled exams open and close by themselves, so keep their window state current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Where a published exam's schedule stands, e.g. "Opens in 2 days"
+  const renderWindowState = (schedule: ExamSchedule) => {
+    const availability = getExamAvailability(schedule, now);
+    const closesAt = examClosesAt(schedule);
+
+    if (availability === 'scheduled' && schedule.opens_at) {
+      return <span className="text-xs px-2 text-info">Opens in {formatTimeUntil(schedule.opens_at, now)}</span>;
+    }
+    if (availability === 'closed' && closesAt) {
+      return <span className="text-xs px-2 text-muted-foreground">Closed {formatScheduleTime(closesAt)}</span>;
+    }
+    if (closesAt) {
+      return <span className="text-xs px-2 text-success">Open until {formatScheduleTime(closesAt)}</span>;
+    }
+    return null;
+  };
+
   const handleDelete = async (examId: string) => {
     setDeleting(examId);
     try {
@@ -90,35 +159,153 @@ export default function ManageExams() {
     }
   };
 
-  const toggleActive = async (examId: string, currentStatus: boolean) => {
+  const loadExamDocument = async (examId: string): Promise<ExamDocument> => {
+    const { data: examData, error: examError } = await supabase
+      .from('exams')
+      .select('*, category:categories(name)')
+      .eq('id', examId)
+      .single();
+
+    if (examError) throw examError;
+
+    const { data: sectionsData, error: sectionsError } = await supabase
+      .from('exam_sections')
+      .select('id, title, duration_minutes')
+      .eq('exam_id', examId)
+      .order('order_index');
+
+    if (sectionsError) throw sectionsError;
+
+    const { data: linksData, error: linksError } = await supabase
+      .from('exam_question_links')
+      .select('section_id, marks, negative_marks, question:questions(*)')
+      .eq('exam_id', examId)
+      .order('order_index');
+
+    if (linksError) throw linksError;
+
+    const { data: rulesData, error: rulesError } = await supabase
+      .from('exam_draw_rules')
+      .select('topic, min_count')
+      .eq('exam_id', examId)
+      .order('created_at');
+
+    if (rulesError) throw rulesError;
+
+    const passageIds = [...new Set((linksData || []).map(link => link.question.passage_id))]
+      .filter((passageId): passageId is string => passageId !== null);
+    const { data: passagesData, error: passagesError } = passageIds.length > 0
+      ? await supabase.from('passages').select('id, title, content').in('id', passageIds)
+      : { data: [], error: null };
+
+    if (passagesError) throw passagesError;
+
+    const sectionIds = (sectionsData || []).map(section => section.id);
+    // In the order the exam first shows them
+    const passages = passageIds.map(passageId => (passagesData || []).find(p => p.id === passageId)!);
+    return {
+      format: EXAM_DOCUMENT_FORMAT,
+      version: EXAM_DOCUMENT_VERSION,
+      exported_at: new Date().toISOString(),
+      exam: {
+        title: examData.title,
+        description: examData.description,
+        category: examData.category.name,
+        duration_minutes: examData.duration_minutes,
+        marks_per_correct: examData.marks_per_correct,
+        negative_marks: examData.negative_marks,
+        shuffle_questions: examData.shuffle_questions,
+        shuffle_options: examData.shuffle_options,
+        show_explanations: examData.show_explanations,
+        draw_count: examData.draw_count,
+        opens_at: examData.opens_at,
+        closes_at: examData.closes_at,
+        fixed_start: examData.fixed_start,
+        max_attempts: examData.max_attempts,
+        attempt_cooldown_minutes: examData.attempt_cooldown_minutes,
+        attempt_scoring: examData.attempt_scoring,
+        pass_mark: examData.pass_mark,
+        grade_bands: parseGradeBands(examData.grade_bands),
+      },
+      sections: (sectionsData || []).map(({ title, duration_minutes }) => ({ title, duration_minutes })),
+      passages: passages.map(({ title, content }) => ({ title, content })),
+      draw_rules: rulesData || [],
+      questions: (linksData || []).map(({ question: q, ...link }) => ({
+        question_type: q.question_type,
+        question_text: q.question_text,
+        options: q.options as string[],
+        answer: q.answer as unknown as QuestionAnswer,
+        explanation: q.explanation,
+        topic: q.topic,
+        difficulty: q.difficulty,
+        tags: q.tags,
+        marks: link.marks,
+        negative_marks: link.negative_marks,
+        section: link.section_id ? sectionIds.indexOf(link.section_id) : null,
+        passage: q.passage_id ? passageIds.indexOf(q.passage_id) : null,
+      })) as ExamDocument['questions'],
+    };
+  };
+
+  const handleExport = async (examId: string, format: ExportFormat) => {
+    setExporting(examId);
+    try {
+      const { blob, fileName, unmapped } = exportExam(await loadExamDocument(examId), format);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (unmapped.length > 0) setExportReport({ fileName, unmapped });
+    } catch (error) {
+      console.error('Error exporting exam:', error);
+      toast.error('Failed to export exam');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const setStatus = async (examId: string, status: ExamStatus) => {
+    setUpdatingStatus(examId);
     try {
       const { error } = await supabase
         .from('exams')
-        .update({ is_active: !currentStatus })
+        .update({ status })
         .eq('id', examId);
 
       if (error) throw error;
 
       setExams(exams.map(e => 
-        e.id === examId ? { ...e, is_active: !currentStatus } : e
+        e.id === examId ? { ...e, status } : e
       ));
-      toast.success(`Exam ${!currentStatus ? 'activated' : 'deactivated'}`);
+      toast.success(`Exam moved to ${EXAM_STATUS_LABELS[status].toLowerCase()}`);
     } catch (error) {
       console.error('Error updating exam:', error);
       toast.error('Failed to update exam');
+    } finally {
+      setUpdatingStatus(null);
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'basic':
-        return 'bg-exam-basic/10 text-exam-basic border-exam-basic/20';
-      case 'prelims':
-        return 'bg-exam-prelims/10 text-exam-prelims border-exam-prelims/20';
-      case 'mains':
-        return 'bg-exam-mains/10 text-exam-mains border-exam-mains/20';
-      default:
-        return 'bg-muted text-muted-foreground';
+  // Freezes the exam as it is now into a new version for students to take
+  const handlePublish = async (examId: string) => {
+    setUpdatingStatus(examId);
+    try {
+      const { data: version, error } = await supabase
+        .rpc('publish_exam', { _exam_id: examId });
+
+      if (error) throw error;
+
+      toast.success(`Published version ${version}`);
+      await fetchExams();
+    } catch (error) {
+      console.error('Error publishing exam:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish exam');
+    } finally {
+      setUpdatingStatus(null);
     }
   };
 
@@ -135,12 +322,18 @@ export default function ManageExams() {
               Create, edit, and manage your exams
             </p>
           </div>
-          <Link to="/admin/exams/new">
-            <Button className="gradient-primary">
-              <Plus className="w-4 h-4 mr-2" />
-              Create Exam
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Exam
             </Button>
-          </Link>
+            <Link to="/admin/exams/new">
+              <Button className="gradient-primary">
+                <Plus className="w-4 h-4 mr-2" />
+                Create Exam
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Exams Table */}
@@ -182,9 +375,7 @@ export default function ManageExams() {
                       <TableRow key={exam.id}>
                         <TableCell className="font-medium">{exam.title}</TableCell>
                         <TableCell>
-                          <Badge variant="outline" className={getCategoryColor(exam.category)}>
-                            {exam.category}
-                          </Badge>
+                          <CategoryBadge category={exam.category} />
                         </TableCell>
                         <TableCell>
                           <span className="flex items-center gap-1 text-muted-foreground">
@@ -192,19 +383,76 @@ export default function ManageExams() {
                             {exam.duration_minutes} min
                           </span>
                         </TableCell>
-                        <TableCell>{exam.question_count}</TableCell>
                         <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => toggleActive(exam.id, exam.is_active)}
-                            className={exam.is_active ? 'text-success' : 'text-muted-foreground'}
-                          >
-                            {exam.is_active ? 'Active' : 'Inactive'}
-                          </Button>
+                          {exam.draw_count !== null ? `${exam.draw_count} of ${exam.question_count}` : exam.question_count}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="sm" disabled={updatingStatus === exam.id} className="px-2">
+                                  <Badge variant="outline" className={EXAM_STATUS_STYLES[exam.status]}>
+                                    {EXAM_STATUS_LABELS[exam.status]}
+                                  </Badge>
+                                  {updatingStatus === exam.id ? (
+                                    <Loader2 className="w-4 h-4 ml-1 animate-spin" />
+                                  ) : (
+                                    <ChevronDown className="w-4 h-4 ml-1" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="start">
+                                {exam.status === 'in_review' && (
+                                  <>
+                                    <DropdownMenuItem onClick={() => handlePublish(exam.id)}>Publish</DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => setStatus(exam.id, 'draft')}>Return to Draft</DropdownMenuItem>
+                                  </>
+                                )}
+                                {exam.status === 'published' && (
+                                  <DropdownMenuItem onClick={() => setStatus(exam.id, 'draft')}>Unpublish</DropdownMenuItem>
+                                )}
+                                {exam.status === 'archived' ? (
+                                  <DropdownMenuItem onClick={() => setStatus(exam.id, 'draft')}>Restore as Draft</DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem onClick={() => setStatus(exam.id, 'archived')}>Archive</DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                            {exam.status === 'published' && exam.published && renderWindowState(exam.published)}
+                          </div>
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={exporting === exam.id}
+                                  title="Export"
+                                >
+                                  {exporting === exam.id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Download className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>Export as</DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                                  <DropdownMenuItem key={format} onClick={() => handleExport(exam.id, format)}>
+                                    {EXPORT_FORMAT_LABELS[format]}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                            <Link to={`/admin/exams/${exam.id}/results`}>
+                              <Button variant="ghost" size="icon" title="Results">
+                                <BarChart3 className="w-4 h-4" />
+                              </Button>
+                            </Link>
                             <Link to={`/admin/exams/${exam.id}`}>
                               <Button variant="ghost" size="icon">
                                 <Pencil className="w-4 h-4" />
@@ -220,7 +468,7 @@ export default function ManageExams() {
                                 <AlertDialogHeader>
                                   <AlertDialogTitle>Delete Exam?</AlertDialogTitle>
                                   <AlertDialogDescription>
-                                    This will permanently delete "{exam.title}" and all its questions. This action cannot be undone.
+                                    This will permanently delete "{exam.title}". Its questions stay in the question bank. This action cannot be undone.
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -250,6 +498,32 @@ export default function ManageExams() {
           </CardContent>
         </Card>
       </div>
+
+      <ExamImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        onImported={fetchExams}
+      />
+
+      <AlertDialog open={exportReport !== null} onOpenChange={open => !open && setExportReport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Export Report</AlertDialogTitle>
+            <AlertDialogDescription>
+              {exportReport?.fileName} was downloaded, but its format could not hold everything in this exam.
+              These were left out:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-6 space-y-1 text-sm">
+            {exportReport?.unmapped.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogAction>OK</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </DashboardLayout>
   );
 }
@@ -0,0 +1,516 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useQuestionTags } from '@/hooks/useQuestionTags';
+import DashboardLayout from '@/components/DashboardLayout';
+import QuestionAnswerEditor from '@/components/QuestionAnswerEditor';
+import TagInput from '@/components/TagInput';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Plus, Edit, Trash2, Loader2, Library, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  defaultAnswer,
+  defaultOptions,
+  DIFFICULTY_LABELS,
+  getQuestionError,
+  isChoiceType,
+  normalizeAnswer,
+  normalizeTags,
+  QuestionAnswer,
+  QuestionContent,
+  QuestionDifficulty,
+  QuestionType,
+  QUESTION_TYPE_LABELS,
+  withQuestionType,
+} from '@/lib/questionTypes';
+
+interface BankQuestion extends QuestionContent {
+  id: string;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  explanation: string | null;
+  created_at: string;
+  used_in: number;
+}
+
+interface QuestionForm extends QuestionContent {
+  id?: string;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  tags: string[];
+  explanation: string;
+}
+
+const ALL = 'all';
+// Select value standing in for a question without a difficulty
+const NO_DIFFICULTY = 'none';
+const SEARCH_DELAY_MS = 300;
+
+const emptyForm = (): QuestionForm => ({
+  question_type: 'single_choice',
+  question_text: '',
+  options: defaultOptions('single_choice'),
+  answer: defaultAnswer('single_choice'),
+  topic: null,
+  difficulty: null,
+  tags: [],
+  explanation: '',
+});
+
+export default function QuestionBank() {
+  const { user } = useAuth();
+  const { topics, tags, refresh: refreshTags } = useQuestionTags();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [topicFilter, setTopicFilter] = useState<string>(ALL);
+  const [difficultyFilter, setDifficultyFilter] = useState<string>(ALL);
+  const [tagFilter, setTagFilter] = useState<string>(ALL);
+  const [form, setForm] = useState<QuestionForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchQuestions, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, typeFilter, topicFilter, difficultyFilter, tagFilter]);
+
+  const fetchQuestions = async () => {
+    try {
+      let query = supabase
+        .from('questions')
+        .select('*, exam_question_links(exam_id)')
+        .order('created_at', { ascending: false });
+
+      if (search.trim()) {
+        query = query.ilike('question_text', `%${search.trim()}%`);
+      }
+      if (typeFilter !== ALL) {
+        query = query.eq('question_type', typeFilter as QuestionType);
+      }
+      if (topicFilter !== ALL) {
+        query = query.eq('topic', topicFilter);
+      }
+      if (difficultyFilter !== ALL) {
+        query = query.eq('difficulty', difficultyFilter as QuestionDifficulty);
+      }
+      if (tagFilter !== ALL) {
+        query = query.contains('tags', [tagFilter]);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setQuestions((data || []).map(({ exam_question_links, ...q }) => ({
+        ...q,
+        options: q.options as string[],
+        answer: q.answer as unknown as QuestionAnswer,
+        used_in: exam_question_links.length,
+      })));
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      toast.error('Failed to load questions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (question?: BankQuestion) => {
+    setForm(question
+      ? {
+        id: question.id,
+        question_type: question.question_type,
+        question_text: question.question_text,
+        options: question.options,
+        answer: question.answer,
+        topic: question.topic,
+        difficulty: question.difficulty,
+        tags: question.tags,
+        explanation: question.explanation ?? '',
+      }
+      : emptyForm());
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const questionError = getQuestionError(form);
+    if (questionError) {
+      toast.error(questionError);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const row = {
+        question_type: form.question_type,
+        question_text: form.question_text,
+        options: isChoiceType(form.question_type) ? form.options : [],
+        answer: normalizeAnswer(form.question_type, form.answer) as unknown as Json,
+        topic: form.topic?.trim() || null,
+        difficulty: form.difficulty,
+        tags: normalizeTags(form.tags),
+        explanation: form.explanation.trim() || null,
+      };
+
+      const { error } = form.id
+        ? await supabase.from('questions').update(row).eq('id', form.id)
+        : await supabase.from('questions').insert({ ...row, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast.success(form.id ? 'Question updated successfully' : 'Question added to the bank');
+      setForm(null);
+      fetchQuestions();
+      refreshTags();
+    } catch (error) {
+      console.error('Error saving question:', error);
+      toast.error('Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (questionId: string) => {
+    setDeleting(questionId);
+    try {
+      const { error } = await supabase
+        .from('questions')
+        .delete()
+        .eq('id', questionId);
+
+      if (error) throw error;
+
+      setQuestions(questions.filter(q => q.id !== questionId));
+      toast.success('Question deleted successfully');
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      toast.error('Failed to delete question');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground">
+              Question Bank
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Write questions once and reuse them across exams
+            </p>
+          </div>
+          <Button className="gradient-primary" onClick={() => openEditor()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+
+        {/* Questions Table */}
+        <Card className="shadow-card border-0">
+          <CardHeader className="space-y-4">
+            <CardTitle className="font-display">All Questions</CardTitle>
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3">
+              <div className="relative flex-1 sm:min-w-64">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search questions..."
+                  className="pl-9"
+                />
+              </div>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={topicFilter} onValueChange={setTopicFilter}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All topics</SelectItem>
+                  {topics.map(topic => (
+                    <SelectItem key={topic} value={topic}>{topic}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any difficulty</SelectItem>
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={tagFilter} onValueChange={setTagFilter}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tags</SelectItem>
+                  {tags.map(tag => (
+                    <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : questions.length === 0 ? (
+              <div className="text-center py-12">
+                <Library className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No questions found</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Topic</TableHead>
+                      <TableHead>Difficulty</TableHead>
+                      <TableHead>Used In</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {questions.map((question) => (
+                      <TableRow key={question.id}>
+                        <TableCell className="max-w-md">
+                          <p className="font-medium truncate">{question.question_text}</p>
+                          {question.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {question.tags.map(tag => (
+                                <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{question.topic ?? '-'}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {question.difficulty ? DIFFICULTY_LABELS[question.difficulty] : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {question.used_in} {question.used_in === 1 ? 'exam' : 'exams'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="ghost" size="icon" onClick={() => openEditor(question)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-destructive"
+                                  disabled={question.used_in > 0 || deleting === question.id}
+                                  title={question.used_in > 0 ? 'Remove it from its exams first' : 'Delete question'}
+                                >
+                                  {deleting === question.id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Question?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    This will permanently delete the question from the bank. Past results keep
+                                    the version students answered.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(question.id)}
+                                    className="bg-destructive text-destructive-foreground"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Question Editor */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Question' : 'New Question'}</DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Question</Label>
+                <Textarea
+                  value={form.question_text}
+                  onChange={(e) => setForm({ ...form, question_text: e.target.value })}
+                  placeholder="Enter your question..."
+                  rows={3}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Question Type</Label>
+                  <Select
+                    value={form.question_type}
+                    onValueChange={(value) => setForm(withQuestionType(form, value as QuestionType))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Difficulty</Label>
+                  <Select
+                    value={form.difficulty ?? NO_DIFFICULTY}
+                    onValueChange={(value) => setForm({
+                      ...form,
+                      difficulty: value === NO_DIFFICULTY ? null : value as QuestionDifficulty,
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+                      {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Topic</Label>
+                <TagInput
+                  single
+                  value={form.topic ? [form.topic] : []}
+                  onChange={(value) => setForm({ ...form, topic: value[0] ?? null })}
+                  suggestions={topics}
+                  placeholder="Set topic"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <TagInput
+                  value={form.tags}
+                  onChange={(value) => setForm({ ...form, tags: value })}
+                  suggestions={tags}
+                />
+              </div>
+
+              <QuestionAnswerEditor
+                question={form}
+                onChange={(changes) => setForm({ ...form, ...changes })}
+              />
+
+              <div className="space-y-2">
+                <Label>Explanation (Optional)</Label>
+                <Textarea
+                  value={form.explanation}
+                  onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+                  placeholder="Why the correct answer is correct..."
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} className="gradient-primary" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Question
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
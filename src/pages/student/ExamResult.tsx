@@ -1,39 +1,85 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { CheckCircle2, XCircle, Clock, Trophy, ArrowLeft, Home, Loader2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCircle2, XCircle, MinusCircle, Clock, Trophy, ArrowLeft, Home, Loader2, Lightbulb } from 'lucide-react';
+import AnswerReview from '@/components/AnswerReview';
+import RichText from '@/components/RichText';
+import {
+  applyOptionOrder,
+  applyOptionOrderToResponse,
+  QuestionContent,
+  QuestionResponse,
+} from '@/lib/questionTypes';
+import { formatMarks, formatSignedMarks } from '@/lib/scoring';
+import { ExamStatus, ExamVersionContent } from '@/lib/examStatus';
+import { examClosesAt, ExamSchedule, formatScheduleTime, getExamAvailability } from '@/lib/examSchedule';
+import { getOutcomeColor } from '@/lib/grading';
 
 interface ResultData {
   id: string;
   score: number;
   total_questions: number;
   correct_answers: number;
+  wrong_answers: number;
+  skipped_answers: number;
+  marks_obtained: number;
+  marks_lost: number;
+  max_marks: number;
   time_taken_seconds: number | null;
   completed_at: string;
-  exam: {
+  grade: string | null;
+  passed: boolean | null;
+  exam: ExamSchedule & {
     id: string;
     title: string;
-    category: string;
+    category: { name: string } | null;
+    show_explanations: 'immediately' | 'after_close' | 'never';
+    status: ExamStatus;
   };
 }
 
 interface AnswerDetail {
   id: string;
-  selected_option: string | null;
+  response: QuestionResponse | null;
   is_correct: boolean;
-  question: {
-    id: string;
-    question_text: string;
-    option_a: string;
-    option_b: string;
-    option_c: string;
-    option_d: string;
-    correct_option: string;
-    order_index: number;
-  };
+  marks_awarded: number;
+  position: number;
+  // Snapshot of the question as the student saw it when the attempt was graded,
+  // with options and response in the attempt's displayed order
+  question: QuestionContent;
+}
+
+interface SectionBreakdown {
+  id: string;
+  title: string;
+  total_questions: number;
+  correct_answers: number;
+  wrong_answers: number;
+  skipped_answers: number;
+  marks_obtained: number;
+  max_marks: number;
+}
+
+interface TopicBreakdown {
+  id: string;
+  topic: string;
+  correct_answers: number;
+  wrong_answers: number;
+  skipped_answers: number;
+  marks_obtained: number;
+  max_marks: number;
 }
 
 export default function ExamResult() {
@@ -41,6 +87,10 @@ export default function ExamResult() {
   const navigate = useNavigate();
   const [result, setResult] = useState<ResultData | null>(null);
   const [answers, setAnswers] = useState<AnswerDetail[]>([]);
+  const [sections, setSections] = useState<SectionBreakdown[]>([]);
+  const [topics, setTopics] = useState<TopicBreakdown[]>([]);
+  // Explanations by answer id, only returned once the exam allows them
+  const [explanations, setExplanations] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -51,22 +101,68 @@ export default function ExamResult() {
     try {
       const { data: resultData, error: resultError } = await supabase
         .from('exam_results')
-        .select('*, exam:exams(id, title, category)')
+        .select('*, exam:exams(id, title, show_explanations, status, duration_minutes, opens_at, closes_at, fixed_start, category:categories(name))')
         .eq('id', id)
         .single();
 
       if (resultError) throw resultError;
 
+      // A published exam runs on its published schedule; the exam's own may be an unpublished draft
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('published_exam_settings')
+        .select('settings')
+        .eq('exam_id', resultData.exam_id)
+        .maybeSingle();
+
+      if (settingsError) throw settingsError;
+
       const { data: answersData, error: answersError } = await supabase
         .from('student_answers')
-        .select('*, question:questions(*)')
+        .select('id, response, option_order, is_correct, marks_awarded, position, revision:question_revisions(content)')
         .eq('result_id', id)
-        .order('question(order_index)');
+        .order('position');
 
       if (answersError) throw answersError;
 
-      setResult(resultData);
-      setAnswers(answersData || []);
+      const { data: sectionsData, error: sectionsError } = await supabase
+        .from('exam_result_sections')
+        .select('id, title, total_questions, correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks')
+        .eq('result_id', id)
+        .order('position');
+
+      if (sectionsError) throw sectionsError;
+
+      const { data: topicsData, error: topicsError } = await supabase
+        .from('exam_result_topics')
+        .select('id, topic, correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks')
+        .eq('result_id', id);
+
+      if (topicsError) throw topicsError;
+
+      const { data: explanationsData, error: explanationsError } = await supabase
+        .rpc('get_result_explanations', { _result_id: id });
+
+      if (explanationsError) throw explanationsError;
+
+      setResult({
+        ...resultData,
+        exam: { ...resultData.exam, ...(settingsData?.settings as unknown as ExamVersionContent['exam'] | undefined) },
+      });
+      setSections(sectionsData || []);
+      setExplanations(Object.fromEntries((explanationsData || []).map(e => [e.answer_id, e.explanation])));
+      // Topics where the most marks were dropped come first
+      setTopics((topicsData || []).sort((a, b) =>
+        (b.max_marks - b.marks_obtained) - (a.max_marks - a.marks_obtained) || a.topic.localeCompare(b.topic)
+      ));
+      setAnswers((answersData || []).map(({ revision, response, option_order, ...answer }) => {
+        const question = revision.content as unknown as QuestionContent;
+        const order = option_order as number[] | null;
+        return {
+          ...answer,
+          response: applyOptionOrderToResponse(question.question_type, response as unknown as QuestionResponse | null, order),
+          question: applyOptionOrder(question, order),
+        };
+      }));
     } catch (error) {
       console.error('Error fetching result:', error);
       navigate('/student');
@@ -81,18 +177,10 @@ export default function ExamResult() {
     return `${mins}m ${secs}s`;
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'text-success';
-    if (score >= 60) return 'text-info';
-    if (score >= 40) return 'text-warning';
-    return 'text-destructive';
-  };
-
-  const getScoreMessage = (score: number) => {
-    if (score >= 80) return 'Excellent! Outstanding performance! 🎉';
-    if (score >= 60) return 'Good job! Keep practicing! 👍';
-    if (score >= 40) return 'Fair attempt. More practice needed. 💪';
-    return 'Keep learning. You can do better! 📚';
+  const getOutcomeMessage = (passed: boolean | null) => {
+    if (passed === true) return 'You passed! Well done! 🎉';
+    if (passed === false) return 'Not a pass this time. Keep practicing! 📚';
+    return 'Exam complete. Review your answers below. 👇';
   };
 
   if (loading) {
@@ -114,6 +202,11 @@ export default function ExamResult() {
     );
   }
 
+  // After-close explanations wait until the exam is unpublished or its window has closed
+  const availability = getExamAvailability(result.exam);
+  const examClosed = result.exam.status !== 'published' || availability === 'closed';
+  const closesAt = examClosesAt(result.exam);
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -138,17 +231,41 @@ export default function ExamResult() {
           <div className="gradient-primary p-6 text-center text-primary-foreground">
             <Trophy className="w-16 h-16 mx-auto mb-4 opacity-90" />
             <h1 className="text-3xl font-display font-bold mb-2">{result.exam.title}</h1>
-            <p className="opacity-80 capitalize">{result.exam.category} Exam</p>
+            <p className="opacity-80">{result.exam.category?.name} Exam</p>
           </div>
           <CardContent className="p-6">
             <div className="text-center mb-6">
               <p className="text-6xl font-display font-bold mb-2">
-                <span className={getScoreColor(result.score)}>{result.score}%</span>
+                <span className={getOutcomeColor(result.passed)}>{result.score}%</span>
+              </p>
+              {(result.grade || result.passed !== null) && (
+                <div className="flex items-center justify-center gap-2 mb-2">
+                  {result.grade && (
+                    <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">
+                      {result.grade}
+                    </Badge>
+                  )}
+                  {result.passed !== null && (
+                    <Badge
+                      variant="outline"
+                      className={result.passed
+                        ? 'bg-success/10 text-success border-success/20'
+                        : 'bg-destructive/10 text-destructive border-destructive/20'}
+                    >
+                      {result.passed ? 'Passed' : 'Not passed'}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              <p className="text-muted-foreground">{getOutcomeMessage(result.passed)}</p>
+              <p className="text-sm text-muted-foreground mt-2">
+                {formatMarks(result.marks_obtained)} / {formatMarks(result.max_marks)} marks
+                {result.marks_lost > 0 &&
+                  ` (${formatMarks(result.marks_obtained + result.marks_lost)} gained, ${formatMarks(result.marks_lost)} lost to wrong answers)`}
               </p>
-              <p className="text-muted-foreground">{getScoreMessage(result.score)}</p>
             </div>
 
-            <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
               <div className="p-4 rounded-lg bg-success/10">
                 <CheckCircle2 className="w-6 h-6 text-success mx-auto mb-2" />
                 <p className="text-2xl font-bold text-success">{result.correct_answers}</p>
@@ -156,11 +273,14 @@ export default function ExamResult() {
               </div>
               <div className="p-4 rounded-lg bg-destructive/10">
                 <XCircle className="w-6 h-6 text-destructive mx-auto mb-2" />
-                <p className="text-2xl font-bold text-destructive">
-                  {result.total_questions - result.correct_answers}
-                </p>
+                <p className="text-2xl font-bold text-destructive">{result.wrong_answers}</p>
                 <p className="text-sm text-muted-foreground">Wrong</p>
               </div>
+              <div className="p-4 rounded-lg bg-muted">
+                <MinusCircle className="w-6 h-6 text-muted-foreground mx-auto mb-2" />
+                <p className="text-2xl font-bold text-muted-foreground">{result.skipped_answers}</p>
+                <p className="text-sm text-muted-foreground">Skipped</p>
+              </div>
               <div className="p-4 rounded-lg bg-info/10">
                 <Clock className="w-6 h-6 text-info mx-auto mb-2" />
                 <p className="text-2xl font-bold text-info">
@@ -172,7 +292,7 @@ export default function ExamResult() {
 
             <div className="mt-6">
               <div className="flex justify-between text-sm mb-2">
-                <span>Accuracy</span>
+                <span>Score</span>
                 <span>{result.score}%</span>
               </div>
               <Progress value={result.score} className="h-3" />
@@ -180,10 +300,91 @@ export default function ExamResult() {
           </CardContent>
         </Card>
 
+        {/* Section Breakdown */}
+        {sections.length > 0 && (
+          <Card className="shadow-card border-0">
+            <CardHeader>
+              <CardTitle className="font-display">Section Breakdown</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead className="text-center">Correct</TableHead>
+                    <TableHead className="text-center">Wrong</TableHead>
+                    <TableHead className="text-center">Skipped</TableHead>
+                    <TableHead className="text-right">Marks</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sections.map((section) => (
+                    <TableRow key={section.id}>
+                      <TableCell className="font-medium">{section.title}</TableCell>
+                      <TableCell className="text-center text-success">{section.correct_answers}</TableCell>
+                      <TableCell className="text-center text-destructive">{section.wrong_answers}</TableCell>
+                      <TableCell className="text-center text-muted-foreground">{section.skipped_answers}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatMarks(section.marks_obtained)} / {formatMarks(section.max_marks)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Topic Breakdown */}
+        {topics.length > 0 && (
+          <Card className="shadow-card border-0">
+            <CardHeader>
+              <CardTitle className="font-display">Topic Breakdown</CardTitle>
+              <CardDescription>Topics where you dropped the most marks are listed first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Topic</TableHead>
+                    <TableHead className="text-center">Correct</TableHead>
+                    <TableHead className="text-center">Wrong</TableHead>
+                    <TableHead className="text-center">Skipped</TableHead>
+                    <TableHead className="text-right">Marks Dropped</TableHead>
+                    <TableHead className="text-right">Marks</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topics.map((topic) => (
+                    <TableRow key={topic.id}>
+                      <TableCell className="font-medium">{topic.topic}</TableCell>
+                      <TableCell className="text-center text-success">{topic.correct_answers}</TableCell>
+                      <TableCell className="text-center text-destructive">{topic.wrong_answers}</TableCell>
+                      <TableCell className="text-center text-muted-foreground">{topic.skipped_answers}</TableCell>
+                      <TableCell className="text-right text-destructive">
+                        {formatMarks(topic.max_marks - topic.marks_obtained)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatMarks(topic.marks_obtained)} / {formatMarks(topic.max_marks)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Answers Review */}
         <Card className="shadow-card border-0">
           <CardHeader>
             <CardTitle className="font-display">Answer Review</CardTitle>
+            {result.exam.show_explanations === 'after_close' && !examClosed && (
+              <CardDescription>
+                Explanations will be available once this exam closes
+                {closesAt && ` on ${formatScheduleTime(closesAt)}`}
+              </CardDescription>
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             {answers.map((answer, index) => (
@@ -206,37 +407,37 @@ export default function ExamResult() {
                     )}
                   </div>
                   <div className="flex-1">
-                    <p className="font-medium mb-2">
-                      Q{index + 1}. {answer.question.question_text}
-                    </p>
-                    <div className="grid gap-2 text-sm">
-                      {(['A', 'B', 'C', 'D'] as const).map((opt) => {
-                        const optionText = answer.question[`option_${opt.toLowerCase()}` as keyof typeof answer.question] as string;
-                        const isCorrect = answer.question.correct_option === opt;
-                        const isSelected = answer.selected_option === opt;
-
-                        return (
-                          <div
-                            key={opt}
-                            className={`p-2 rounded flex items-center gap-2 ${
-                              isCorrect
-                                ? 'bg-success/20 text-success'
-                                : isSelected && !isCorrect
-                                ? 'bg-destructive/20 text-destructive'
-                                : 'text-muted-foreground'
-                            }`}
-                          >
-                            <span className="font-medium w-6">{opt}.</span>
-                            <span>{optionText}</span>
-                            {isCorrect && <CheckCircle2 className="w-4 h-4 ml-auto" />}
-                            {isSelected && !isCorrect && <XCircle className="w-4 h-4 ml-auto" />}
-                          </div>
-                        );
-                      })}
+                    <div className="flex items-start justify-between gap-4 mb-2">
+                      <div className="flex gap-2 font-medium min-w-0">
+                        <span className="shrink-0">Q{index + 1}.</span>
+                        <RichText text={answer.question.question_text} className="flex-1 min-w-0" />
+                      </div>
+                      <span
+                        className={`text-sm font-medium shrink-0 ${
+                          answer.marks_awarded > 0
+                            ? 'text-success'
+                            : answer.marks_awarded < 0
+                              ? 'text-destructive'
+                              : 'text-muted-foreground'
+                        }`}
+                      >
+                        {formatSignedMarks(answer.marks_awarded)}
+                      </span>
                     </div>
-                    {!answer.selected_option && (
+                    <AnswerReview
+                      question={answer.question}
+                      response={answer.response}
+                      isCorrect={answer.is_correct}
+                    />
+                    {!answer.response && (
                       <p className="text-sm text-warning mt-2">⚠️ Not answered</p>
                     )}
+                    {explanations[answer.id] && (
+                      <div className="flex gap-2 mt-3 p-3 rounded-lg bg-muted text-sm">
+                        <Lightbulb className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+                        <RichText text={explanations[answer.id]} className="flex-1 min-w-0" />
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -252,11 +453,13 @@ export default function ExamResult() {
               Back to Dashboard
             </Button>
           </Link>
-          <Link to={`/student/exam/${result.exam.id}`}>
-            <Button className="w-full sm:w-auto gradient-primary">
-              Retake Exam
-            </Button>
-          </Link>
+          {!examClosed && availability === 'open' && (
+            <Link to={`/student/exam/${result.exam.id}`}>
+              <Button className="w-full sm:w-auto gradient-primary">
+                Retake Exam
+              </Button>
+            </Link>
+          )}
         </div>
       </main>
     </div>
@@ -2,18 +2,28 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useCategories } from '@/hooks/useCategories';
 import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge } from '@/components/ui/badge';
-import { BookOpen, Clock, Trophy, PlayCircle, Loader2 } from 'lucide-react';
+import { BookOpen, Clock, Trophy, PlayCircle, Loader2, CalendarClock, Lock, RotateCcw } from 'lucide-react';
+import { ExamVersionContent, versionQuestionCount } from '@/lib/examStatus';
+import {
+  examClosesAt,
+  ExamSchedule,
+  formatScheduleTime,
+  formatTimeUntil,
+  getExamAvailability,
+} from '@/lib/examSchedule';
+import { attemptsLeft, ExamStanding, retakeAvailableAt, RetakePolicy } from '@/lib/retakePolicy';
 
-interface Exam {
+interface Exam extends ExamSchedule, RetakePolicy {
   id: string;
   title: string;
   description: string | null;
-  category: 'basic' | 'prelims' | 'mains';
+  category_id: string;
   duration_minutes: number;
   question_count?: number;
 }
@@ -32,26 +42,54 @@ export default function StudentDashboard() {
   const { user } = useAuth();
   const [exams, setExams] = useState<Exam[]>([]);
   const [results, setResults] = useState<ExamResult[]>([]);
+  const [openAttemptExamIds, setOpenAttemptExamIds] = useState<string[]>([]);
+  const [standings, setStandings] = useState<Record<string, ExamStanding>>({});
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState('basic');
+  const { categories, categoriesById } = useCategories();
+  // Empty until a tab is picked, which shows the first category
+  const [activeTab, setActiveTab] = useState('');
+  // Ticks so scheduled exams open and close on screen without a reload
+  const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
     fetchData();
   }, [user]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchData = async () => {
     try {
-      // Fetch active exams
+      // Fetch published exams as students will take them: their latest version.
+      // Versions stay hidden until an exam opens, so scheduled exams take the published
+      // settings alone, which still say when they open.
       const { data: examsData } = await supabase
         .from('exams')
-        .select('*, questions(id)')
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
+        .select('id, title, description, category_id, duration_minutes, exam_versions(content)')
+        .eq('status', 'published')
+        .order('created_at', { ascending: false })
+        .order('version', { referencedTable: 'exam_versions', ascending: false })
+        .limit(1, { referencedTable: 'exam_versions' });
+
+      const { data: settingsData } = await supabase
+        .from('published_exam_settings')
+        .select('exam_id, settings');
+
+      const settingsByExam = new Map(
+        (settingsData || []).map(({ exam_id, settings }) => [exam_id, settings as unknown as ExamVersionContent['exam']])
+      );
+
+      // Publishing always creates a version, so every published exam has settings
+      const examsWithCount = examsData?.flatMap(({ exam_versions, ...exam }) => {
+        const settings = settingsByExam.get(exam.id);
+        if (!settings) return [];
+        if (exam_versions.length === 0) return [{ ...exam, ...settings }];
 
-      const examsWithCount = examsData?.map(exam => ({
-        ...exam,
-        question_count: exam.questions?.length || 0,
-      })) || [];
+        const content = exam_versions[0].content as unknown as ExamVersionContent;
+        return [{ ...exam, ...content.exam, question_count: versionQuestionCount(content) }];
+      }) || [];
 
       setExams(examsWithCount);
 
@@ -65,6 +103,24 @@ export default function StudentDashboard() {
           .limit(5);
 
         setResults(resultsData || []);
+
+        // Exams the student started but has not submitted yet
+        const { data: attemptsData } = await supabase
+          .from('exam_attempts')
+          .select('exam_id')
+          .eq('user_id', user.id)
+          .eq('status', 'in_progress')
+          .gt('deadline', new Date().toISOString());
+
+        setOpenAttemptExamIds(attemptsData?.map(a => a.exam_id) || []);
+
+        // Attempts used on each exam, for the retake limits
+        const { data: scoresData } = await supabase
+          .from('exam_scores')
+          .select('exam_id, attempts, last_completed_at')
+          .eq('user_id', user.id);
+
+        setStandings(Object.fromEntries((scoresData || []).map(({ exam_id, ...standing }) => [exam_id, standing])));
       }
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -73,40 +129,15 @@ export default function StudentDashboard() {
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'basic':
-        return 'bg-exam-basic/10 text-exam-basic border-exam-basic/20';
-      case 'prelims':
-        return 'bg-exam-prelims/10 text-exam-prelims border-exam-prelims/20';
-      case 'mains':
-        return 'bg-exam-mains/10 text-exam-mains border-exam-mains/20';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  };
-
-  const getCategoryBgColor = (category: string) => {
-    switch (category) {
-      case 'basic':
-        return 'gradient-primary';
-      case 'prelims':
-        return 'bg-exam-prelims';
-      case 'mains':
-        return 'bg-exam-mains';
-      default:
-        return 'bg-muted';
-    }
-  };
-
-  const filteredExams = exams.filter(exam => exam.category === activeTab);
+  const selectedTab = activeTab || categories[0]?.id || '';
+  const filteredExams = exams.filter(exam => exam.category_id === selectedTab);
 
   const stats = {
     totalAttempts: results.length,
     avgScore: results.length > 0 
-      ? Math.round(results.reduce((acc, r) => acc + (r.correct_answers / r.total_questions) * 100, 0) / results.length)
+      ? Math.round(results.reduce((acc, r) => acc + r.score, 0) / results.length)
       : 0,
-    examsAvailable: exams.length,
+    examsAvailable: exams.filter(exam => getExamAvailability(exam, now) === 'open').length,
   };
 
   if (loading) {
@@ -183,69 +214,121 @@ export default function StudentDashboard() {
             <CardTitle className="font-display">Available Exams</CardTitle>
           </CardHeader>
           <CardContent>
-            <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-3 mb-6">
-                <TabsTrigger value="basic" className="data-[state=active]:bg-exam-basic data-[state=active]:text-exam-basic-foreground">
-                  Basic
-                </TabsTrigger>
-                <TabsTrigger value="prelims" className="data-[state=active]:bg-exam-prelims data-[state=active]:text-white">
-                  Prelims
-                </TabsTrigger>
-                <TabsTrigger value="mains" className="data-[state=active]:bg-exam-mains data-[state=active]:text-white">
-                  Mains
-                </TabsTrigger>
+            <Tabs value={selectedTab} onValueChange={setActiveTab}>
+              <TabsList className="flex flex-wrap h-auto w-full mb-6">
+                {categories.map((category) => (
+                  <TabsTrigger
+                    key={category.id}
+                    value={category.id}
+                    className="flex-1 data-[state=active]:text-white"
+                    style={category.id === selectedTab ? { backgroundColor: category.colour } : undefined}
+                  >
+                    {category.name}
+                  </TabsTrigger>
+                ))}
               </TabsList>
 
-              {['basic', 'prelims', 'mains'].map((category) => (
-                <TabsContent key={category} value={category}>
+              {categories.map((category) => (
+                <TabsContent key={category.id} value={category.id}>
                   {filteredExams.length === 0 ? (
                     <div className="text-center py-12">
                       <BookOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                       <p className="text-muted-foreground">
-                        No {category} exams available yet
+                        No {category.name} exams available yet
                       </p>
                     </div>
                   ) : (
                     <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                      {filteredExams.map((exam) => (
-                        <Card key={exam.id} className="border hover:shadow-soft transition-shadow">
-                          <CardContent className="p-6">
-                            <div className="flex items-start justify-between mb-4">
-                              <div className={`w-12 h-12 rounded-xl ${getCategoryBgColor(exam.category)} flex items-center justify-center`}>
-                                <BookOpen className="w-6 h-6 text-primary-foreground" />
+                      {filteredExams.map((exam) => {
+                        const availability = getExamAvailability(exam, now);
+                        const closesAt = examClosesAt(exam);
+                        const left = attemptsLeft(exam, standings[exam.id]);
+                        const retakeAt = retakeAvailableAt(exam, standings[exam.id]);
+                        // A started attempt can be finished until its own deadline; otherwise say why the exam cannot start
+                        const canResume = openAttemptExamIds.includes(exam.id);
+                        const blockedLabel = canResume ? null
+                          : availability === 'scheduled' ? 'Not Open Yet'
+                          : availability === 'closed' ? 'Closed'
+                          : left === 0 ? 'No Attempts Left'
+                          : retakeAt && retakeAt > now ? `Retake in ${formatTimeUntil(retakeAt, now)}`
+                          : null;
+
+                        return (
+                          <Card key={exam.id} className="border hover:shadow-soft transition-shadow">
+                            <CardContent className="p-6">
+                              <div className="flex items-start justify-between mb-4">
+                                <div
+                                  className="w-12 h-12 rounded-xl flex items-center justify-center"
+                                  style={{ backgroundColor: categoriesById[exam.category_id]?.colour }}
+                                >
+                                  <BookOpen className="w-6 h-6 text-primary-foreground" />
+                                </div>
+                                <CategoryBadge category={categoriesById[exam.category_id]} />
                               </div>
-                              <Badge variant="outline" className={getCategoryColor(exam.category)}>
-                                {exam.category}
-                              </Badge>
-                            </div>
 
-                            <h3 className="font-display font-semibold text-lg mb-2">{exam.title}</h3>
-                            {exam.description && (
-                              <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
-                                {exam.description}
-                              </p>
-                            )}
+                              <h3 className="font-display font-semibold text-lg mb-2">{exam.title}</h3>
+                              {exam.description && (
+                                <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
+                                  {exam.description}
+                                </p>
+                              )}
+
+                              <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
+                                <span className="flex items-center gap-1">
+                                  <Clock className="w-4 h-4" />
+                                  {exam.duration_minutes} min
+                                </span>
+                                {exam.question_count !== undefined && (
+                                  <span className="flex items-center gap-1">
+                                    <BookOpen className="w-4 h-4" />
+                                    {exam.question_count} Q
+                                  </span>
+                                )}
+                                {left !== null && (
+                                  <span className="flex items-center gap-1">
+                                    <RotateCcw className="w-4 h-4" />
+                                    {left} of {exam.max_attempts} left
+                                  </span>
+                                )}
+                              </div>
 
-                            <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
-                              <span className="flex items-center gap-1">
-                                <Clock className="w-4 h-4" />
-                                {exam.duration_minutes} min
-                              </span>
-                              <span className="flex items-center gap-1">
-                                <BookOpen className="w-4 h-4" />
-                                {exam.question_count} Q
-                              </span>
-                            </div>
+                              {availability === 'scheduled' && exam.opens_at && (
+                                <p className="flex items-center gap-1 text-sm text-info mb-4">
+                                  <CalendarClock className="w-4 h-4" />
+                                  Opens in {formatTimeUntil(exam.opens_at, now)} · {formatScheduleTime(exam.opens_at)}
+                                </p>
+                              )}
+                              {availability === 'open' && closesAt && (
+                                <p className="flex items-center gap-1 text-sm text-warning mb-4">
+                                  <CalendarClock className="w-4 h-4" />
+                                  {exam.fixed_start && exam.opens_at
+                                    ? `Started ${formatScheduleTime(exam.opens_at)} · ends ${formatScheduleTime(closesAt)}`
+                                    : `Closes ${formatScheduleTime(closesAt)}`}
+                                </p>
+                              )}
+                              {availability === 'closed' && closesAt && (
+                                <p className="flex items-center gap-1 text-sm text-muted-foreground mb-4">
+                                  <Lock className="w-4 h-4" />
+                                  Closed {formatScheduleTime(closesAt)}
+                                </p>
+                              )}
 
-                            <Link to={`/student/exam/${exam.id}`}>
-                              <Button className="w-full gradient-primary">
-                                <PlayCircle className="w-4 h-4 mr-2" />
-                                Start Exam
-                              </Button>
-                            </Link>
-                          </CardContent>
-                        </Card>
-                      ))}
+                              {blockedLabel ? (
+                                <Button className="w-full" variant="outline" disabled>
+                                  {blockedLabel}
+                                </Button>
+                              ) : (
+                                <Link to={`/student/exam/${exam.id}`}>
+                                  <Button className="w-full gradient-primary">
+                                    <PlayCircle className="w-4 h-4 mr-2" />
+                                    {canResume ? 'Resume Exam' : 'Start Exam'}
+                                  </Button>
+                                </Link>
+                              )}
+                            </CardContent>
+                          </Card>
+                        );
+                      })}
                     </div>
                   )}
                 </TabsContent>
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,24 +16,49 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Trophy, Clock, Eye, Loader2, FileText } from 'lucide-react';
+import { formatMarks } from '@/lib/scoring';
+import { ATTEMPT_SCORING_LABELS, AttemptScoring } from '@/lib/retakePolicy';
+import { getOutcomeColor } from '@/lib/grading';
 
 interface Result {
   id: string;
   score: number;
   total_questions: number;
   correct_answers: number;
+  wrong_answers: number;
+  skipped_answers: number;
+  marks_obtained: number;
+  max_marks: number;
   time_taken_seconds: number | null;
   completed_at: string;
+  grade: string | null;
+  passed: boolean | null;
   exam: {
     id: string;
     title: string;
-    category: string;
+    category: { name: string; colour: string } | null;
+  };
+}
+
+// The score that counts on one exam under its counting rule
+interface CountedScore {
+  exam_id: string;
+  attempt_scoring: AttemptScoring;
+  attempts: number;
+  counted_score: number;
+  counted_result_id: string | null;
+  counted_grade: string | null;
+  counted_passed: boolean | null;
+  max_attempts: number | null;
+  exam: {
+    title: string;
   };
 }
 
 export default function StudentResults() {
   const { user } = useAuth();
   const [results, setResults] = useState<Result[]>([]);
+  const [countedScores, setCountedScores] = useState<CountedScore[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -45,12 +71,21 @@ export default function StudentResults() {
     try {
       const { data, error } = await supabase
         .from('exam_results')
-        .select('*, exam:exams(id, title, category)')
+        .select('*, exam:exams(id, title, category:categories(name, colour))')
         .eq('user_id', user?.id)
         .order('completed_at', { ascending: false });
 
       if (error) throw error;
+
+      const { data: scoresData, error: scoresError } = await supabase
+        .from('exam_scores')
+        .select('exam_id, attempt_scoring, attempts, counted_score, counted_result_id, counted_grade, counted_passed, max_attempts, exam:exams(title)')
+        .eq('user_id', user?.id);
+
+      if (scoresError) throw scoresError;
+
       setResults(data || []);
+      setCountedScores((scoresData || []) as CountedScore[]);
     } catch (error) {
       console.error('Error fetching results:', error);
     } finally {
@@ -58,32 +93,15 @@ export default function StudentResults() {
     }
   };
 
+  // Attempts behind a counted best or latest score; an average counts every attempt
+  const countedResultIds = new Set(countedScores.map(score => score.counted_result_id));
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins}m ${secs}s`;
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'text-success';
-    if (score >= 60) return 'text-info';
-    if (score >= 40) return 'text-warning';
-    return 'text-destructive';
-  };
-
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'basic':
-        return 'bg-exam-basic/10 text-exam-basic border-exam-basic/20';
-      case 'prelims':
-        return 'bg-exam-prelims/10 text-exam-prelims border-exam-prelims/20';
-      case 'mains':
-        return 'bg-exam-mains/10 text-exam-mains border-exam-mains/20';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  };
-
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -97,6 +115,50 @@ export default function StudentResults() {
           </p>
         </div>
 
+        {/* Counted Scores */}
+        {countedScores.length > 0 && (
+          <Card className="shadow-card border-0">
+            <CardHeader>
+              <CardTitle className="font-display">Counted Scores</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Exam</TableHead>
+                      <TableHead>Counts</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Score</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {countedScores.map((score) => (
+                      <TableRow key={score.exam_id}>
+                        <TableCell className="font-medium">{score.exam.title}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {ATTEMPT_SCORING_LABELS[score.attempt_scoring]}
+                        </TableCell>
+                        <TableCell>
+                          {score.max_attempts !== null ? `${score.attempts} of ${score.max_attempts}` : score.attempts}
+                        </TableCell>
+                        <TableCell>
+                          <span className={`font-bold ${getOutcomeColor(score.counted_passed)}`}>
+                            {score.counted_score}%
+                          </span>
+                          {score.counted_grade && (
+                            <span className="ml-2 text-sm text-muted-foreground">{score.counted_grade}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Results Table */}
         <Card className="shadow-card border-0">
           <CardHeader>
@@ -126,7 +188,8 @@ export default function StudentResults() {
                       <TableHead>Exam</TableHead>
                       <TableHead>Category</TableHead>
                       <TableHead>Score</TableHead>
-                      <TableHead>Correct</TableHead>
+                      <TableHead>Marks</TableHead>
+                      <TableHead>Correct / Wrong / Skipped</TableHead>
                       <TableHead>Time</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
@@ -137,17 +200,30 @@ export default function StudentResults() {
                       <TableRow key={result.id}>
                         <TableCell className="font-medium">{result.exam.title}</TableCell>
                         <TableCell>
-                          <Badge variant="outline" className={getCategoryColor(result.exam.category)}>
-                            {result.exam.category}
-                          </Badge>
+                          <CategoryBadge category={result.exam.category} />
                         </TableCell>
                         <TableCell>
-                          <span className={`font-bold ${getScoreColor(result.score)}`}>
+                          <span className={`font-bold ${getOutcomeColor(result.passed)}`}>
                             {result.score}%
                           </span>
+                          {result.grade && (
+                            <span className="ml-2 text-sm text-muted-foreground">{result.grade}</span>
+                          )}
+                          {countedResultIds.has(result.id) && (
+                            <Badge variant="outline" className="ml-2 bg-primary/10 text-primary border-primary/20">
+                              Counted
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatMarks(result.marks_obtained)}/{formatMarks(result.max_marks)}
                         </TableCell>
                         <TableCell>
-                          {result.correct_answers}/{result.total_questions}
+                          <span className="text-success">{result.correct_answers}</span>
+                          {' / '}
+                          <span className="text-destructive">{result.wrong_answers}</span>
+                          {' / '}
+                          <span className="text-muted-foreground">{result.skipped_answers}</span>
                         </TableCell>
                         <TableCell>
                           <span className="flex items-center gap-1 text-muted-foreground">
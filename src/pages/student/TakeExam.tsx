@@ -1,8 +1,8 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -17,26 +17,69 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Clock, ChevronLeft, ChevronRight, Send, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import QuestionResponseInput from '@/components/QuestionResponseInput';
+import RichText from '@/components/RichText';
+import { QuestionResponse, QuestionType } from '@/lib/questionTypes';
+import { formatSignedMarks } from '@/lib/scoring';
+import { ExamVersionContent } from '@/lib/examStatus';
 
 interface Question {
   id: string;
+  question_type: QuestionType;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_option: string;
+  options: string[];
+  marks: number | null;
+  negative_marks: number | null;
+  section_id: string | null;
+  passage_id: string | null;
   order_index: number;
 }
 
+interface Passage {
+  id: string;
+  title: string;
+  content: string;
+}
+
+interface Section {
+  id: string;
+  title: string;
+  duration_minutes: number;
+}
+
 interface Exam {
   id: string;
   title: string;
   description: string | null;
-  category: string;
   duration_minutes: number;
+  marks_per_correct: number;
+  negative_marks: number;
+}
+
+interface Attempt {
+  id: string;
+  deadline: string;
+  // Sectioned exams only: the open section and when it closes
+  sectionIndex: number;
+  sectionDeadline: string | null;
+  // Difference between the server clock and the browser clock, in milliseconds
+  clockOffset: number;
 }
 
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// First and last question index of a section; the whole exam when it has no sections
+const sectionRange = (questions: { section_id: string | null }[], sections: { id: string }[], sectionIndex: number) => {
+  const section = sections[sectionIndex];
+  if (!section) return [0, questions.length - 1];
+
+  const start = questions.findIndex(q => q.section_id === section.id);
+  const count = questions.filter(q => q.section_id === section.id).length;
+  return [start, start + count - 1];
+};
+
 export default function TakeExam() {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -44,57 +87,165 @@ export default function TakeExam() {
 
   const [exam, setExam] = useState<Exam | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [passages, setPassages] = useState<Passage[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
-  const [timeLeft, setTimeLeft] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, QuestionResponse>>({});
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
-  const [startTime] = useState(Date.now());
+  const [showSectionDialog, setShowSectionDialog] = useState(false);
+  const [advancing, setAdvancing] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const autoSubmitted = useRef(false);
+  const lastSavedSnapshot = useRef<string | null>(null);
+  const [sectionStart, sectionEnd] = sectionRange(questions, sections, attempt?.sectionIndex ?? 0);
 
   useEffect(() => {
     fetchExam();
   }, [id]);
 
+  // Derive the countdown from the server deadline so reloading never resets the clock
   useEffect(() => {
-    if (timeLeft <= 0) return;
-
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          handleAutoSubmit();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    if (!attempt) return;
+
+    const deadline = new Date(attempt.sectionDeadline ?? attempt.deadline).getTime();
+    const tick = () => {
+      const serverNow = Date.now() + attempt.clockOffset;
+      setTimeLeft(Math.max(0, Math.ceil((deadline - serverNow) / 1000)));
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
 
     return () => clearInterval(timer);
+  }, [attempt]);
+
+  // Debounced autosave of answers and position so a crashed tab can resume
+  useEffect(() => {
+    if (!attempt || submitting) return;
+
+    const snapshot = JSON.stringify({ answers, currentIndex });
+    if (snapshot === lastSavedSnapshot.current) return;
+
+    const timer = setTimeout(async () => {
+      setSaveStatus('saving');
+
+      const { error } = await supabase.rpc('save_attempt_progress', {
+        _attempt_id: attempt.id,
+        _answers: answers,
+        _current_index: currentIndex,
+      });
+
+      if (error) {
+        console.error('Error saving progress:', error);
+        setSaveStatus('error');
+        return;
+      }
+
+      lastSavedSnapshot.current = snapshot;
+      setSaveStatus('saved');
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [attempt, answers, currentIndex, submitting]);
+
+  useEffect(() => {
+    if (timeLeft !== 0 || !attempt) return;
+
+    // The exam's close time can end the attempt before its remaining sections
+    const sectionEndsEarly = attempt.sectionDeadline !== null
+      && new Date(attempt.sectionDeadline) < new Date(attempt.deadline);
+
+    if (attempt.sectionIndex < sections.length - 1 && sectionEndsEarly) {
+      if (!advancing) {
+        toast.warning('Time is up for this section! Moving to the next one...');
+        advanceSection();
+      }
+    } else if (!autoSubmitted.current) {
+      autoSubmitted.current = true;
+      handleAutoSubmit();
+    }
   }, [timeLeft]);
 
   const fetchExam = async () => {
     try {
-      const { data: examData, error: examError } = await supabase
-        .from('exams')
-        .select('*')
-        .eq('id', id)
-        .eq('is_active', true)
+      // Start a new attempt, or resume the open one, on the version of the exam it was started with
+      const { data: attemptData, error: attemptError } = await supabase
+        .rpc('start_exam_attempt', { _exam_id: id })
         .single();
 
-      if (examError) throw examError;
+      // Explains an exam that is not open yet or has closed
+      if (attemptError) {
+        console.error('Error starting exam:', attemptError);
+        toast.error(attemptError.message);
+        navigate('/student');
+        return;
+      }
+
+      const { data: versionData, error: versionError } = await supabase
+        .from('exam_versions')
+        .select('content')
+        .eq('id', attemptData.exam_version_id)
+        .single();
+
+      if (versionError) throw versionError;
 
       const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
+        .from('exam_questions')
         .select('*')
-        .eq('exam_id', id)
+        .eq('exam_version_id', attemptData.exam_version_id)
         .order('order_index');
 
       if (questionsError) throw questionsError;
 
-      setExam(examData);
-      setQuestions(questionsData || []);
-      setTimeLeft(examData.duration_minutes * 60);
+      // Settings, sections and passages are frozen with the version, so later edits never reach the attempt
+      const version = versionData.content as unknown as ExamVersionContent;
+      const sectionsData = version.sections;
+      setExam({ ...version.exam, id });
+      setSections(sectionsData);
+      setPassages(version.passages);
+
+      // Pooled exams only show the questions drawn for this attempt.
+      // Show questions and options in the attempt's shuffled order, keeping each section a contiguous run.
+      // Answers are saved against the displayed letters and mapped back when graded.
+      const drawnIds = attemptData.question_ids;
+      const questionOrder = attemptData.question_order ?? [];
+      const optionOrders = (attemptData.option_orders ?? {}) as Record<string, number[]>;
+      const sectionOrder = (sectionId: string | null) => sectionsData.findIndex(s => s.id === sectionId);
+      const shownPosition = (questionId: string) => {
+        const position = questionOrder.indexOf(questionId);
+        return position === -1 ? questionOrder.length : position;
+      };
+      const orderedQuestions = questionsData
+        .filter(q => !drawnIds || drawnIds.includes(q.id))
+        .map(q => {
+          const options = q.options as string[];
+          const order = optionOrders[q.id];
+          return { ...q, options: order?.length === options.length ? order.map(i => options[i]) : options };
+        })
+        .sort((a, b) =>
+          sectionOrder(a.section_id) - sectionOrder(b.section_id) || shownPosition(a.id) - shownPosition(b.id)
+        );
+
+      setQuestions(orderedQuestions);
+
+      const savedAnswers = (attemptData.answers ?? {}) as Record<string, QuestionResponse>;
+      const [sectionStart, sectionEnd] = sectionRange(orderedQuestions, sectionsData, attemptData.section_index);
+      const savedIndex = Math.min(Math.max(attemptData.current_index, sectionStart), sectionEnd);
+
+      lastSavedSnapshot.current = JSON.stringify({ answers: savedAnswers, currentIndex: savedIndex });
+      setAnswers(savedAnswers);
+      setCurrentIndex(savedIndex);
+      setAttempt({
+        id: attemptData.id,
+        deadline: attemptData.deadline,
+        sectionIndex: attemptData.section_index,
+        sectionDeadline: attemptData.section_deadline,
+        clockOffset: new Date(attemptData.server_time).getTime() - Date.now(),
+      });
     } catch (error) {
       console.error('Error fetching exam:', error);
       toast.error('Failed to load exam');
@@ -115,62 +266,70 @@ export default function TakeExam() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const selectAnswer = (questionId: string, option: string) => {
-    setAnswers((prev) => ({ ...prev, [questionId]: option }));
+  const selectAnswer = (questionId: string, response: QuestionResponse | null) => {
+    setAnswers((prev) => {
+      const { [questionId]: _previous, ...rest } = prev;
+      return response ? { ...rest, [questionId]: response } : rest;
+    });
   };
 
   const goToQuestion = (index: number) => {
-    if (index >= 0 && index < questions.length) {
+    if (index >= sectionStart && index <= sectionEnd) {
       setCurrentIndex(index);
     }
   };
 
-  const submitExam = async () => {
-    if (!user || !exam) return;
+  const advanceSection = async () => {
+    if (!attempt) return;
 
-    setSubmitting(true);
+    setAdvancing(true);
 
     try {
-      const timeTaken = Math.floor((Date.now() - startTime) / 1000);
-      let correctCount = 0;
-
-      // Calculate score
-      questions.forEach((q) => {
-        if (answers[q.id] === q.correct_option) {
-          correctCount++;
-        }
-      });
-
-      const score = Math.round((correctCount / questions.length) * 100);
-
-      // Save result
-      const { data: result, error: resultError } = await supabase
-        .from('exam_results')
-        .insert({
-          user_id: user.id,
-          exam_id: exam.id,
-          score,
-          total_questions: questions.length,
-          correct_answers: correctCount,
-          time_taken_seconds: timeTaken,
+      // Answers in the section being closed are saved with the move and locked afterwards
+      const { data, error } = await supabase
+        .rpc('advance_attempt_section', {
+          _attempt_id: attempt.id,
+          _answers: answers,
+          _section_index: attempt.sectionIndex,
         })
-        .select('id')
         .single();
 
-      if (resultError) throw resultError;
+      if (error) throw error;
 
-      // Save individual answers
-      const answersToInsert = questions.map((q) => ({
-        result_id: result.id,
-        question_id: q.id,
-        selected_option: answers[q.id] || null,
-        is_correct: answers[q.id] === q.correct_option,
-      }));
+      const [nextStart] = sectionRange(questions, sections, data.section_index);
+      setCurrentIndex(nextStart);
+      setTimeLeft(null);
+      setAttempt({
+        ...attempt,
+        deadline: data.deadline,
+        sectionIndex: data.section_index,
+        sectionDeadline: data.section_deadline,
+      });
+    } catch (error) {
+      console.error('Error moving to next section:', error);
+      toast.error('Failed to move to the next section');
+    } finally {
+      setAdvancing(false);
+      setShowSectionDialog(false);
+    }
+  };
+
+  const submitExam = async () => {
+    if (!user || !exam || !attempt) return;
+
+    setSubmitting(true);
+
+    try {
+      // Grading and deadline checks happen server-side so the answer key never reaches the browser
+      const { data: resultId, error: submitError } = await supabase.rpc('submit_exam', {
+        _attempt_id: attempt.id,
+        _answers: answers,
+      });
 
-      await supabase.from('student_answers').insert(answersToInsert);
+      if (submitError) throw submitError;
 
       toast.success('Exam submitted successfully!');
-      navigate(`/student/result/${result.id}`);
+      navigate(`/student/result/${resultId}`);
     } catch (error) {
       console.error('Error submitting exam:', error);
       toast.error('Failed to submit exam');
@@ -198,12 +357,24 @@ export default function TakeExam() {
     );
   }
 
+  const currentSection = attempt && sections.length > 0 ? sections[attempt.sectionIndex] : null;
+  const isLastSection = !attempt || attempt.sectionIndex >= sections.length - 1;
+  const sectionQuestions = questions.slice(sectionStart, sectionEnd + 1);
   const currentQuestion = questions[currentIndex];
+  const currentPassage = passages.find(p => p.id === currentQuestion.passage_id);
+  const passageQuestionNumbers = currentPassage
+    ? questions.map((q, index) => (q.passage_id === currentPassage.id ? index + 1 : null)).filter(Boolean)
+    : [];
+  const questionMarks = currentQuestion.marks ?? exam.marks_per_correct;
+  const questionPenalty = currentQuestion.negative_marks ?? exam.negative_marks;
   const answeredCount = Object.keys(answers).length;
   const progress = (answeredCount / questions.length) * 100;
 
+  const timedSeconds = (currentSection?.duration_minutes ?? exam.duration_minutes) * 60;
+  const secondsLeft = timeLeft ?? timedSeconds;
+
   const getTimerColor = () => {
-    const percentage = timeLeft / (exam.duration_minutes * 60);
+    const percentage = secondsLeft / timedSeconds;
     if (percentage > 0.5) return 'text-success';
     if (percentage > 0.25) return 'text-warning';
     return 'text-destructive';
@@ -217,16 +388,22 @@ export default function TakeExam() {
           <div>
             <h1 className="font-display font-semibold text-foreground">{exam.title}</h1>
             <p className="text-xs text-muted-foreground">
+              {currentSection && attempt && (
+                <>Section {attempt.sectionIndex + 1} of {sections.length}: {currentSection.title} · </>
+              )}
               Question {currentIndex + 1} of {questions.length}
+              {saveStatus === 'saving' && ' · Saving...'}
+              {saveStatus === 'saved' && ' · All answers saved'}
+              {saveStatus === 'error' && <span className="text-destructive"> · Not saved</span>}
             </p>
           </div>
 
           <div className={`flex items-center gap-2 text-lg font-mono font-bold ${getTimerColor()}`}>
             <div className="relative">
               <Clock className="w-5 h-5" />
-              {timeLeft < 60 && <span className="absolute -top-1 -right-1 w-2 h-2 bg-destructive rounded-full timer-pulse" />}
+              {secondsLeft < 60 && <span className="absolute -top-1 -right-1 w-2 h-2 bg-destructive rounded-full timer-pulse" />}
             </div>
-            {formatTime(timeLeft)}
+            {formatTime(secondsLeft)}
           </div>
         </div>
       </header>
@@ -238,70 +415,78 @@ export default function TakeExam() {
 
       {/* Main Content */}
       <main className="pt-20 pb-24 px-4">
-        <div className="max-w-3xl mx-auto">
-          {/* Question Card */}
-          <Card className="shadow-card border-0 mb-6 animate-fade-in">
-            <CardHeader>
-              <CardTitle className="text-lg font-display">
-                Q{currentIndex + 1}. {currentQuestion.question_text}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {(['A', 'B', 'C', 'D'] as const).map((option) => {
-                const optionText = currentQuestion[`option_${option.toLowerCase()}` as keyof Question] as string;
-                const isSelected = answers[currentQuestion.id] === option;
-
-                return (
-                  <button
-                    key={option}
-                    onClick={() => selectAnswer(currentQuestion.id, option)}
-                    className={`w-full p-4 rounded-lg border-2 text-left transition-all flex items-center gap-3 ${
-                      isSelected
-                        ? 'border-primary bg-primary/5'
-                        : 'border-border hover:border-primary/50 hover:bg-muted/50'
-                    }`}
-                  >
-                    <span
-                      className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-medium shrink-0 ${
-                        isSelected
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted text-muted-foreground'
-                      }`}
-                    >
-                      {option}
-                    </span>
-                    <span className={isSelected ? 'text-foreground font-medium' : 'text-foreground'}>
-                      {optionText}
-                    </span>
-                  </button>
-                );
-              })}
-            </CardContent>
-          </Card>
-
-          {/* Question Navigator */}
-          <Card className="shadow-soft border-0">
-            <CardContent className="p-4">
-              <p className="text-sm text-muted-foreground mb-3">Question Navigator</p>
-              <div className="flex flex-wrap gap-2">
-                {questions.map((q, index) => (
-                  <button
-                    key={q.id}
-                    onClick={() => goToQuestion(index)}
-                    className={`w-10 h-10 rounded-lg text-sm font-medium transition-all ${
-                      index === currentIndex
-                        ? 'gradient-primary text-primary-foreground'
-                        : answers[q.id]
-                        ? 'bg-success/20 text-success border border-success/30'
-                        : 'bg-muted text-muted-foreground hover:bg-muted/80'
-                    }`}
-                  >
-                    {index + 1}
-                  </button>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+        <div className={currentPassage ? 'max-w-6xl mx-auto grid gap-6 lg:grid-cols-2 items-start' : 'max-w-3xl mx-auto'}>
+          {/* Passage, beside the question on wide screens */}
+          {currentPassage && (
+            <Card className="shadow-card border-0 animate-fade-in lg:sticky lg:top-24">
+              <CardHeader className="pb-3">
+                <p className="font-display font-semibold text-foreground">{currentPassage.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  Use this passage for question{passageQuestionNumbers.length === 1 ? '' : 's'}{' '}
+                  {passageQuestionNumbers.join(', ')}
+                </p>
+              </CardHeader>
+              <CardContent>
+                <RichText
+                  text={currentPassage.content}
+                  className="lg:max-h-[calc(100vh-14rem)] lg:overflow-y-auto pr-1"
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <div>
+            {/* Question Card */}
+            <Card className="shadow-card border-0 mb-6 animate-fade-in">
+              <CardHeader>
+                <div className="flex gap-2 text-lg font-display font-semibold leading-snug">
+                  <span className="shrink-0">Q{currentIndex + 1}.</span>
+                  <RichText text={currentQuestion.question_text} className="flex-1 min-w-0" />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {formatSignedMarks(questionMarks)} if correct
+                  {questionPenalty > 0 && `, ${formatSignedMarks(-questionPenalty)} if wrong`}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <QuestionResponseInput
+                  key={currentQuestion.id}
+                  question={currentQuestion}
+                  response={answers[currentQuestion.id]}
+                  onChange={(response) => selectAnswer(currentQuestion.id, response)}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Question Navigator */}
+            <Card className="shadow-soft border-0">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground mb-3">
+                  {currentSection ? `${currentSection.title} Questions` : 'Question Navigator'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {sectionQuestions.map((q, offset) => {
+                    const index = sectionStart + offset;
+                    return (
+                      <button
+                        key={q.id}
+                        onClick={() => goToQuestion(index)}
+                        className={`w-10 h-10 rounded-lg text-sm font-medium transition-all ${
+                          index === currentIndex
+                            ? 'gradient-primary text-primary-foreground'
+                            : answers[q.id]
+                            ? 'bg-success/20 text-success border border-success/30'
+                            : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                        }`}
+                      >
+                        {index + 1}
+                      </button>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
         </div>
       </main>
 
@@ -311,7 +496,7 @@ export default function TakeExam() {
           <Button
             variant="outline"
             onClick={() => goToQuestion(currentIndex - 1)}
-            disabled={currentIndex === 0}
+            disabled={currentIndex === sectionStart}
           >
             <ChevronLeft className="w-4 h-4 mr-2" />
             Previous
@@ -321,7 +506,12 @@ export default function TakeExam() {
             {answeredCount}/{questions.length} answered
           </div>
 
-          {currentIndex === questions.length - 1 ? (
+          {currentIndex === sectionEnd && !isLastSection ? (
+            <Button onClick={() => setShowSectionDialog(true)} className="gradient-primary">
+              Next Section
+              <ChevronRight className="w-4 h-4 ml-2" />
+            </Button>
+          ) : currentIndex === sectionEnd ? (
             <Button
               onClick={() => setShowSubmitDialog(true)}
               className="gradient-primary"
@@ -338,6 +528,39 @@ export default function TakeExam() {
         </div>
       </footer>
 
+      {/* Next Section Confirmation Dialog */}
+      <AlertDialog open={showSectionDialog} onOpenChange={setShowSectionDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move to the next section?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You won't be able to return to {currentSection?.title} or change its answers, and its remaining
+              time is not carried over.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay in Section</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                advanceSection();
+              }}
+              className="gradient-primary"
+              disabled={advancing}
+            >
+              {advancing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Moving...
+                </>
+              ) : (
+                'Next Section'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Submit Confirmation Dialog */}
       <AlertDialog open={showSubmitDialog} onOpenChange={setShowSubmitDialog}>
         <AlertDialogContent>
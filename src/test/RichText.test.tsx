@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import RichText from "@/components/RichText";
+import { ImageStorageProvider } from "@/hooks/useImageStorage";
+import { createLocalImageStorage, getImageError, imageMarkdown } from "@/lib/imageStorage";
+
+describe("RichText", () => {
+  it("renders maths with KaTeX and highlights fenced code", () => {
+    const { container } = render(
+      <RichText text={"Solve $x^2 = 4$\n\n```python\nprint(x)\n```"} />
+    );
+
+    expect(container.querySelector(".katex")).not.toBeNull();
+    expect(container.querySelector("pre code.language-python .hljs-built_in")?.textContent).toBe("print");
+  });
+
+  it("does not render raw HTML or remote images", () => {
+    const { container } = render(
+      <RichText text={'<script>alert(1)</script><b onclick="x()">bold</b> ![cat](https://example.com/cat.png)'} />
+    );
+
+    expect(container.querySelector("script, b, img")).toBeNull();
+    expect(container.textContent).toContain("cat");
+  });
+
+  it("keeps inline text inside a span", () => {
+    const { container } = render(<RichText inline text="**A** and `b`" />);
+
+    expect(container.querySelector("p, div")).toBeNull();
+    expect(container.querySelector("strong")?.textContent).toBe("A");
+  });
+
+  it("shows uploaded images from storage with their alt text", async () => {
+    const storage = createLocalImageStorage();
+    const path = await storage.upload(new File(["png"], "chart.png", { type: "image/png" }));
+    const { getByAltText } = render(
+      <ImageStorageProvider storage={storage}>
+        <RichText text={`Study the chart.\n\n${imageMarkdown("Rainfall [mm] by month", path)}`} />
+      </ImageStorageProvider>
+    );
+
+    expect(getByAltText("Rainfall [mm] by month").getAttribute("src")).toBe(storage.url(path));
+  });
+});
+
+describe("getImageError", () => {
+  it("accepts web images up to 5 MB", () => {
+    expect(getImageError(new File(["x"], "a.webp", { type: "image/webp" }))).toBeNull();
+    expect(getImageError(new File(["<svg/>"], "a.svg", { type: "image/svg+xml" }))).not.toBeNull();
+    expect(getImageError(new File([new Uint8Array(5 * 1024 * 1024 + 1)], "a.png", { type: "image/png" }))).not.toBeNull();
+  });
+});
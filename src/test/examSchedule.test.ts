@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { examClosesAt, getExamAvailability } from "@/lib/examSchedule";
+
+const schedule = (opens_at: string | null, closes_at: string | null, fixed_start = false) => ({
+  opens_at,
+  closes_at,
+  fixed_start,
+  duration_minutes: 120,
+});
+
+describe("getExamAvailability", () => {
+  const now = new Date("2026-05-24T11:00:00Z");
+
+  it("is open without a schedule", () => {
+    expect(getExamAvailability(schedule(null, null), now)).toBe("open");
+  });
+
+  it("follows the opening and closing times", () => {
+    expect(getExamAvailability(schedule("2026-05-24T12:00:00Z", null), now)).toBe("scheduled");
+    expect(getExamAvailability(schedule("2026-05-24T10:00:00Z", "2026-05-24T12:00:00Z"), now)).toBe("open");
+    expect(getExamAvailability(schedule(null, "2026-05-24T11:00:00Z"), now)).toBe("closed");
+  });
+
+  it("closes a fixed-start sitting once its time has run out", () => {
+    const sitting = schedule("2026-05-24T08:30:00Z", null, true);
+
+    expect(examClosesAt(sitting)).toEqual(new Date("2026-05-24T10:30:00Z"));
+    expect(getExamAvailability(sitting, now)).toBe("closed");
+    expect(examClosesAt(schedule("2026-05-24T10:00:00Z", "2026-05-24T11:30:00Z", true))).toEqual(
+      new Date("2026-05-24T11:30:00Z")
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { ExamVersionContent, versionQuestionCount } from "@/lib/examStatus";
+
+const questions = [
+  { id: "q1", revision_id: "r1" },
+  { id: "q2", revision_id: "r2" },
+  { id: "q3", revision_id: "r3" },
+];
+
+describe("versionQuestionCount", () => {
+  it("counts the frozen questions of an exam without a pool", () => {
+    expect(versionQuestionCount({ exam: { draw_count: null }, questions } as ExamVersionContent)).toBe(3);
+    expect(versionQuestionCount({ exam: { draw_count: null }, questions: [] } as ExamVersionContent)).toBe(0);
+  });
+
+  it("counts what one attempt draws, not the size of the pool", () => {
+    expect(versionQuestionCount({ exam: { draw_count: 2 }, questions } as ExamVersionContent)).toBe(2);
+    expect(versionQuestionCount({ exam: { draw_count: 3 }, questions } as ExamVersionContent)).toBe(3);
+  });
+});
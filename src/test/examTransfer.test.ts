@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { examDocumentFileName, parseExamDocument, questionContentKey } from "@/lib/examTransfer";
+
+const exportedExam = (overrides: Record<string, unknown> = {}) => ({
+  format: "mock-exam",
+  version: 2,
+  exam: {
+    title: "Algebra Mock 1",
+    description: null,
+    category: "basic",
+    duration_minutes: 40,
+    marks_per_correct: 1,
+    negative_marks: 0.25,
+  },
+  questions: [
+    {
+      question_type: "single_choice",
+      question_text: "2 + 2 = ?",
+      options: ["3", "4"],
+      answer: { option: "B" },
+      explanation: "Two pairs make four.",
+    },
+    {
+      question_type: "numeric",
+      question_text: "g in m/s²?",
+      answer: { value: 9.81, tolerance: 0.05 },
+    },
+  ],
+  ...overrides,
+});
+
+describe("parseExamDocument", () => {
+  it("accepts an exported exam and fills in defaults", () => {
+    const { document, errors } = parseExamDocument(JSON.stringify(exportedExam()));
+
+    expect(errors).toBeNull();
+    expect(document?.exam.show_explanations).toBe("immediately");
+    expect(document?.sections).toEqual([]);
+    expect(document?.questions[1]).toMatchObject({ options: [], tags: [], section: null, marks: null });
+  });
+
+  it("reports invalid questions with their position", () => {
+    const exam = exportedExam();
+    exam.questions[0].answer = { option: "E" };
+    const { errors } = parseExamDocument(JSON.stringify(exam));
+
+    expect(errors).toEqual(["questions[1]: The correct answer must be one of the options"]);
+  });
+
+  it("rejects other files and newer versions", () => {
+    expect(parseExamDocument("{").errors).toEqual(["The file is not valid JSON"]);
+    expect(parseExamDocument(JSON.stringify({ title: "x" })).errors).toEqual(["The file is not an exported exam"]);
+    expect(parseExamDocument(JSON.stringify(exportedExam({ version: 3 }))).errors?.[0]).toMatch(/version 3/);
+  });
+
+  it("requires sections referenced by questions to exist", () => {
+    const exam = exportedExam({ sections: [{ title: "Part A", duration_minutes: 10 }] });
+    const { errors } = parseExamDocument(JSON.stringify(exam));
+
+    expect(errors).toEqual(["questions: Every question needs a section"]);
+  });
+
+  it("reads version 1 files, which have no passages", () => {
+    const { document, errors } = parseExamDocument(JSON.stringify(exportedExam({ version: 1 })));
+
+    expect(errors).toBeNull();
+    expect(document?.passages).toEqual([]);
+    expect(document?.questions[0].passage).toBeNull();
+  });
+
+  it("requires passages referenced by questions to exist", () => {
+    const { questions } = exportedExam();
+    const exam = exportedExam({ questions: [questions[0], { ...questions[1], passage: 0 }] });
+    const { errors } = parseExamDocument(JSON.stringify(exam));
+
+    expect(errors).toEqual(["questions[2].passage: No such passage"]);
+  });
+
+  it("round-trips the availability window", () => {
+    const exam = exportedExam();
+    const schedule = { opens_at: "2026-05-24T10:00:00+00:00", closes_at: "2026-05-24T12:00:00+00:00", fixed_start: true };
+    const { document } = parseExamDocument(JSON.stringify({ ...exam, exam: { ...exam.exam, ...schedule } }));
+
+    expect(document?.exam).toMatchObject(schedule);
+    expect(parseExamDocument(JSON.stringify(document)).document).toEqual(document);
+  });
+
+  it("rejects a window that closes before it opens or a fixed start without an opening time", () => {
+    const exam = exportedExam();
+    const { errors } = parseExamDocument(JSON.stringify({
+      ...exam,
+      exam: { ...exam.exam, closes_at: "2026-05-24T10:00:00Z", fixed_start: true },
+    }));
+    const { errors: windowErrors } = parseExamDocument(JSON.stringify({
+      ...exam,
+      exam: { ...exam.exam, opens_at: "2026-05-24T12:00:00Z", closes_at: "2026-05-24T10:00:00Z" },
+    }));
+
+    expect(errors).toEqual(["exam.fixed_start: A fixed start needs opens_at"]);
+    expect(windowErrors).toEqual(["exam.closes_at: Must be after opens_at"]);
+  });
+
+  it("round-trips the retake policy and defaults to unlimited attempts", () => {
+    const exam = exportedExam();
+    const policy = { max_attempts: 3, attempt_cooldown_minutes: 90, attempt_scoring: "average" };
+    const { document } = parseExamDocument(JSON.stringify({ ...exam, exam: { ...exam.exam, ...policy } }));
+
+    expect(document?.exam).toMatchObject(policy);
+    expect(parseExamDocument(JSON.stringify(document)).document).toEqual(document);
+    expect(parseExamDocument(JSON.stringify(exam)).document?.exam).toMatchObject({
+      max_attempts: null,
+      attempt_cooldown_minutes: 0,
+      attempt_scoring: "best",
+    });
+  });
+
+  it("round-trips the pass mark and grade bands, leaving unset ones to the category", () => {
+    const exam = exportedExam();
+    const grading = { pass_mark: 50, grade_bands: [{ name: "Merit", min_score: 65 }, { name: "Pass", min_score: 50 }] };
+    const { document } = parseExamDocument(JSON.stringify({ ...exam, exam: { ...exam.exam, ...grading } }));
+
+    expect(document?.exam).toMatchObject(grading);
+    expect(parseExamDocument(JSON.stringify(document)).document).toEqual(document);
+    expect(parseExamDocument(JSON.stringify(exam)).document?.exam).toMatchObject({ pass_mark: null, grade_bands: null });
+  });
+
+  it("checks grading like the exam editor", () => {
+    const exam = exportedExam();
+    const { errors } = parseExamDocument(JSON.stringify({
+      ...exam,
+      exam: { ...exam.exam, pass_mark: 101, grade_bands: [{ name: "A", min_score: 50 }, { name: "B", min_score: 50 }] },
+    }));
+
+    expect(errors).toEqual([
+      "exam.pass_mark: Pass mark must be a whole percentage from 0 to 100",
+      "exam.grade_bands: Each grade band needs a different minimum score",
+    ]);
+  });
+
+  it("round-trips passages and the questions that share them", () => {
+    const exam = exportedExam({
+      passages: [{ title: "Table 1", content: "| x | y |\n| 1 | 2 |" }],
+      questions: exportedExam().questions.map((question) => ({ ...question, passage: 0 })),
+    });
+    const { document } = parseExamDocument(JSON.stringify(exam));
+
+    expect(document?.passages).toEqual([{ title: "Table 1", content: "| x | y |\n| 1 | 2 |" }]);
+    expect(document?.questions.map((q) => q.passage)).toEqual([0, 0]);
+    expect(parseExamDocument(JSON.stringify(document)).document).toEqual(document);
+  });
+});
+
+describe("questionContentKey", () => {
+  it("ignores the order correct options were marked in", () => {
+    const question = { question_type: "multiple_choice" as const, question_text: "Primes?", options: ["2", "4", "5"] };
+
+    expect(questionContentKey({ ...question, answer: { options: ["C", "A"] } })).toBe(
+      questionContentKey({ ...question, answer: { options: ["A", "C"] } })
+    );
+  });
+});
+
+describe("examDocumentFileName", () => {
+  it("slugifies the exam title", () => {
+    expect(examDocumentFileName("Algebra: Mock #1")).toBe("algebra-mock-1.json");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { getGradeBandsError, gradeFor, resolveGrading } from "@/lib/grading";
+
+const bands = [
+  { name: "Pass", min_score: 40 },
+  { name: "Distinction", min_score: 75 },
+  { name: "Merit", min_score: 60 },
+];
+
+describe("gradeFor", () => {
+  it("gives the highest band a score reaches", () => {
+    expect(gradeFor(75, bands)).toBe("Distinction");
+    expect(gradeFor(74, bands)).toBe("Merit");
+    expect(gradeFor(40, bands)).toBe("Pass");
+  });
+
+  it("has no grade below every band", () => {
+    expect(gradeFor(39, bands)).toBeNull();
+    expect(gradeFor(90, [])).toBeNull();
+  });
+});
+
+describe("resolveGrading", () => {
+  const category = { pass_mark: 50, grade_bands: bands };
+
+  it("falls back to the category for whatever the exam leaves unset", () => {
+    expect(resolveGrading({ pass_mark: null, grade_bands: null }, category)).toEqual({
+      pass_mark: 50,
+      grade_bands: [bands[1], bands[2], bands[0]],
+    });
+    expect(resolveGrading({ pass_mark: 70, grade_bands: [] }, category)).toEqual({
+      pass_mark: 70,
+      grade_bands: [],
+    });
+  });
+});
+
+describe("getGradeBandsError", () => {
+  it("accepts distinct named bands", () => {
+    expect(getGradeBandsError(bands)).toBeNull();
+  });
+
+  it("rejects blank names, repeated minimums and scores outside 0 to 100", () => {
+    expect(getGradeBandsError([{ name: " ", min_score: 10 }])).toMatch(/name/);
+    expect(getGradeBandsError([{ name: "A", min_score: 50 }, { name: "B", min_score: 50 }])).toMatch(/different minimum/);
+    expect(getGradeBandsError([{ name: "A", min_score: 101 }])).toMatch(/0 to 100/);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { parseExamDocument } from "@/lib/examTransfer";
+import { exportExam } from "@/lib/interop";
+import { parseGift, toGift } from "@/lib/gift";
+import { parseMoodleXml, toMoodleXml } from "@/lib/moodleXml";
+import { parseQtiItem, parseQtiPackage, toQtiPackage } from "@/lib/qti";
+import { createZip, readZip } from "@/lib/zip";
+
+const { document: exam } = parseExamDocument(JSON.stringify({
+  format: "mock-exam",
+  version: 1,
+  exam: {
+    title: "Physics Mock",
+    description: null,
+    category: "basic",
+    duration_minutes: 30,
+    marks_per_correct: 2,
+    negative_marks: 0.5,
+  },
+  questions: [
+    {
+      question_type: "single_choice",
+      question_text: "Unit of force?",
+      options: ["Joule", "Newton", "Watt"],
+      answer: { option: "B" },
+      explanation: "F = ma, measured in newtons.",
+      topic: "Mechanics",
+      tags: ["units"],
+    },
+    {
+      question_type: "multiple_choice",
+      question_text: "Which are vectors?",
+      options: ["Speed", "Velocity", "Force"],
+      answer: { options: ["B", "C"] },
+      topic: "Mechanics",
+    },
+    { question_type: "true_false", question_text: "Light is a wave: {yes}", answer: { value: true } },
+    { question_type: "numeric", question_text: "g in m/s²?", answer: { value: 9.81, tolerance: 0.05 } },
+    {
+      question_type: "short_text",
+      question_text: "Symbol for current?",
+      answer: { accepted: ["I", "i"], case_sensitive: false },
+    },
+  ],
+}));
+
+const questionsOf = (result: { rows: { question: unknown; error: string | null }[] }) =>
+  result.rows.map((row) => row.question);
+
+describe("GIFT", () => {
+  it("parses the common question types and reports the rest", () => {
+    const { rows, error } = parseGift([
+      "// a comment",
+      "$CATEGORY: $course$/Physics/Optics",
+      "",
+      "::Q1:: Which colour bends most? {=Violet ~Red ~Green####Shorter wavelengths refract more.}",
+      "",
+      "Water boils at 100 \\{C\\}. {T}",
+      "",
+      "Speed of light (Mm/s)? {#299.79:0.01}",
+      "",
+      "Describe refraction. {}",
+      "",
+      "Match them. {=a -> 1 =b -> 2}",
+    ].join("\n"));
+
+    expect(error).toBeNull();
+    expect(rows[0].question).toMatchObject({
+      question_type: "single_choice",
+      options: ["Violet", "Red", "Green"],
+      answer: { option: "A" },
+      topic: "Optics",
+      explanation: "Shorter wavelengths refract more.",
+    });
+    expect(rows[1].question).toMatchObject({ question_text: "Water boils at 100 {C}.", answer: { value: true } });
+    expect(rows[2].question.answer).toEqual({ value: 299.79, tolerance: 0.01 });
+    expect(rows[3]).toMatchObject({ unsupported: "Essay", error: "Essay questions are not supported" });
+    expect(rows[4].unsupported).toBe("Matching");
+  });
+
+  it("round-trips an exported exam and reports what GIFT drops", () => {
+    const { content, unmapped } = toGift(exam!);
+    const { rows, error } = parseGift(content);
+
+    expect(error).toBeNull();
+    expect(rows.every((row) => row.error === null)).toBe(true);
+    expect(questionsOf({ rows })).toMatchObject(exam!.questions.map(
+      ({ question_type, question_text, options, answer }) => ({ question_type, question_text, options, answer })
+    ));
+    expect(unmapped).toEqual(expect.arrayContaining(["Negative marking", "Marks per question", "Question tags"]));
+  });
+});
+
+describe("Moodle XML", () => {
+  it("round-trips an exported exam with topics, tags and explanations", () => {
+    const { content, unmapped } = toMoodleXml(exam!);
+    const { rows, error } = parseMoodleXml(content);
+
+    expect(error).toBeNull();
+    expect(rows[0].question).toMatchObject({
+      question_type: "single_choice",
+      topic: "Mechanics",
+      tags: ["units"],
+      explanation: "F = ma, measured in newtons.",
+    });
+    expect(questionsOf({ rows })).toMatchObject(exam!.questions.map(
+      ({ question_type, question_text, options, answer }) => ({ question_type, question_text, options, answer })
+    ));
+    expect(unmapped).not.toContain("Question tags");
+  });
+
+  it("reports question types with no equivalent", () => {
+    const { rows } = parseMoodleXml(
+      '<quiz><question type="essay"><questiontext format="html"><text><![CDATA[<p>Discuss.</p>]]></text></questiontext></question></quiz>'
+    );
+
+    expect(rows[0]).toMatchObject({ unsupported: "Essay", question: { question_text: "Discuss." } });
+  });
+});
+
+describe("QTI 2.1", () => {
+  it("reads a single choice item", () => {
+    const { rows } = parseQtiItem(`<?xml version="1.0"?>
+      <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q" title="q">
+        <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+          <correctResponse><value>ChoiceB</value></correctResponse>
+        </responseDeclaration>
+        <itemBody>
+          <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+            <prompt>Largest planet?</prompt>
+            <simpleChoice identifier="ChoiceA">Mars</simpleChoice>
+            <simpleChoice identifier="ChoiceB">Jupiter</simpleChoice>
+          </choiceInteraction>
+        </itemBody>
+      </assessmentItem>`);
+
+    expect(rows[0]).toMatchObject({
+      error: null,
+      question: { question_type: "single_choice", question_text: "Largest planet?", options: ["Mars", "Jupiter"], answer: { option: "B" } },
+    });
+  });
+
+  it("round-trips an exported exam through a content package", async () => {
+    const { content } = toQtiPackage(exam!);
+    const { rows, error } = await parseQtiPackage(content);
+
+    expect(error).toBeNull();
+    expect(questionsOf({ rows })).toMatchObject(exam!.questions.map(
+      ({ question_type, question_text, options, answer }) => ({ question_type, question_text, options, answer })
+    ));
+  });
+});
+
+describe("exam file (JSON)", () => {
+  it("reports only uploaded images as left behind", () => {
+    expect(exportExam(exam!, "json").unmapped).toEqual([]);
+
+    const withImage = {
+      ...exam!,
+      questions: [{ ...exam!.questions[0], explanation: "See ![diagram](image:abc/force.png)" }],
+    };
+    expect(exportExam(withImage, "json").unmapped).toEqual([
+      "Uploaded images (left as links to this project's storage)",
+    ]);
+  });
+});
+
+describe("zip", () => {
+  it("reads back the files it writes", async () => {
+    const files = await readZip(createZip([
+      { name: "a.txt", content: "hello" },
+      { name: "dir/ü.xml", content: "<x/>" },
+    ]));
+
+    expect([...files.entries()]).toEqual([["a.txt", "hello"], ["dir/ü.xml", "<x/>"]]);
+  });
+});
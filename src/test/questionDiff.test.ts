@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { diffQuestions } from "@/lib/questionDiff";
+
+const question = (id: string | undefined, text: string, order_index: number) => ({
+  id,
+  question_text: text,
+  correct_option: "A",
+  order_index,
+});
+
+describe("diffQuestions", () => {
+  it("leaves unchanged questions out of every bucket", () => {
+    const original = [question("q1", "One", 0), question("q2", "Two", 1)];
+    const diff = diffQuestions(original, original.map((q) => ({ ...q })));
+
+    expect(diff).toEqual({ toInsert: [], toUpdate: [], toDelete: [] });
+  });
+
+  it("splits edits into inserts, updates and deletes", () => {
+    const original = [question("q1", "One", 0), question("q2", "Two", 1), question("q3", "Three", 2)];
+    const current = [question("q1", "One (fixed typo)", 0), question("q3", "Three", 1), question(undefined, "Four", 2)];
+
+    const diff = diffQuestions(original, current);
+
+    expect(diff.toInsert.map((q) => q.question_text)).toEqual(["Four"]);
+    expect(diff.toUpdate.map((q) => q.id)).toEqual(["q1", "q3"]);
+    expect(diff.toDelete).toEqual(["q2"]);
+  });
+});
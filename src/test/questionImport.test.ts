@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { IMPORT_TEMPLATE, parseDelimited, parseQuestionImport } from "@/lib/questionImport";
+
+describe("parseDelimited", () => {
+  it("handles quoted delimiters, line breaks and doubled quotes", () => {
+    const text = 'question,answer\r\n"Pick one, please","Say ""hi""\nthen go"\n\n';
+
+    expect(parseDelimited(text, ",")).toEqual([
+      ["question", "answer"],
+      ["Pick one, please", 'Say "hi"\nthen go'],
+    ]);
+  });
+});
+
+describe("parseQuestionImport", () => {
+  it("parses the template without errors", () => {
+    const { rows, error } = parseQuestionImport(IMPORT_TEMPLATE);
+
+    expect(error).toBeNull();
+    expect(rows.map((r) => r.error)).toEqual([null, null, null]);
+    expect(rows[0].question).toMatchObject({
+      question_type: "single_choice",
+      options: ["3", "4", "5"],
+      answer: { option: "B" },
+      tags: ["basics"],
+      difficulty: "easy",
+    });
+    expect(rows[2].question.answer).toEqual({ value: 9.81, tolerance: 0.05 });
+  });
+
+  it("infers the type from the options and answer", () => {
+    const text = [
+      "Question\tOptions\tAnswer",
+      "Primes?\t2|4|5\tA|C",
+      "Capital of France?\t\tParis|Paris, France",
+    ].join("\n");
+    const { rows } = parseQuestionImport(text);
+
+    expect(rows[0].question.question_type).toBe("multiple_choice");
+    expect(rows[0].question.answer).toEqual({ options: ["A", "C"] });
+    expect(rows[1].question.question_type).toBe("short_text");
+    expect(rows[1].question.answer).toEqual({ accepted: ["Paris", "Paris, France"], case_sensitive: false });
+  });
+
+  it("reports the same problems as the editor, per row", () => {
+    const text = [
+      "question,type,options,answer",
+      ",single_choice,Yes|No,A",
+      "Pick one,single_choice,Yes|No,D",
+      "Is it?,true_false,,maybe",
+      "Odd,essay,,",
+    ].join("\n");
+    const { rows } = parseQuestionImport(text);
+
+    expect(rows.map((r) => r.error)).toEqual([
+      "Question text is required",
+      "The correct answer must be one of the options",
+      "The answer must be true or false",
+      'Unknown question type "essay"',
+    ]);
+  });
+
+  it("keeps blank option cells in place instead of shifting the answer", () => {
+    const { rows } = parseQuestionImport("question,options,answer\nPick one,3||5|6,B");
+
+    expect(rows[0].question.options).toEqual(["3", "", "5", "6"]);
+    expect(rows[0].error).toBe("All options must be filled in");
+  });
+
+  it("accepts only a single option letter as an answer", () => {
+    const text = [
+      "question,type,options,answer",
+      "Pick one,single_choice,Yes|No|Maybe,B.",
+      "Pick one,single_choice,Yes|No|Maybe,C)",
+      "Pick one,single_choice,Yes|No|Maybe,Bx",
+      "Pick some,multiple_choice,Yes|No|Maybe,a|c",
+      "Pick some,multiple_choice,Yes|No|Maybe,A|C.",
+    ].join("\n");
+    const { rows } = parseQuestionImport(text);
+
+    expect(rows.map((r) => r.error)).toEqual([
+      "The correct answer must be one of the options",
+      "The correct answer must be one of the options",
+      "The correct answer must be one of the options",
+      null,
+      "The correct answer must be one of the options",
+    ]);
+    expect(rows[3].question.answer).toEqual({ options: ["A", "C"] });
+  });
+
+  it("rejects files without a question column", () => {
+    expect(parseQuestionImport("prompt,answer\nHi,there").error).toBe('Unknown column "prompt"');
+    expect(parseQuestionImport("answer\nthere").error).toBe('The header row needs a "question" column');
+  });
+});
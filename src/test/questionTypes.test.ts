@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyOptionOrder,
+  applyOptionOrderToResponse,
+  getQuestionError,
+  moveOption,
+  normalizeTags,
+  removeOption,
+  QuestionContent,
+} from "@/lib/questionTypes";
+
+const choiceQuestion = (overrides: Partial<QuestionContent> = {}): QuestionContent => ({
+  question_type: "multiple_choice",
+  question_text: "Which are prime?",
+  options: ["2", "4", "5", "9", "11"],
+  answer: { options: ["A", "C", "E"] },
+  ...overrides,
+});
+
+describe("removeOption", () => {
+  it("drops the removed letter and shifts later letters down", () => {
+    const updated = removeOption(choiceQuestion(), 2);
+
+    expect(updated.options).toEqual(["2", "4", "9", "11"]);
+    expect(updated.answer).toEqual({ options: ["A", "D"] });
+  });
+});
+
+describe("applyOptionOrder", () => {
+  it("shows options in the attempt's order with matching letters", () => {
+    const order = [4, 2, 0, 3, 1];
+    const shown = applyOptionOrder(choiceQuestion(), order);
+
+    expect(shown.options).toEqual(["11", "5", "2", "9", "4"]);
+    expect(shown.answer).toEqual({ options: ["A", "B", "C"] });
+    expect(applyOptionOrderToResponse("multiple_choice", { options: ["A", "B"] }, order)).toEqual({
+      options: ["C", "E"],
+    });
+  });
+});
+
+describe("moveOption", () => {
+  it("keeps the answer pointing at the same option text", () => {
+    const question = choiceQuestion({ question_type: "single_choice", answer: { option: "C" } });
+    const updated = moveOption(question, 2, 0);
+
+    expect(updated.options).toEqual(["5", "2", "4", "9", "11"]);
+    expect(updated.answer).toEqual({ option: "A" });
+  });
+});
+
+describe("getQuestionError", () => {
+  it("accepts between two and eight options", () => {
+    expect(getQuestionError(choiceQuestion({ options: ["Yes", "No"], answer: { options: ["A"] } }))).toBeNull();
+    expect(getQuestionError(choiceQuestion({ options: ["Only"], answer: { options: ["A"] } }))).not.toBeNull();
+  });
+
+  it("rejects blank options", () => {
+    expect(getQuestionError(choiceQuestion({ options: ["2", "", "5"] }))).toBe("All options must be filled in");
+  });
+
+  it("only accepts a single capital letter within the options as an answer", () => {
+    const single = (option: string) => choiceQuestion({ question_type: "single_choice", answer: { option } });
+
+    expect(getQuestionError(single("E"))).toBeNull();
+    for (const option of ["B.", "C)", "Bx", "b", "F"]) {
+      expect(getQuestionError(single(option))).toBe("The correct answer must be one of the options");
+    }
+  });
+});
+
+describe("normalizeTags", () => {
+  it("trims tags and drops blanks and case-insensitive duplicates", () => {
+    expect(normalizeTags([" Algebra ", "", "geometry", "algebra", "Geometry "])).toEqual(["Algebra", "geometry"]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { scoreHistogram, summarizeResults } from "@/lib/resultStats";
+
+describe("summarizeResults", () => {
+  it("averages scores and counts passes among pass-marked attempts", () => {
+    const summary = summarizeResults([
+      { score: 90, passed: true },
+      { score: 40, passed: false },
+      { score: 65, passed: true },
+      { score: 72, passed: null },
+    ]);
+
+    expect(summary).toEqual({ attempts: 4, mean: 66.8, median: 68.5, passRate: 66.7 });
+  });
+
+  it("has no statistics without results or pass marks", () => {
+    expect(summarizeResults([])).toEqual({ attempts: 0, mean: null, median: null, passRate: null });
+    expect(summarizeResults([{ score: 55, passed: null }]).passRate).toBeNull();
+  });
+});
+
+describe("scoreHistogram", () => {
+  it("counts scores into ten-point ranges, with 100 in the top one", () => {
+    const buckets = scoreHistogram([0, 9, 10, 95, 100]);
+
+    expect(buckets).toHaveLength(10);
+    expect(buckets[0]).toEqual({ label: "0–9", min: 0, max: 9, count: 2 });
+    expect(buckets[1].count).toBe(1);
+    expect(buckets[9]).toEqual({ label: "90–100", min: 90, max: 100, count: 2 });
+  });
+});
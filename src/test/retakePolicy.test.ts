@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { attemptsLeft, retakeAvailableAt } from "@/lib/retakePolicy";
+
+describe("attemptsLeft", () => {
+  it("is null for unlimited attempts however many were taken", () => {
+    expect(attemptsLeft({ max_attempts: null, attempt_cooldown_minutes: 0 })).toBeNull();
+    expect(attemptsLeft({ max_attempts: null, attempt_cooldown_minutes: 0 }, { attempts: 40, last_completed_at: null })).toBeNull();
+  });
+
+  it("gives the full limit before the first attempt", () => {
+    expect(attemptsLeft({ max_attempts: 1, attempt_cooldown_minutes: 0 })).toBe(1);
+  });
+
+  it("reaches zero on the last allowed attempt and stays there if the limit was lowered", () => {
+    const taken = { attempts: 3, last_completed_at: "2026-05-25T10:00:00Z" };
+
+    expect(attemptsLeft({ max_attempts: 3, attempt_cooldown_minutes: 0 }, taken)).toBe(0);
+    expect(attemptsLeft({ max_attempts: 2, attempt_cooldown_minutes: 0 }, taken)).toBe(0);
+  });
+});
+
+describe("retakeAvailableAt", () => {
+  it("ends the cooldown exactly that many minutes after the last attempt", () => {
+    const availableAt = retakeAvailableAt(
+      { max_attempts: null, attempt_cooldown_minutes: 90 },
+      { attempts: 1, last_completed_at: "2026-05-25T10:00:00Z" }
+    );
+
+    expect(availableAt).not.toBeNull();
+    expect(availableAt?.toISOString()).toBe("2026-05-25T11:30:00.000Z");
+  });
+
+  it("reads completion times with a UTC offset and carries over midnight", () => {
+    const availableAt = retakeAvailableAt(
+      { max_attempts: 5, attempt_cooldown_minutes: 24 * 60 },
+      { attempts: 2, last_completed_at: "2026-05-31T23:45:30.250+02:00" }
+    );
+
+    expect(availableAt?.toISOString()).toBe("2026-06-01T21:45:30.250Z");
+  });
+
+  it("has no cooldown without a wait or a finished attempt", () => {
+    expect(retakeAvailableAt(
+      { max_attempts: null, attempt_cooldown_minutes: 0 },
+      { attempts: 1, last_completed_at: "2026-05-25T10:00:00Z" }
+    )).toBeNull();
+    expect(retakeAvailableAt({ max_attempts: null, attempt_cooldown_minutes: 90 })).toBeNull();
+    expect(retakeAvailableAt(
+      { max_attempts: null, attempt_cooldown_minutes: 90 },
+      { attempts: 1, last_completed_at: null }
+    )).toBeNull();
+  });
+});
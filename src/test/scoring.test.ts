@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { formatMarks, formatSignedMarks } from "@/lib/scoring";
+
+describe("formatMarks", () => {
+  it("rounds to two decimals without trailing zeros", () => {
+    expect(formatMarks(46.5)).toBe("46.5");
+    expect(formatMarks(2 / 3)).toBe("0.67");
+    expect(formatMarks(2.999)).toBe("3");
+  });
+
+  it("absorbs floating point noise from summed marks", () => {
+    expect(formatMarks(0.1 + 0.2)).toBe("0.3");
+    expect(formatMarks(3 * 0.33 - 0.99)).toBe("0");
+  });
+
+  it("never shows a negative zero", () => {
+    expect(formatMarks(-0)).toBe("0");
+    expect(formatMarks(-0.001)).toBe("0");
+  });
+});
+
+describe("formatSignedMarks", () => {
+  it("uses a true minus sign for deductions", () => {
+    expect(formatSignedMarks(-0.25)).toBe("−0.25");
+    expect(formatSignedMarks(-0.25)).not.toContain("-");
+  });
+
+  it("signs awards and leaves an unanswered question unsigned", () => {
+    expect(formatSignedMarks(1.5)).toBe("+1.5");
+    expect(formatSignedMarks(0)).toBe("0");
+  });
+});
@@ -0,0 +1,97 @@
+-- Stop students from writing their own results; grading now happens in submit_exam
+DROP POLICY "Users can insert their own results" ON public.exam_results;
+DROP POLICY "Users can insert their own answers" ON public.student_answers;
+
+-- Students no longer read the questions table directly (it holds the answer key)
+DROP POLICY "Authenticated users can view questions for active exams" ON public.questions;
+
+-- Students may still review questions they have already answered
+CREATE POLICY "Users can view questions they have answered"
+ON public.questions FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.student_answers
+        JOIN public.exam_results ON exam_results.id = student_answers.result_id
+        WHERE student_answers.question_id = questions.id
+        AND exam_results.user_id = auth.uid()
+    )
+);
+
+-- Create student-facing view of questions without the correct option
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    q.exam_id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.order_index
+FROM public.questions q
+JOIN public.exams e ON e.id = q.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Create function to grade a submission and store the result atomically
+CREATE OR REPLACE FUNCTION public.submit_exam(
+    _exam_id UUID,
+    _answers JSONB,
+    _time_taken_seconds INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _result_id UUID;
+    _total INTEGER;
+    _correct INTEGER;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.exams
+        WHERE id = _exam_id
+        AND is_active = true
+    ) THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT
+        count(*),
+        count(*) FILTER (WHERE q.correct_option = _answers ->> q.id::text)
+    INTO _total, _correct
+    FROM public.questions q
+    WHERE q.exam_id = _exam_id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, score, total_questions, correct_answers, time_taken_seconds)
+    VALUES (_user_id, _exam_id, round(_correct * 100.0 / _total), _total, _correct, _time_taken_seconds)
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, selected_option, is_correct)
+    SELECT
+        _result_id,
+        q.id,
+        CASE WHEN _answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN _answers ->> q.id::text END,
+        COALESCE(q.correct_option = _answers ->> q.id::text, false)
+    FROM public.questions q
+    WHERE q.exam_id = _exam_id;
+
+    RETURN _result_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_exam(UUID, JSONB, INTEGER) FROM anon;
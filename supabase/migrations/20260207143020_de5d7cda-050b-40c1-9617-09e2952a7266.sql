@@ -0,0 +1,182 @@
+-- Create attempt status enum
+CREATE TYPE public.attempt_status AS ENUM ('in_progress', 'submitted', 'expired');
+
+-- Create exam_attempts table to track server-side exam sessions
+CREATE TABLE public.exam_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    status attempt_status NOT NULL DEFAULT 'in_progress',
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    result_id UUID REFERENCES public.exam_results(id) ON DELETE SET NULL
+);
+
+-- Only one open attempt per student and exam
+CREATE UNIQUE INDEX exam_attempts_one_in_progress
+ON public.exam_attempts (user_id, exam_id)
+WHERE status = 'in_progress';
+
+ALTER TABLE public.exam_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Exam attempts policies (writes only happen through the functions below)
+CREATE POLICY "Users can view their own attempts"
+ON public.exam_attempts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all attempts"
+ON public.exam_attempts FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create function returning how long after the deadline a submission is still accepted
+CREATE OR REPLACE FUNCTION public.attempt_grace_period()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '30 seconds'
+$$;
+
+-- Create function to start (or resume) an attempt for the current user
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _duration INTEGER;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT e.duration_minutes INTO _duration
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed can no longer be resumed
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        UPDATE public.exam_attempts a
+        SET status = 'expired'
+        WHERE a.id = _attempt.id;
+        _attempt := NULL;
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        INSERT INTO public.exam_attempts (user_id, exam_id, deadline)
+        VALUES (_user_id, _exam_id, now() + make_interval(mins => _duration))
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT _attempt.id, _attempt.exam_id, _attempt.started_at, _attempt.deadline, now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_attempt(UUID) FROM anon;
+
+-- Submissions are now tied to an attempt instead of a client-reported duration
+DROP FUNCTION public.submit_exam(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.submit_exam(
+    _attempt_id UUID,
+    _answers JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+    _result_id UUID;
+    _total INTEGER;
+    _correct INTEGER;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' THEN
+        RAISE EXCEPTION 'Attempt has already been submitted';
+    END IF;
+
+    IF now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Submission deadline has passed';
+    END IF;
+
+    SELECT
+        count(*),
+        count(*) FILTER (WHERE q.correct_option = _answers ->> q.id::text)
+    INTO _total, _correct
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, score, total_questions, correct_answers, time_taken_seconds)
+    VALUES (
+        _user_id,
+        _attempt.exam_id,
+        round(_correct * 100.0 / _total),
+        _total,
+        _correct,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, selected_option, is_correct)
+    SELECT
+        _result_id,
+        q.id,
+        CASE WHEN _answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN _answers ->> q.id::text END,
+        COALESCE(q.correct_option = _answers ->> q.id::text, false)
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    UPDATE public.exam_attempts
+    SET status = 'submitted',
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_exam(UUID, JSONB) FROM anon;
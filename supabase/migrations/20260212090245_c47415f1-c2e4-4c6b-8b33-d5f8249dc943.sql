@@ -0,0 +1,269 @@
+-- Persist in-progress answers and position on the attempt
+ALTER TABLE public.exam_attempts
+    ADD COLUMN answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN current_index INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN last_saved_at TIMESTAMP WITH TIME ZONE;
+
+-- Create internal function that grades an attempt from its saved answers
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _result_id UUID;
+    _total INTEGER;
+    _correct INTEGER;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT
+        count(*),
+        count(*) FILTER (WHERE q.correct_option = _attempt.answers ->> q.id::text)
+    INTO _total, _correct
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, score, total_questions, correct_answers, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        round(_correct * 100.0 / _total),
+        _total,
+        _correct,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, selected_option, is_correct)
+    SELECT
+        _result_id,
+        q.id,
+        CASE WHEN _attempt.answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN _attempt.answers ->> q.id::text END,
+        COALESCE(q.correct_option = _attempt.answers ->> q.id::text, false)
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_attempt(UUID, attempt_status) FROM PUBLIC, anon, authenticated;
+
+-- Create function to auto-submit attempts whose deadline has passed
+CREATE OR REPLACE FUNCTION public.finalize_expired_attempts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt_id UUID;
+    _count INTEGER := 0;
+BEGIN
+    FOR _attempt_id IN
+        SELECT id FROM public.exam_attempts
+        WHERE status = 'in_progress'
+        AND now() > deadline + public.attempt_grace_period()
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM public.grade_attempt(_attempt_id, 'expired');
+        _count := _count + 1;
+    END LOOP;
+
+    RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_expired_attempts() FROM PUBLIC, anon, authenticated;
+
+-- Auto-submit abandoned attempts every minute, even if the browser never comes back
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+    'finalize-expired-attempts',
+    '* * * * *',
+    $$ SELECT public.finalize_expired_attempts() $$
+);
+
+-- Create function to autosave answers for an open attempt
+CREATE OR REPLACE FUNCTION public.save_attempt_progress(
+    _attempt_id UUID,
+    _answers JSONB,
+    _current_index INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' OR now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Attempt is no longer open';
+    END IF;
+
+    UPDATE public.exam_attempts
+    SET answers = COALESCE(_answers, '{}'::jsonb),
+        current_index = GREATEST(_current_index, 0),
+        last_saved_at = now()
+    WHERE id = _attempt_id;
+
+    RETURN now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_attempt_progress(UUID, JSONB, INTEGER) FROM anon;
+
+-- Resuming an attempt now restores saved answers and position
+DROP FUNCTION public.start_exam_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _duration INTEGER;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT e.duration_minutes INTO _duration
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        INSERT INTO public.exam_attempts (user_id, exam_id, deadline)
+        VALUES (_user_id, _exam_id, now() + make_interval(mins => _duration))
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_attempt(UUID) FROM anon;
+
+-- Late submissions are truncated to the answers autosaved before the deadline
+CREATE OR REPLACE FUNCTION public.submit_exam(
+    _attempt_id UUID,
+    _answers JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    -- Already auto-submitted by the scheduler: hand back the existing result
+    IF _attempt.status <> 'in_progress' THEN
+        IF _attempt.result_id IS NULL THEN
+            RAISE EXCEPTION 'Attempt has already been submitted';
+        END IF;
+        RETURN _attempt.result_id;
+    END IF;
+
+    IF now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RETURN public.grade_attempt(_attempt_id, 'expired');
+    END IF;
+
+    UPDATE public.exam_attempts
+    SET answers = COALESCE(_answers, '{}'::jsonb),
+        last_saved_at = now()
+    WHERE id = _attempt_id;
+
+    RETURN public.grade_attempt(_attempt_id, 'submitted');
+END;
+$$;
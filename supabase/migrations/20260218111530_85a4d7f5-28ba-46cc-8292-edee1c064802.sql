@@ -0,0 +1,165 @@
+-- Create question_revisions table holding immutable snapshots of question content
+CREATE TABLE public.question_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID REFERENCES public.questions(id) ON DELETE SET NULL,
+    revision INTEGER NOT NULL,
+    content JSONB NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (question_id, revision)
+);
+
+ALTER TABLE public.question_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create function returning the versioned content of a question row
+CREATE OR REPLACE FUNCTION public.question_content(_question public.questions)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(_question) - 'id' - 'exam_id' - 'order_index' - 'created_at'
+$$;
+
+-- Create function to record a new revision whenever question content changes
+CREATE OR REPLACE FUNCTION public.record_question_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND public.question_content(NEW) = public.question_content(OLD) THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    VALUES (
+        NEW.id,
+        COALESCE((SELECT max(revision) FROM public.question_revisions WHERE question_id = NEW.id), 0) + 1,
+        public.question_content(NEW),
+        auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_question_revision
+    AFTER INSERT OR UPDATE ON public.questions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_question_revision();
+
+-- Backfill a first revision for every existing question
+INSERT INTO public.question_revisions (question_id, revision, content)
+SELECT q.id, 1, public.question_content(q)
+FROM public.questions q;
+
+-- Answers point at the exact revision the student saw, and outlive deleted questions
+ALTER TABLE public.student_answers
+    ADD COLUMN question_revision_id UUID REFERENCES public.question_revisions(id),
+    ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.student_answers sa
+SET question_revision_id = qr.id,
+    position = q.order_index
+FROM public.question_revisions qr
+JOIN public.questions q ON q.id = qr.question_id
+WHERE qr.question_id = sa.question_id;
+
+ALTER TABLE public.student_answers
+    ALTER COLUMN question_revision_id SET NOT NULL,
+    ALTER COLUMN question_id DROP NOT NULL,
+    DROP CONSTRAINT student_answers_question_id_fkey,
+    ADD CONSTRAINT student_answers_question_id_fkey
+        FOREIGN KEY (question_id) REFERENCES public.questions(id) ON DELETE SET NULL;
+
+-- Review reads revisions now, so students no longer need the live questions table
+DROP POLICY "Users can view questions they have answered" ON public.questions;
+
+-- Question revisions policies
+CREATE POLICY "Admins can view all question revisions"
+ON public.question_revisions FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view revisions they have answered"
+ON public.question_revisions FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.student_answers
+        JOIN public.exam_results ON exam_results.id = student_answers.result_id
+        WHERE student_answers.question_revision_id = question_revisions.id
+        AND exam_results.user_id = auth.uid()
+    )
+);
+
+-- Grade against, and record, the current revision of each question
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _result_id UUID;
+    _total INTEGER;
+    _correct INTEGER;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT
+        count(*),
+        count(*) FILTER (WHERE q.correct_option = _attempt.answers ->> q.id::text)
+    INTO _total, _correct
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, score, total_questions, correct_answers, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        round(_correct * 100.0 / _total),
+        _total,
+        _correct,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, selected_option, is_correct)
+    SELECT
+        _result_id,
+        q.id,
+        qr.id,
+        row_number() OVER (ORDER BY q.order_index) - 1,
+        CASE WHEN _attempt.answers ->> q.id::text IN ('A', 'B', 'C', 'D') THEN _attempt.answers ->> q.id::text END,
+        COALESCE(q.correct_option = _attempt.answers ->> q.id::text, false)
+    FROM public.questions q
+    JOIN LATERAL (
+        SELECT id FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) qr ON true
+    WHERE q.exam_id = _attempt.exam_id;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
@@ -0,0 +1,228 @@
+-- Create question type enum
+CREATE TYPE public.question_type AS ENUM (
+    'single_choice',
+    'true_false',
+    'multiple_choice',
+    'numeric',
+    'short_text'
+);
+
+-- Converting the answer key is a storage change, not an edit, so skip revisions while it runs
+ALTER TABLE public.questions DISABLE TRIGGER record_question_revision;
+
+-- Typed questions: the answer key moves into a JSON document shaped by question_type
+--   single_choice:   {"option": "B"}
+--   true_false:      {"value": true}
+--   multiple_choice: {"options": ["A", "C"]}
+--   numeric:         {"value": 9.81, "tolerance": 0.01}
+--   short_text:      {"accepted": ["Paris"], "case_sensitive": false}
+ALTER TABLE public.questions
+    ADD COLUMN question_type question_type NOT NULL DEFAULT 'single_choice',
+    ADD COLUMN answer JSONB;
+
+UPDATE public.questions
+SET answer = jsonb_build_object('option', correct_option);
+
+DROP VIEW public.exam_questions;
+
+ALTER TABLE public.questions
+    ALTER COLUMN answer SET NOT NULL,
+    DROP COLUMN correct_option,
+    ALTER COLUMN option_a DROP NOT NULL,
+    ALTER COLUMN option_b DROP NOT NULL,
+    ALTER COLUMN option_c DROP NOT NULL,
+    ALTER COLUMN option_d DROP NOT NULL,
+    ADD CONSTRAINT questions_choice_options_check CHECK (
+        question_type NOT IN ('single_choice', 'multiple_choice')
+        OR (option_a IS NOT NULL AND option_b IS NOT NULL AND option_c IS NOT NULL AND option_d IS NOT NULL)
+    );
+
+ALTER TABLE public.questions ENABLE TRIGGER record_question_revision;
+
+-- Bring existing revision snapshots to the same shape
+UPDATE public.question_revisions
+SET content = (content - 'correct_option') || jsonb_build_object(
+    'question_type', 'single_choice',
+    'answer', jsonb_build_object('option', content ->> 'correct_option')
+)
+WHERE content ? 'correct_option';
+
+-- Student responses are typed the same way
+--   single_choice: {"option": "B"}    true_false: {"value": true}
+--   multiple_choice: {"options": ["A", "C"]}
+--   numeric: {"value": 9.8}           short_text: {"text": "paris"}
+ALTER TABLE public.student_answers ADD COLUMN response JSONB;
+
+UPDATE public.student_answers
+SET response = jsonb_build_object('option', selected_option)
+WHERE selected_option IS NOT NULL;
+
+ALTER TABLE public.student_answers DROP COLUMN selected_option;
+
+UPDATE public.exam_attempts
+SET answers = (
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('option', value)), '{}'::jsonb)
+    FROM jsonb_each_text(exam_attempts.answers)
+)
+WHERE status = 'in_progress';
+
+-- Recreate student-facing view with the question type and without the answer key
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    q.exam_id,
+    q.question_type,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    q.order_index
+FROM public.questions q
+JOIN public.exams e ON e.id = q.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Create function to check a response against the answer key for its question type
+CREATE OR REPLACE FUNCTION public.is_response_correct(
+    _type question_type,
+    _answer JSONB,
+    _response JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+    IF _response IS NULL OR jsonb_typeof(_response) <> 'object' THEN
+        RETURN false;
+    END IF;
+
+    CASE _type
+        WHEN 'single_choice' THEN
+            RETURN COALESCE(_response ->> 'option' = _answer ->> 'option', false);
+
+        WHEN 'true_false' THEN
+            RETURN COALESCE(
+                jsonb_typeof(_response -> 'value') = 'boolean' AND _response -> 'value' = _answer -> 'value',
+                false
+            );
+
+        WHEN 'multiple_choice' THEN
+            IF jsonb_typeof(_response -> 'options') IS DISTINCT FROM 'array' THEN
+                RETURN false;
+            END IF;
+            RETURN COALESCE((
+                SELECT array_agg(DISTINCT o ORDER BY o)
+                FROM jsonb_array_elements_text(_response -> 'options') o
+            ) = (
+                SELECT array_agg(DISTINCT o ORDER BY o)
+                FROM jsonb_array_elements_text(_answer -> 'options') o
+            ), false);
+
+        WHEN 'numeric' THEN
+            IF jsonb_typeof(_response -> 'value') IS DISTINCT FROM 'number' THEN
+                RETURN false;
+            END IF;
+            RETURN COALESCE(
+                abs((_response ->> 'value')::numeric - (_answer ->> 'value')::numeric)
+                    <= COALESCE((_answer ->> 'tolerance')::numeric, 0),
+                false
+            );
+
+        WHEN 'short_text' THEN
+            IF jsonb_typeof(_response -> 'text') IS DISTINCT FROM 'string' THEN
+                RETURN false;
+            END IF;
+            RETURN EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements_text(_answer -> 'accepted') accepted
+                WHERE CASE
+                    WHEN COALESCE((_answer ->> 'case_sensitive')::boolean, false)
+                        THEN btrim(accepted) = btrim(_response ->> 'text')
+                    ELSE lower(btrim(accepted)) = lower(btrim(_response ->> 'text'))
+                END
+            );
+    END CASE;
+
+    RETURN false;
+END;
+$$;
+
+-- Grade each question according to its type
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _result_id UUID;
+    _total INTEGER;
+    _correct INTEGER;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT
+        count(*),
+        count(*) FILTER (
+            WHERE public.is_response_correct(q.question_type, q.answer, _attempt.answers -> q.id::text)
+        )
+    INTO _total, _correct
+    FROM public.questions q
+    WHERE q.exam_id = _attempt.exam_id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, score, total_questions, correct_answers, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        round(_correct * 100.0 / _total),
+        _total,
+        _correct,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, is_correct)
+    SELECT
+        _result_id,
+        q.id,
+        qr.id,
+        row_number() OVER (ORDER BY q.order_index) - 1,
+        _attempt.answers -> q.id::text,
+        public.is_response_correct(q.question_type, q.answer, _attempt.answers -> q.id::text)
+    FROM public.questions q
+    JOIN LATERAL (
+        SELECT id FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) qr ON true
+    WHERE q.exam_id = _attempt.exam_id;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Moving options into a list is a storage change, not an edit, so skip revisions while it runs
+ALTER TABLE public.questions DISABLE TRIGGER record_question_revision;
+
+-- Choice questions keep an ordered list of 2-8 options; answers still refer to them by letter (A-H)
+ALTER TABLE public.questions ADD COLUMN options JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.questions
+SET options = jsonb_build_array(option_a, option_b, option_c, option_d)
+WHERE question_type IN ('single_choice', 'multiple_choice');
+
+DROP VIEW public.exam_questions;
+
+ALTER TABLE public.questions
+    DROP CONSTRAINT questions_choice_options_check,
+    DROP COLUMN option_a,
+    DROP COLUMN option_b,
+    DROP COLUMN option_c,
+    DROP COLUMN option_d,
+    ADD CONSTRAINT questions_options_check CHECK (
+        jsonb_typeof(options) = 'array'
+        AND (
+            question_type NOT IN ('single_choice', 'multiple_choice')
+            OR jsonb_array_length(options) BETWEEN 2 AND 8
+        )
+    );
+
+ALTER TABLE public.questions ENABLE TRIGGER record_question_revision;
+
+-- Bring existing revision snapshots to the same shape
+UPDATE public.question_revisions
+SET content = (content - 'option_a' - 'option_b' - 'option_c' - 'option_d') || jsonb_build_object(
+    'options',
+    CASE
+        WHEN content ->> 'question_type' IN ('single_choice', 'multiple_choice')
+            THEN jsonb_build_array(content -> 'option_a', content -> 'option_b', content -> 'option_c', content -> 'option_d')
+        ELSE '[]'::jsonb
+    END
+)
+WHERE content ? 'option_a';
+
+-- Recreate student-facing view with the option list and without the answer key
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    q.exam_id,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.order_index
+FROM public.questions q
+JOIN public.exams e ON e.id = q.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
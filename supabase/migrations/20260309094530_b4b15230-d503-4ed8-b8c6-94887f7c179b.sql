@@ -0,0 +1,173 @@
+-- Per-exam marking scheme: marks for a correct answer, penalty for a wrong one, zero when skipped
+ALTER TABLE public.exams
+    ADD COLUMN marks_per_correct NUMERIC(6, 2) NOT NULL DEFAULT 1 CHECK (marks_per_correct >= 0),
+    ADD COLUMN negative_marks NUMERIC(6, 2) NOT NULL DEFAULT 0 CHECK (negative_marks >= 0);
+
+-- Optional per-question overrides of the exam's marking scheme
+ALTER TABLE public.questions
+    ADD COLUMN marks NUMERIC(6, 2) CHECK (marks >= 0),
+    ADD COLUMN negative_marks NUMERIC(6, 2) CHECK (negative_marks >= 0);
+
+-- Raw marks and the correct/wrong/skipped breakdown alongside the percentage
+ALTER TABLE public.exam_results
+    ADD COLUMN wrong_answers INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN skipped_answers INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN marks_obtained NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN marks_lost NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN max_marks NUMERIC(8, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.student_answers
+    ADD COLUMN marks_awarded NUMERIC(6, 2) NOT NULL DEFAULT 0;
+
+-- Existing results were graded one mark per correct answer with no penalty
+UPDATE public.student_answers
+SET marks_awarded = 1
+WHERE is_correct;
+
+UPDATE public.exam_results r
+SET wrong_answers = counts.wrong,
+    skipped_answers = counts.skipped,
+    marks_obtained = r.correct_answers,
+    max_marks = r.total_questions
+FROM (
+    SELECT
+        result_id,
+        count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+        count(*) FILTER (WHERE response IS NULL) AS skipped
+    FROM public.student_answers
+    GROUP BY result_id
+) counts
+WHERE counts.result_id = r.id;
+
+-- Recreate student-facing view with per-question marks
+DROP VIEW public.exam_questions;
+
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    q.exam_id,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.order_index
+FROM public.questions q
+JOIN public.exams e ON e.id = q.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Grade with the exam's marking scheme and per-question overrides
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _attempt.exam_id;
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.questions q
+    WHERE q.exam_id = _exam.id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _exam.id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        graded.id,
+        graded.revision_id,
+        graded.position,
+        graded.response,
+        graded.is_correct,
+        CASE
+            WHEN graded.response IS NULL THEN 0
+            WHEN graded.is_correct THEN graded.marks
+            ELSE -graded.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            qr.id AS revision_id,
+            row_number() OVER (ORDER BY q.order_index) - 1 AS position,
+            _attempt.answers -> q.id::text AS response,
+            public.is_response_correct(q.question_type, q.answer, _attempt.answers -> q.id::text) AS is_correct,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.questions q
+        JOIN LATERAL (
+            SELECT id FROM public.question_revisions
+            WHERE question_id = q.id
+            ORDER BY revision DESC
+            LIMIT 1
+        ) qr ON true
+        WHERE q.exam_id = _exam.id
+    ) graded;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
@@ -0,0 +1,576 @@
+-- Create exam_sections table: an exam is split into ordered sections, each with its own time limit
+CREATE TABLE public.exam_sections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+    title TEXT NOT NULL,
+    duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX exam_sections_exam_id_idx ON public.exam_sections (exam_id, order_index);
+
+ALTER TABLE public.exam_sections ENABLE ROW LEVEL SECURITY;
+
+-- Exam sections policies
+CREATE POLICY "Authenticated users can view sections of active exams"
+ON public.exam_sections FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exams
+        WHERE exams.id = exam_sections.exam_id
+        AND exams.is_active = true
+    )
+);
+
+CREATE POLICY "Admins can manage exam sections"
+ON public.exam_sections FOR ALL
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Questions belong to a section when their exam has sections
+ALTER TABLE public.questions
+    ADD COLUMN section_id UUID REFERENCES public.exam_sections(id) ON DELETE SET NULL;
+
+-- Recreate student-facing view with the question's section
+DROP VIEW public.exam_questions;
+
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    q.exam_id,
+    q.section_id,
+    q.question_type,
+    q.question_text,
+    q.options,
+    q.marks,
+    q.negative_marks,
+    q.order_index
+FROM public.questions q
+JOIN public.exams e ON e.id = q.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Track the open section of an attempt; earlier sections are closed for good
+ALTER TABLE public.exam_attempts
+    ADD COLUMN section_index INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN section_deadline TIMESTAMP WITH TIME ZONE;
+
+-- Create exam_result_sections table for the section-wise score breakdown
+CREATE TABLE public.exam_result_sections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    result_id UUID REFERENCES public.exam_results(id) ON DELETE CASCADE NOT NULL,
+    section_id UUID REFERENCES public.exam_sections(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    total_questions INTEGER NOT NULL,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    wrong_answers INTEGER NOT NULL DEFAULT 0,
+    skipped_answers INTEGER NOT NULL DEFAULT 0,
+    marks_obtained NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    max_marks NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    UNIQUE (result_id, position)
+);
+
+ALTER TABLE public.exam_result_sections ENABLE ROW LEVEL SECURITY;
+
+-- Exam result sections policies (rows are only written by grade_attempt)
+CREATE POLICY "Users can view their own result sections"
+ON public.exam_result_sections FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exam_results
+        WHERE exam_results.id = exam_result_sections.result_id
+        AND exam_results.user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Admins can view all result sections"
+ON public.exam_result_sections FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create function returning the section at a position of an exam, or NULL when the exam has no sections
+CREATE OR REPLACE FUNCTION public.exam_section_at(_exam_id UUID, _position INTEGER)
+RETURNS public.exam_sections
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT *
+    FROM public.exam_sections
+    WHERE exam_id = _exam_id
+    ORDER BY order_index, created_at
+    OFFSET _position
+    LIMIT 1
+$$;
+
+-- Create function returning the minutes of all sections after a position
+CREATE OR REPLACE FUNCTION public.exam_minutes_after_section(_exam_id UUID, _position INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(sum(duration_minutes), 0)::INTEGER
+    FROM (
+        SELECT duration_minutes
+        FROM public.exam_sections
+        WHERE exam_id = _exam_id
+        ORDER BY order_index, created_at
+        OFFSET _position + 1
+    ) later
+$$;
+
+-- Create internal function that closes sections whose time ran out while nobody was watching
+CREATE OR REPLACE FUNCTION public.sync_attempt_section(_attempt_id UUID)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    FOR UPDATE;
+
+    LOOP
+        EXIT WHEN _attempt.section_deadline IS NULL
+            OR now() <= _attempt.section_deadline + public.attempt_grace_period();
+
+        _next := public.exam_section_at(_attempt.exam_id, _attempt.section_index + 1);
+        EXIT WHEN _next.id IS NULL;
+
+        -- The next section started when the previous one ran out, not when we noticed
+        UPDATE public.exam_attempts
+        SET section_index = _attempt.section_index + 1,
+            section_deadline = _attempt.section_deadline + make_interval(mins => _next.duration_minutes)
+        WHERE id = _attempt_id
+        RETURNING * INTO _attempt;
+    END LOOP;
+
+    RETURN _attempt;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_attempt_section(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create function that accepts answers only for the open section, keeping closed sections as saved
+CREATE OR REPLACE FUNCTION public.merge_attempt_answers(_attempt public.exam_attempts, _answers JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH open_questions AS (
+        SELECT q.id::text AS id
+        FROM public.questions q
+        WHERE q.exam_id = _attempt.exam_id
+        AND q.section_id IS NOT DISTINCT FROM (public.exam_section_at(_attempt.exam_id, _attempt.section_index)).id
+    )
+    SELECT COALESCE(jsonb_object_agg(entry.key, entry.value), '{}'::jsonb)
+    FROM (
+        SELECT saved.key, saved.value
+        FROM jsonb_each(_attempt.answers) saved
+        WHERE saved.key NOT IN (SELECT id FROM open_questions)
+        UNION ALL
+        SELECT given.key, given.value
+        FROM jsonb_each(COALESCE(_answers, '{}'::jsonb)) given
+        WHERE given.key IN (SELECT id FROM open_questions)
+    ) entry
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_attempt_answers(public.exam_attempts, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Sectioned exams run for the sum of their sections, starting with the first section's clock
+DROP FUNCTION public.start_exam_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT e.duration_minutes INTO _duration
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        _first_section := public.exam_section_at(_exam_id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_exam_id, 0);
+        END IF;
+
+        INSERT INTO public.exam_attempts (user_id, exam_id, deadline, section_deadline)
+        VALUES (
+            _user_id,
+            _exam_id,
+            now() + make_interval(mins => _duration),
+            now() + make_interval(mins => _first_section.duration_minutes)
+        )
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_attempt(UUID) FROM anon;
+
+-- Autosave only changes answers in the open section
+CREATE OR REPLACE FUNCTION public.save_attempt_progress(
+    _attempt_id UUID,
+    _answers JSONB,
+    _current_index INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' OR now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Attempt is no longer open';
+    END IF;
+
+    _attempt := public.sync_attempt_section(_attempt_id);
+
+    UPDATE public.exam_attempts
+    SET answers = public.merge_attempt_answers(_attempt, _answers),
+        current_index = GREATEST(_current_index, 0),
+        last_saved_at = now()
+    WHERE id = _attempt_id;
+
+    RETURN now();
+END;
+$$;
+
+-- Create function to close the open section and start the next one
+CREATE OR REPLACE FUNCTION public.advance_attempt_section(
+    _attempt_id UUID,
+    _answers JSONB,
+    _section_index INTEGER
+)
+RETURNS TABLE (
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+    _next_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.id = _attempt_id
+    AND a.user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' OR now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Attempt is no longer open';
+    END IF;
+
+    _attempt := public.sync_attempt_section(_attempt_id);
+
+    -- Only advance from the section the student was looking at; a retry after it already closed is a no-op
+    IF _attempt.section_index = _section_index THEN
+        _next := public.exam_section_at(_attempt.exam_id, _attempt.section_index + 1);
+
+        IF _next.id IS NULL THEN
+            RAISE EXCEPTION 'This is the last section';
+        END IF;
+
+        -- Leaving early forfeits the unused time; a late call never gains extra time
+        _next_deadline := least(now(), _attempt.section_deadline) + make_interval(mins => _next.duration_minutes);
+
+        UPDATE public.exam_attempts a
+        SET answers = public.merge_attempt_answers(_attempt, _answers),
+            section_index = _attempt.section_index + 1,
+            section_deadline = _next_deadline,
+            deadline = _next_deadline + make_interval(
+                mins => public.exam_minutes_after_section(_attempt.exam_id, _attempt.section_index + 1)
+            ),
+            last_saved_at = now()
+        WHERE a.id = _attempt_id
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT _attempt.section_index, _attempt.section_deadline, _attempt.deadline;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_attempt_section(UUID, JSONB, INTEGER) FROM anon;
+
+-- Submitting only changes answers in the open section
+CREATE OR REPLACE FUNCTION public.submit_exam(
+    _attempt_id UUID,
+    _answers JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    -- Already auto-submitted by the scheduler: hand back the existing result
+    IF _attempt.status <> 'in_progress' THEN
+        IF _attempt.result_id IS NULL THEN
+            RAISE EXCEPTION 'Attempt has already been submitted';
+        END IF;
+        RETURN _attempt.result_id;
+    END IF;
+
+    IF now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RETURN public.grade_attempt(_attempt_id, 'expired');
+    END IF;
+
+    _attempt := public.sync_attempt_section(_attempt_id);
+
+    UPDATE public.exam_attempts
+    SET answers = public.merge_attempt_answers(_attempt, _answers),
+        last_saved_at = now()
+    WHERE id = _attempt_id;
+
+    RETURN public.grade_attempt(_attempt_id, 'submitted');
+END;
+$$;
+
+-- Grade in section order and record the section-wise breakdown
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _attempt.exam_id;
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.questions q
+    WHERE q.exam_id = _exam.id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _exam.id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        graded.id,
+        graded.revision_id,
+        graded.position,
+        graded.response,
+        graded.is_correct,
+        CASE
+            WHEN graded.response IS NULL THEN 0
+            WHEN graded.is_correct THEN graded.marks
+            ELSE -graded.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            qr.id AS revision_id,
+            row_number() OVER (ORDER BY s.order_index NULLS FIRST, s.created_at, q.order_index) - 1 AS position,
+            _attempt.answers -> q.id::text AS response,
+            public.is_response_correct(q.question_type, q.answer, _attempt.answers -> q.id::text) AS is_correct,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.questions q
+        LEFT JOIN public.exam_sections s ON s.id = q.section_id
+        JOIN LATERAL (
+            SELECT id FROM public.question_revisions
+            WHERE question_id = q.id
+            ORDER BY revision DESC
+            LIMIT 1
+        ) qr ON true
+        WHERE q.exam_id = _exam.id
+    ) graded;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        s.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    JOIN public.exam_sections s ON s.id = q.section_id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, s.title, s.order_index, s.created_at;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
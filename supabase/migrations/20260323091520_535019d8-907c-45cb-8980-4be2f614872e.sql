@@ -0,0 +1,309 @@
+-- Per-exam settings to shuffle question and option order for each attempt
+ALTER TABLE public.exams
+    ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN shuffle_options BOOLEAN NOT NULL DEFAULT false;
+
+-- The order an attempt was shown in: question ids, and per question the canonical option index at each displayed position
+ALTER TABLE public.exam_attempts
+    ADD COLUMN question_order UUID[],
+    ADD COLUMN option_orders JSONB;
+
+-- Keep the displayed option order with each graded answer for the review
+ALTER TABLE public.student_answers
+    ADD COLUMN option_order JSONB;
+
+-- Create function mapping a response given against shuffled options back to canonical option letters
+CREATE OR REPLACE FUNCTION public.canonical_response(
+    _type question_type,
+    _response JSONB,
+    _option_order JSONB
+)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _response IS NULL OR _option_order IS NULL THEN _response
+        WHEN _type = 'single_choice' THEN jsonb_build_object(
+            'option', chr(65 + (_option_order ->> (ascii(_response ->> 'option') - 65))::INTEGER)
+        )
+        WHEN _type = 'multiple_choice' THEN jsonb_build_object(
+            'options', (
+                SELECT COALESCE(jsonb_agg(mapped.label ORDER BY mapped.label), '[]'::jsonb)
+                FROM (
+                    SELECT chr(65 + (_option_order ->> (ascii(displayed) - 65))::INTEGER) AS label
+                    FROM jsonb_array_elements_text(_response -> 'options') displayed
+                ) mapped
+            )
+        )
+        ELSE _response
+    END
+$$;
+
+-- Attempts record their shuffled order when they start
+DROP FUNCTION public.start_exam_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _exam public.exams;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_exam_id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_exam_id, 0);
+        END IF;
+
+        -- Questions are only shuffled within their section
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(q.id ORDER BY s.order_index NULLS FIRST, s.created_at, random())
+            INTO _question_order
+            FROM public.questions q
+            LEFT JOIN public.exam_sections s ON s.id = q.section_id
+            WHERE q.exam_id = _exam_id;
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.questions q
+            WHERE q.exam_id = _exam_id
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (user_id, exam_id, deadline, section_deadline, question_order, option_orders)
+        VALUES (
+            _user_id,
+            _exam_id,
+            now() + make_interval(mins => _duration),
+            now() + make_interval(mins => _first_section.duration_minutes),
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_attempt(UUID) FROM anon;
+
+-- Grade responses against canonical options, in the order the student saw the questions
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _attempt.exam_id;
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.questions q
+    WHERE q.exam_id = _exam.id;
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _exam.id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            q.question_type,
+            q.answer,
+            qr.id AS revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, q.order_index
+            ) - 1 AS position,
+            -- An order that no longer matches the options (edited mid-attempt) is ignored
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.questions q
+        LEFT JOIN public.exam_sections s ON s.id = q.section_id
+        JOIN LATERAL (
+            SELECT id FROM public.question_revisions
+            WHERE question_id = q.id
+            ORDER BY revision DESC
+            LIMIT 1
+        ) qr ON true
+        WHERE q.exam_id = _exam.id
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        s.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    JOIN public.exam_sections s ON s.id = q.section_id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, s.title, s.order_index, s.created_at;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
@@ -0,0 +1,436 @@
+-- Create exam_question_links table: exams reference questions from the shared bank
+CREATE TABLE public.exam_question_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.questions(id) ON DELETE RESTRICT NOT NULL,
+    section_id UUID REFERENCES public.exam_sections(id) ON DELETE SET NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    marks NUMERIC(6, 2) CHECK (marks >= 0),
+    negative_marks NUMERIC(6, 2) CHECK (negative_marks >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (exam_id, question_id)
+);
+
+CREATE INDEX exam_question_links_question_id_idx ON public.exam_question_links (question_id);
+
+ALTER TABLE public.exam_question_links ENABLE ROW LEVEL SECURITY;
+
+-- Exam question links policies (students read questions through the exam_questions view)
+CREATE POLICY "Admins can manage exam question links"
+ON public.exam_question_links FOR ALL
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Every existing question becomes a bank item used by the exam that owned it
+INSERT INTO public.exam_question_links (exam_id, question_id, section_id, order_index, marks, negative_marks, created_at)
+SELECT exam_id, id, section_id, order_index, marks, negative_marks, created_at
+FROM public.questions;
+
+-- Revisions version the question's own content only, so exam settings and authorship never create one
+CREATE OR REPLACE FUNCTION public.question_content(_question public.questions)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'question_type', _question.question_type,
+    'question_text', _question.question_text,
+    'options', _question.options,
+    'answer', _question.answer,
+    'topic', _question.topic
+  )
+$$;
+
+-- Exam-specific settings now live on the link; the question keeps its content and authorship
+DROP VIEW public.exam_questions;
+
+ALTER TABLE public.questions
+    ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.questions q
+SET created_by = e.created_by
+FROM public.exams e
+WHERE e.id = q.exam_id;
+
+ALTER TABLE public.questions
+    DROP COLUMN exam_id,
+    DROP COLUMN section_id,
+    DROP COLUMN order_index,
+    DROP COLUMN marks,
+    DROP COLUMN negative_marks;
+
+-- Recreate student-facing view over the links of active exams
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    l.exam_id,
+    l.section_id,
+    q.question_type,
+    q.question_text,
+    q.options,
+    l.marks,
+    l.negative_marks,
+    l.order_index
+FROM public.exam_question_links l
+JOIN public.questions q ON q.id = l.question_id
+JOIN public.exams e ON e.id = l.exam_id
+WHERE e.is_active = true;
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Draw from the questions linked to the exam
+CREATE OR REPLACE FUNCTION public.draw_exam_questions(_exam_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _draw_count INTEGER;
+    _rule public.exam_draw_rules;
+    _drawn UUID[] := '{}';
+BEGIN
+    SELECT draw_count INTO _draw_count
+    FROM public.exams
+    WHERE id = _exam_id;
+
+    FOR _rule IN
+        SELECT * FROM public.exam_draw_rules
+        WHERE exam_id = _exam_id
+        ORDER BY created_at
+    LOOP
+        _drawn := _drawn || ARRAY(
+            SELECT q.id
+            FROM public.exam_question_links l
+            JOIN public.questions q ON q.id = l.question_id
+            WHERE l.exam_id = _exam_id
+            AND q.topic = _rule.topic
+            AND NOT q.id = ANY(_drawn)
+            ORDER BY random()
+            LIMIT _rule.min_count
+        );
+    END LOOP;
+
+    _drawn := _drawn || ARRAY(
+        SELECT l.question_id
+        FROM public.exam_question_links l
+        WHERE l.exam_id = _exam_id
+        AND NOT l.question_id = ANY(_drawn)
+        ORDER BY random()
+        LIMIT GREATEST(_draw_count - cardinality(_drawn), 0)
+    );
+
+    RETURN _drawn;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_exam_questions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Open-section questions come from the exam's links
+CREATE OR REPLACE FUNCTION public.merge_attempt_answers(_attempt public.exam_attempts, _answers JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH open_questions AS (
+        SELECT l.question_id::text AS id
+        FROM public.exam_question_links l
+        WHERE l.exam_id = _attempt.exam_id
+        AND (_attempt.question_ids IS NULL OR l.question_id = ANY(_attempt.question_ids))
+        AND l.section_id IS NOT DISTINCT FROM (public.exam_section_at(_attempt.exam_id, _attempt.section_index)).id
+    )
+    SELECT COALESCE(jsonb_object_agg(entry.key, entry.value), '{}'::jsonb)
+    FROM (
+        SELECT saved.key, saved.value
+        FROM jsonb_each(_attempt.answers) saved
+        WHERE saved.key NOT IN (SELECT id FROM open_questions)
+        UNION ALL
+        SELECT given.key, given.value
+        FROM jsonb_each(COALESCE(_answers, '{}'::jsonb)) given
+        WHERE given.key IN (SELECT id FROM open_questions)
+    ) entry
+$$;
+
+-- Shuffle the questions linked to the exam
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _exam public.exams;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_exam_id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_exam_id, 0);
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_exam_id);
+        END IF;
+
+        -- Questions are only shuffled within their section
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(l.question_id ORDER BY s.order_index NULLS FIRST, s.created_at, random())
+            INTO _question_order
+            FROM public.exam_question_links l
+            LEFT JOIN public.exam_sections s ON s.id = l.section_id
+            WHERE l.exam_id = _exam_id
+            AND (_question_ids IS NULL OR l.question_id = ANY(_question_ids));
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_question_links l
+            JOIN public.questions q ON q.id = l.question_id
+            WHERE l.exam_id = _exam_id
+            AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            now() + make_interval(mins => _duration),
+            now() + make_interval(mins => _first_section.duration_minutes),
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+-- Grade the linked questions with the link's mark overrides
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _attempt.exam_id;
+
+    SELECT count(*), COALESCE(sum(COALESCE(l.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.exam_question_links l
+    WHERE l.exam_id = _exam.id
+    AND (_attempt.question_ids IS NULL OR l.question_id = ANY(_attempt.question_ids));
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _exam.id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            q.question_type,
+            q.answer,
+            qr.id AS revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, l.order_index
+            ) - 1 AS position,
+            -- An order that no longer matches the options (edited mid-attempt) is ignored
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(l.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(l.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.exam_question_links l
+        JOIN public.questions q ON q.id = l.question_id
+        LEFT JOIN public.exam_sections s ON s.id = l.section_id
+        JOIN LATERAL (
+            SELECT id FROM public.question_revisions
+            WHERE question_id = q.id
+            ORDER BY revision DESC
+            LIMIT 1
+        ) qr ON true
+        WHERE l.exam_id = _exam.id
+        AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        s.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(l.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_question_links l ON l.question_id = sa.question_id AND l.exam_id = _exam.id
+    JOIN public.exam_sections s ON s.id = l.section_id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, s.title, s.order_index, s.created_at;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
@@ -0,0 +1,250 @@
+-- Create question_difficulty enum
+CREATE TYPE public.question_difficulty AS ENUM ('easy', 'medium', 'hard');
+
+-- Questions carry a difficulty and free-form tags alongside their topic
+ALTER TABLE public.questions
+    ADD COLUMN difficulty question_difficulty,
+    ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX questions_tags_idx ON public.questions USING GIN (tags);
+
+-- Difficulty and tags are part of the content snapshotted into revisions
+CREATE OR REPLACE FUNCTION public.question_content(_question public.questions)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'question_type', _question.question_type,
+    'question_text', _question.question_text,
+    'options', _question.options,
+    'answer', _question.answer,
+    'topic', _question.topic,
+    'difficulty', _question.difficulty,
+    'tags', _question.tags
+  )
+$$;
+
+-- Create exam_result_topics table for the topic-wise score breakdown
+CREATE TABLE public.exam_result_topics (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    result_id UUID REFERENCES public.exam_results(id) ON DELETE CASCADE NOT NULL,
+    topic TEXT NOT NULL,
+    total_questions INTEGER NOT NULL,
+    correct_answers INTEGER NOT NULL DEFAULT 0,
+    wrong_answers INTEGER NOT NULL DEFAULT 0,
+    skipped_answers INTEGER NOT NULL DEFAULT 0,
+    marks_obtained NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    max_marks NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    UNIQUE (result_id, topic)
+);
+
+ALTER TABLE public.exam_result_topics ENABLE ROW LEVEL SECURITY;
+
+-- Exam result topics policies (rows are only written by grade_attempt)
+CREATE POLICY "Users can view their own result topics"
+ON public.exam_result_topics FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exam_results
+        WHERE exam_results.id = exam_result_topics.result_id
+        AND exam_results.user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Admins can view all result topics"
+ON public.exam_result_topics FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Backfill topic breakdowns for results graded before topics were tracked
+INSERT INTO public.exam_result_topics (
+    result_id, topic, total_questions,
+    correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+)
+SELECT
+    sa.result_id,
+    qr.content ->> 'topic',
+    count(*),
+    count(*) FILTER (WHERE sa.is_correct),
+    count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+    count(*) FILTER (WHERE sa.response IS NULL),
+    COALESCE(sum(sa.marks_awarded), 0),
+    COALESCE(sum(COALESCE(l.marks, e.marks_per_correct)), 0)
+FROM public.student_answers sa
+JOIN public.exam_results r ON r.id = sa.result_id
+JOIN public.exams e ON e.id = r.exam_id
+JOIN public.question_revisions qr ON qr.id = sa.question_revision_id
+LEFT JOIN public.exam_question_links l ON l.question_id = sa.question_id AND l.exam_id = r.exam_id
+WHERE qr.content ->> 'topic' IS NOT NULL
+GROUP BY sa.result_id, qr.content ->> 'topic';
+
+-- Grading also records how the attempt did per topic
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _attempt.exam_id;
+
+    SELECT count(*), COALESCE(sum(COALESCE(l.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.exam_question_links l
+    WHERE l.exam_id = _exam.id
+    AND (_attempt.question_ids IS NULL OR l.question_id = ANY(_attempt.question_ids));
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _exam.id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            q.question_type,
+            q.answer,
+            qr.id AS revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, l.order_index
+            ) - 1 AS position,
+            -- An order that no longer matches the options (edited mid-attempt) is ignored
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(l.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(l.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.exam_question_links l
+        JOIN public.questions q ON q.id = l.question_id
+        LEFT JOIN public.exam_sections s ON s.id = l.section_id
+        JOIN LATERAL (
+            SELECT id FROM public.question_revisions
+            WHERE question_id = q.id
+            ORDER BY revision DESC
+            LIMIT 1
+        ) qr ON true
+        WHERE l.exam_id = _exam.id
+        AND (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        s.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(l.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_question_links l ON l.question_id = sa.question_id AND l.exam_id = _exam.id
+    JOIN public.exam_sections s ON s.id = l.section_id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, s.title, s.order_index, s.created_at;
+
+    INSERT INTO public.exam_result_topics (
+        result_id, topic, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        qr.content ->> 'topic',
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(l.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.question_revisions qr ON qr.id = sa.question_revision_id
+    JOIN public.exam_question_links l ON l.question_id = sa.question_id AND l.exam_id = _exam.id
+    WHERE sa.result_id = _result_id
+    AND qr.content ->> 'topic' IS NOT NULL
+    GROUP BY qr.content ->> 'topic';
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
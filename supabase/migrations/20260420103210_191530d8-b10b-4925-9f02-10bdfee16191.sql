@@ -0,0 +1,56 @@
+-- Create explanation_visibility enum
+CREATE TYPE public.explanation_visibility AS ENUM ('immediately', 'after_close', 'never');
+
+-- Questions can explain their answer; the explanation is kept out of question_content,
+-- so editing it records no new revision and students only reach it through get_result_explanations
+ALTER TABLE public.questions
+    ADD COLUMN explanation TEXT;
+
+-- When students may read explanations while reviewing a result
+ALTER TABLE public.exams
+    ADD COLUMN show_explanations explanation_visibility NOT NULL DEFAULT 'immediately';
+
+-- Create function returning the explanations for a result's answers, when the exam allows them yet
+CREATE OR REPLACE FUNCTION public.get_result_explanations(_result_id UUID)
+RETURNS TABLE (answer_id UUID, explanation TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.exam_results;
+    _exam public.exams;
+BEGIN
+    SELECT * INTO _result
+    FROM public.exam_results
+    WHERE id = _result_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Result not found';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _result.exam_id;
+
+    -- Admins always see explanations; students depend on the exam setting
+    IF NOT public.has_role(auth.uid(), 'admin') AND (
+        _exam.show_explanations = 'never'
+        OR (_exam.show_explanations = 'after_close' AND _exam.is_active)
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT sa.id, q.explanation
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.result_id = _result_id
+    AND q.explanation IS NOT NULL
+    AND q.explanation <> '';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_result_explanations(UUID) FROM anon;
@@ -0,0 +1,23 @@
+-- Images referenced from question text and options. Objects are named by random
+-- UUIDs and served publicly so exams can show them without signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'question-images',
+    'question-images',
+    true,
+    5242880,
+    ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+);
+
+-- Only admins can add, replace or remove question images
+CREATE POLICY "Admins can upload question images"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'question-images' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update question images"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'question-images' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete question images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'question-images' AND public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,197 @@
+-- Create passages table: a reading passage or data set shared by a group of questions
+CREATE TABLE public.passages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_passages_updated_at
+    BEFORE UPDATE ON public.passages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Questions may refer to one passage; removing the passage leaves them standalone
+ALTER TABLE public.questions
+    ADD COLUMN passage_id UUID REFERENCES public.passages(id) ON DELETE SET NULL;
+
+CREATE INDEX questions_passage_id_idx ON public.questions (passage_id);
+
+ALTER TABLE public.passages ENABLE ROW LEVEL SECURITY;
+
+-- Passages policies
+CREATE POLICY "Authenticated users can view passages of active exams"
+ON public.passages FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.questions q
+        JOIN public.exam_question_links l ON l.question_id = q.id
+        JOIN public.exams e ON e.id = l.exam_id
+        WHERE q.passage_id = passages.id
+        AND e.is_active = true
+    )
+);
+
+CREATE POLICY "Admins can manage passages"
+ON public.passages FOR ALL
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Students see which passage each question belongs to
+CREATE OR REPLACE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    l.exam_id,
+    l.section_id,
+    q.question_type,
+    q.question_text,
+    q.options,
+    l.marks,
+    l.negative_marks,
+    l.order_index,
+    q.passage_id
+FROM public.exam_question_links l
+JOIN public.questions q ON q.id = l.question_id
+JOIN public.exams e ON e.id = l.exam_id
+WHERE e.is_active = true;
+
+-- Shuffling keeps each passage's questions together, in their editor order
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _exam public.exams;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams e
+    WHERE e.id = _exam_id
+    AND e.is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or inactive';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_exam_id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_exam_id, 0);
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_exam_id);
+        END IF;
+
+        -- Questions are only shuffled within their section, a passage's questions moving as one block
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(l.question_id ORDER BY s.order_index NULLS FIRST, s.created_at, grp.sort_key, l.order_index)
+            INTO _question_order
+            FROM public.exam_question_links l
+            JOIN public.questions q ON q.id = l.question_id
+            LEFT JOIN public.exam_sections s ON s.id = l.section_id
+            JOIN (
+                SELECT groups.group_id, random() AS sort_key
+                FROM (
+                    SELECT DISTINCT COALESCE(gq.passage_id, gq.id) AS group_id
+                    FROM public.exam_question_links gl
+                    JOIN public.questions gq ON gq.id = gl.question_id
+                    WHERE gl.exam_id = _exam_id
+                ) groups
+            ) grp ON grp.group_id = COALESCE(q.passage_id, q.id)
+            WHERE l.exam_id = _exam_id
+            AND (_question_ids IS NULL OR l.question_id = ANY(_question_ids));
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_question_links l
+            JOIN public.questions q ON q.id = l.question_id
+            WHERE l.exam_id = _exam_id
+            AND (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            now() + make_interval(mins => _duration),
+            now() + make_interval(mins => _first_section.duration_minutes),
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
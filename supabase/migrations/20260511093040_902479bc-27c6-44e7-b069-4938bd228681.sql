@@ -0,0 +1,860 @@
+-- Create exam_status enum
+CREATE TYPE public.exam_status AS ENUM ('draft', 'in_review', 'published', 'archived');
+
+-- Exams move through a review workflow instead of a live on/off switch
+ALTER TABLE public.exams
+    ADD COLUMN status exam_status NOT NULL DEFAULT 'draft';
+
+UPDATE public.exams e
+SET status = 'published'
+WHERE e.is_active = true
+AND EXISTS (SELECT 1 FROM public.exam_question_links l WHERE l.exam_id = e.id);
+
+-- Create exam_versions table holding the frozen snapshots students take. Content keeps the
+-- exam row, its sections, draw rules and passages, and each question's link settings with
+-- the revision it was published at, so later edits to the exam or the bank never reach it.
+CREATE TABLE public.exam_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    content JSONB NOT NULL,
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (exam_id, version)
+);
+
+ALTER TABLE public.exam_versions ENABLE ROW LEVEL SECURITY;
+
+-- Attempts run against the version that was published when they started;
+-- attempts finished before versioning have none
+ALTER TABLE public.exam_attempts
+    ADD COLUMN exam_version_id UUID REFERENCES public.exam_versions(id) ON DELETE CASCADE;
+
+-- Create internal function returning an exam's current content as a version snapshot
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - 'status',
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_exam(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Published exams, and exams with attempts still open, start from their current content
+INSERT INTO public.exam_versions (exam_id, version, content)
+SELECT e.id, 1, public.snapshot_exam(e.id)
+FROM public.exams e
+WHERE e.status = 'published'
+OR EXISTS (
+    SELECT 1 FROM public.exam_attempts a
+    WHERE a.exam_id = e.id
+    AND a.status = 'in_progress'
+);
+
+UPDATE public.exam_attempts a
+SET exam_version_id = v.id
+FROM public.exam_versions v
+WHERE v.exam_id = a.exam_id
+AND a.status = 'in_progress';
+
+-- Create function returning the sections of an exam version
+CREATE OR REPLACE FUNCTION public.exam_version_sections(_version_id UUID)
+RETURNS SETOF public.exam_sections
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT s.*
+    FROM public.exam_versions v
+    CROSS JOIN LATERAL jsonb_populate_recordset(NULL::public.exam_sections, v.content -> 'sections') s
+    WHERE v.id = _version_id
+$$;
+
+-- Create function returning the questions of an exam version, with the content they were published with
+CREATE OR REPLACE FUNCTION public.exam_version_questions(_version_id UUID)
+RETURNS TABLE (
+    id UUID,
+    revision_id UUID,
+    section_id UUID,
+    passage_id UUID,
+    order_index INTEGER,
+    marks NUMERIC,
+    negative_marks NUMERIC,
+    question_type question_type,
+    question_text TEXT,
+    options JSONB,
+    answer JSONB,
+    topic TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        q.id,
+        q.revision_id,
+        q.section_id,
+        q.passage_id,
+        q.order_index,
+        q.marks,
+        q.negative_marks,
+        (qr.content ->> 'question_type')::question_type,
+        qr.content ->> 'question_text',
+        qr.content -> 'options',
+        qr.content -> 'answer',
+        qr.content ->> 'topic'
+    FROM public.exam_versions v
+    CROSS JOIN LATERAL jsonb_to_recordset(v.content -> 'questions') AS q(
+        id UUID,
+        revision_id UUID,
+        section_id UUID,
+        passage_id UUID,
+        order_index INTEGER,
+        marks NUMERIC,
+        negative_marks NUMERIC
+    )
+    JOIN public.question_revisions qr ON qr.id = q.revision_id
+    WHERE v.id = _version_id
+$$;
+
+-- Section lookups read the version an attempt runs against
+DROP FUNCTION public.exam_section_at(UUID, INTEGER);
+DROP FUNCTION public.exam_minutes_after_section(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.exam_section_at(_version_id UUID, _position INTEGER)
+RETURNS public.exam_sections
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT *
+    FROM public.exam_version_sections(_version_id)
+    ORDER BY order_index, created_at
+    OFFSET _position
+    LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.exam_minutes_after_section(_version_id UUID, _position INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(sum(duration_minutes), 0)::INTEGER
+    FROM (
+        SELECT duration_minutes
+        FROM public.exam_version_sections(_version_id)
+        ORDER BY order_index, created_at
+        OFFSET _position + 1
+    ) later
+$$;
+
+-- Draw from the questions and rules of the version
+DROP FUNCTION public.draw_exam_questions(UUID);
+
+CREATE OR REPLACE FUNCTION public.draw_exam_questions(_version_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _content JSONB;
+    _draw_count INTEGER;
+    _rule RECORD;
+    _drawn UUID[] := '{}';
+BEGIN
+    SELECT content INTO _content
+    FROM public.exam_versions
+    WHERE id = _version_id;
+
+    _draw_count := (_content -> 'exam' ->> 'draw_count')::INTEGER;
+
+    FOR _rule IN
+        SELECT * FROM jsonb_to_recordset(_content -> 'draw_rules') AS r(topic TEXT, min_count INTEGER)
+    LOOP
+        _drawn := _drawn || ARRAY(
+            SELECT q.id
+            FROM public.exam_version_questions(_version_id) q
+            WHERE q.topic = _rule.topic
+            AND NOT q.id = ANY(_drawn)
+            ORDER BY random()
+            LIMIT _rule.min_count
+        );
+    END LOOP;
+
+    _drawn := _drawn || ARRAY(
+        SELECT q.id
+        FROM public.exam_version_questions(_version_id) q
+        WHERE NOT q.id = ANY(_drawn)
+        ORDER BY random()
+        LIMIT GREATEST(_draw_count - cardinality(_drawn), 0)
+    );
+
+    RETURN _drawn;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_exam_questions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Open-section questions come from the attempt's version
+CREATE OR REPLACE FUNCTION public.merge_attempt_answers(_attempt public.exam_attempts, _answers JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH open_questions AS (
+        SELECT q.id::text AS id
+        FROM public.exam_version_questions(_attempt.exam_version_id) q
+        WHERE (_attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids))
+        AND q.section_id IS NOT DISTINCT FROM (public.exam_section_at(_attempt.exam_version_id, _attempt.section_index)).id
+    )
+    SELECT COALESCE(jsonb_object_agg(entry.key, entry.value), '{}'::jsonb)
+    FROM (
+        SELECT saved.key, saved.value
+        FROM jsonb_each(_attempt.answers) saved
+        WHERE saved.key NOT IN (SELECT id FROM open_questions)
+        UNION ALL
+        SELECT given.key, given.value
+        FROM jsonb_each(COALESCE(_answers, '{}'::jsonb)) given
+        WHERE given.key IN (SELECT id FROM open_questions)
+    ) entry
+$$;
+
+-- Sections that ran out move on through the attempt's version
+CREATE OR REPLACE FUNCTION public.sync_attempt_section(_attempt_id UUID)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    FOR UPDATE;
+
+    LOOP
+        EXIT WHEN _attempt.section_deadline IS NULL
+            OR now() <= _attempt.section_deadline + public.attempt_grace_period();
+
+        _next := public.exam_section_at(_attempt.exam_version_id, _attempt.section_index + 1);
+        EXIT WHEN _next.id IS NULL;
+
+        -- The next section started when the previous one ran out, not when we noticed
+        UPDATE public.exam_attempts
+        SET section_index = _attempt.section_index + 1,
+            section_deadline = _attempt.section_deadline + make_interval(mins => _next.duration_minutes)
+        WHERE id = _attempt_id
+        RETURNING * INTO _attempt;
+    END LOOP;
+
+    RETURN _attempt;
+END;
+$$;
+
+-- Closing a section opens the next one of the attempt's version
+CREATE OR REPLACE FUNCTION public.advance_attempt_section(
+    _attempt_id UUID,
+    _answers JSONB,
+    _section_index INTEGER
+)
+RETURNS TABLE (
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+    _next_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.id = _attempt_id
+    AND a.user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' OR now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Attempt is no longer open';
+    END IF;
+
+    _attempt := public.sync_attempt_section(_attempt_id);
+
+    -- Only advance from the section the student was looking at; a retry after it already closed is a no-op
+    IF _attempt.section_index = _section_index THEN
+        _next := public.exam_section_at(_attempt.exam_version_id, _attempt.section_index + 1);
+
+        IF _next.id IS NULL THEN
+            RAISE EXCEPTION 'This is the last section';
+        END IF;
+
+        -- Leaving early forfeits the unused time; a late call never gains extra time
+        _next_deadline := least(now(), _attempt.section_deadline) + make_interval(mins => _next.duration_minutes);
+
+        UPDATE public.exam_attempts a
+        SET answers = public.merge_attempt_answers(_attempt, _answers),
+            section_index = _attempt.section_index + 1,
+            section_deadline = _next_deadline,
+            deadline = _next_deadline + make_interval(
+                mins => public.exam_minutes_after_section(_attempt.exam_version_id, _attempt.section_index + 1)
+            ),
+            last_saved_at = now()
+        WHERE a.id = _attempt_id
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT _attempt.section_index, _attempt.section_deadline, _attempt.deadline;
+END;
+$$;
+
+-- New attempts take the latest published version; open attempts keep theirs
+DROP FUNCTION public.start_exam_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    exam_version_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _version public.exam_versions;
+    _exam public.exams;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT v.* INTO _version
+    FROM public.exams e
+    JOIN public.exam_versions v ON v.exam_id = e.id
+    WHERE e.id = _exam_id
+    AND e.status = 'published'
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or not published';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        -- Timing, draws and shuffling follow the settings the version was published with
+        _exam := jsonb_populate_record(NULL::public.exams, _version.content -> 'exam');
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_version.id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_version.id, 0);
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_version.id);
+        END IF;
+
+        -- Questions are only shuffled within their section, a passage's questions moving as one block
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(q.id ORDER BY s.order_index NULLS FIRST, s.created_at, grp.sort_key, q.order_index)
+            INTO _question_order
+            FROM public.exam_version_questions(_version.id) q
+            LEFT JOIN public.exam_version_sections(_version.id) s ON s.id = q.section_id
+            JOIN (
+                SELECT groups.group_id, random() AS sort_key
+                FROM (
+                    SELECT DISTINCT COALESCE(gq.passage_id, gq.id) AS group_id
+                    FROM public.exam_version_questions(_version.id) gq
+                ) groups
+            ) grp ON grp.group_id = COALESCE(q.passage_id, q.id)
+            WHERE _question_ids IS NULL OR q.id = ANY(_question_ids);
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_version_questions(_version.id) q
+            WHERE (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, exam_version_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            _version.id,
+            now() + make_interval(mins => _duration),
+            now() + make_interval(mins => _first_section.duration_minutes),
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.exam_version_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_attempt(UUID) FROM anon;
+
+-- Grade against the settings, questions and answer keys of the attempt's version. Answers and
+-- breakdowns match questions by revision, which outlives a question deleted from the bank.
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    _exam := jsonb_populate_record(
+        NULL::public.exams,
+        (SELECT content -> 'exam' FROM public.exam_versions WHERE id = _attempt.exam_version_id)
+    );
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.exam_version_questions(_attempt.exam_version_id) q
+    WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids);
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.question_id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            live.id AS question_id,
+            q.question_type,
+            q.answer,
+            q.revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, q.order_index
+            ) - 1 AS position,
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.exam_version_questions(_attempt.exam_version_id) q
+        LEFT JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+        LEFT JOIN public.questions live ON live.id = q.id
+        WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids)
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        live.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+    LEFT JOIN public.exam_sections live ON live.id = s.id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, live.id, s.title, s.order_index, s.created_at;
+
+    INSERT INTO public.exam_result_topics (
+        result_id, topic, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        q.topic,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    WHERE sa.result_id = _result_id
+    AND q.topic IS NOT NULL
+    GROUP BY q.topic;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
+
+-- Students read questions from the versions of published exams, never the working copy
+DROP VIEW public.exam_questions;
+
+CREATE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    v.exam_id,
+    v.id AS exam_version_id,
+    q.section_id,
+    (qr.content ->> 'question_type')::question_type AS question_type,
+    qr.content ->> 'question_text' AS question_text,
+    qr.content -> 'options' AS options,
+    q.marks,
+    q.negative_marks,
+    q.order_index,
+    q.passage_id
+FROM public.exam_versions v
+JOIN public.exams e ON e.id = v.exam_id
+CROSS JOIN LATERAL jsonb_to_recordset(v.content -> 'questions') AS q(
+    id UUID,
+    revision_id UUID,
+    section_id UUID,
+    passage_id UUID,
+    order_index INTEGER,
+    marks NUMERIC,
+    negative_marks NUMERIC
+)
+JOIN public.question_revisions qr ON qr.id = q.revision_id
+WHERE e.status = 'published';
+
+REVOKE ALL ON public.exam_questions FROM anon;
+GRANT SELECT ON public.exam_questions TO authenticated;
+
+-- Sections and passages reach students through the version, so drafts stay private
+DROP POLICY "Everyone can view active exams" ON public.exams;
+DROP POLICY "Authenticated users can view sections of active exams" ON public.exam_sections;
+DROP POLICY "Authenticated users can view passages of active exams" ON public.passages;
+
+ALTER TABLE public.exams DROP COLUMN is_active;
+
+CREATE POLICY "Everyone can view published exams"
+ON public.exams FOR SELECT
+USING (status = 'published');
+
+-- Exam versions policies
+CREATE POLICY "Authenticated users can view versions of published exams"
+ON public.exam_versions FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exams
+        WHERE exams.id = exam_versions.exam_id
+        AND exams.status = 'published'
+    )
+);
+
+CREATE POLICY "Admins can view all exam versions"
+ON public.exam_versions FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create function that freezes an exam's current content as its next published version
+CREATE OR REPLACE FUNCTION public.publish_exam(_exam_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _exam public.exams;
+    _version INTEGER;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can publish exams';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _exam_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found';
+    END IF;
+
+    -- A first publication goes through review; a published exam can publish its changes
+    IF _exam.status NOT IN ('in_review', 'published') THEN
+        RAISE EXCEPTION 'Submit the exam for review before publishing it';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.exam_question_links WHERE exam_id = _exam_id) THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    SELECT COALESCE(max(version), 0) + 1 INTO _version
+    FROM public.exam_versions
+    WHERE exam_id = _exam_id;
+
+    INSERT INTO public.exam_versions (exam_id, version, content, published_by)
+    VALUES (_exam_id, _version, public.snapshot_exam(_exam_id), auth.uid());
+
+    UPDATE public.exams
+    SET status = 'published'
+    WHERE id = _exam_id;
+
+    RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_exam(UUID) FROM anon;
+
+-- Explanations shown after close wait until the exam is no longer published
+CREATE OR REPLACE FUNCTION public.get_result_explanations(_result_id UUID)
+RETURNS TABLE (answer_id UUID, explanation TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.exam_results;
+    _exam public.exams;
+BEGIN
+    SELECT * INTO _result
+    FROM public.exam_results
+    WHERE id = _result_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Result not found';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _result.exam_id;
+
+    -- Admins always see explanations; students depend on the exam setting
+    IF NOT public.has_role(auth.uid(), 'admin') AND (
+        _exam.show_explanations = 'never'
+        OR (_exam.show_explanations = 'after_close' AND _exam.status = 'published')
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT sa.id, q.explanation
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.result_id = _result_id
+    AND q.explanation IS NOT NULL
+    AND q.explanation <> '';
+END;
+$$;
@@ -0,0 +1,483 @@
+-- Exams can be scheduled: students start them only between opens_at and closes_at, and a
+-- fixed start runs every candidate's clock from opens_at, as in a live sitting
+ALTER TABLE public.exams
+    ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN fixed_start BOOLEAN NOT NULL DEFAULT false,
+    ADD CONSTRAINT exams_window_check CHECK (closes_at > opens_at),
+    ADD CONSTRAINT exams_fixed_start_check CHECK (NOT fixed_start OR opens_at IS NOT NULL);
+
+-- Create function returning when an exam stops accepting answers: its close time, or the end of
+-- a fixed-start sitting if that comes first. Null for an exam that stays open.
+CREATE OR REPLACE FUNCTION public.exam_closes_at(_exam public.exams)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT least(
+        _exam.closes_at,
+        CASE WHEN _exam.fixed_start THEN _exam.opens_at + make_interval(mins => _exam.duration_minutes) END
+    )
+$$;
+
+-- The schedule stays on the exam, so changing it never needs a new version
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - 'status' - 'opens_at' - 'closes_at' - 'fixed_start',
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- No section runs past the attempt's deadline, which the exam's close time may cut short
+CREATE OR REPLACE FUNCTION public.sync_attempt_section(_attempt_id UUID)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    FOR UPDATE;
+
+    LOOP
+        EXIT WHEN _attempt.section_deadline IS NULL
+            OR now() <= _attempt.section_deadline + public.attempt_grace_period();
+
+        _next := public.exam_section_at(_attempt.exam_version_id, _attempt.section_index + 1);
+        EXIT WHEN _next.id IS NULL;
+
+        -- The next section started when the previous one ran out, not when we noticed
+        UPDATE public.exam_attempts
+        SET section_index = _attempt.section_index + 1,
+            section_deadline = least(
+                _attempt.section_deadline + make_interval(mins => _next.duration_minutes),
+                _attempt.deadline
+            )
+        WHERE id = _attempt_id
+        RETURNING * INTO _attempt;
+    END LOOP;
+
+    RETURN _attempt;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.advance_attempt_section(
+    _attempt_id UUID,
+    _answers JSONB,
+    _section_index INTEGER
+)
+RETURNS TABLE (
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _attempt public.exam_attempts;
+    _next public.exam_sections;
+    _next_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.id = _attempt_id
+    AND a.user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found';
+    END IF;
+
+    IF _attempt.status <> 'in_progress' OR now() > _attempt.deadline + public.attempt_grace_period() THEN
+        RAISE EXCEPTION 'Attempt is no longer open';
+    END IF;
+
+    _attempt := public.sync_attempt_section(_attempt_id);
+
+    -- Only advance from the section the student was looking at; a retry after it already closed is a no-op
+    IF _attempt.section_index = _section_index THEN
+        _next := public.exam_section_at(_attempt.exam_version_id, _attempt.section_index + 1);
+
+        IF _next.id IS NULL THEN
+            RAISE EXCEPTION 'This is the last section';
+        END IF;
+
+        -- Leaving early forfeits the unused time; a late call never gains extra time
+        _next_deadline := least(
+            least(now(), _attempt.section_deadline) + make_interval(mins => _next.duration_minutes),
+            _attempt.deadline
+        );
+
+        UPDATE public.exam_attempts a
+        SET answers = public.merge_attempt_answers(_attempt, _answers),
+            section_index = _attempt.section_index + 1,
+            section_deadline = _next_deadline,
+            deadline = least(
+                _next_deadline + make_interval(
+                    mins => public.exam_minutes_after_section(_attempt.exam_version_id, _attempt.section_index + 1)
+                ),
+                _attempt.deadline
+            ),
+            last_saved_at = now()
+        WHERE a.id = _attempt_id
+        RETURNING * INTO _attempt;
+    END IF;
+
+    RETURN QUERY
+    SELECT _attempt.section_index, _attempt.section_deadline, _attempt.deadline;
+END;
+$$;
+
+-- New attempts start only while the exam is open and end by its close time
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    exam_version_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _version public.exam_versions;
+    _exam public.exams;
+    _schedule public.exams;
+    _clock_start TIMESTAMP WITH TIME ZONE;
+    _deadline TIMESTAMP WITH TIME ZONE;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT v.* INTO _version
+    FROM public.exams e
+    JOIN public.exam_versions v ON v.exam_id = e.id
+    WHERE e.id = _exam_id
+    AND e.status = 'published'
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or not published';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        -- The schedule is read from the exam itself, so it applies without publishing again
+        SELECT * INTO _schedule
+        FROM public.exams
+        WHERE id = _exam_id;
+
+        IF _schedule.opens_at > now() THEN
+            RAISE EXCEPTION 'Exam has not opened yet';
+        END IF;
+
+        -- Timing, draws and shuffling follow the settings the version was published with
+        _exam := jsonb_populate_record(NULL::public.exams, _version.content -> 'exam');
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_version.id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_version.id, 0);
+        END IF;
+
+        -- A fixed start runs the clock from the opening time, so latecomers get only what is left.
+        -- Every attempt ends by the close time.
+        _clock_start := CASE WHEN _schedule.fixed_start THEN _schedule.opens_at ELSE now() END;
+        _deadline := least(_clock_start + make_interval(mins => _duration), _schedule.closes_at);
+
+        IF _deadline <= now() THEN
+            RAISE EXCEPTION 'Exam has closed';
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_version.id);
+        END IF;
+
+        -- Questions are only shuffled within their section, a passage's questions moving as one block
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(q.id ORDER BY s.order_index NULLS FIRST, s.created_at, grp.sort_key, q.order_index)
+            INTO _question_order
+            FROM public.exam_version_questions(_version.id) q
+            LEFT JOIN public.exam_version_sections(_version.id) s ON s.id = q.section_id
+            JOIN (
+                SELECT groups.group_id, random() AS sort_key
+                FROM (
+                    SELECT DISTINCT COALESCE(gq.passage_id, gq.id) AS group_id
+                    FROM public.exam_version_questions(_version.id) gq
+                ) groups
+            ) grp ON grp.group_id = COALESCE(q.passage_id, q.id)
+            WHERE _question_ids IS NULL OR q.id = ANY(_question_ids);
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_version_questions(_version.id) q
+            WHERE (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, exam_version_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            _version.id,
+            _deadline,
+            CASE WHEN _first_section.id IS NOT NULL THEN
+                least(_clock_start + make_interval(mins => _first_section.duration_minutes), _deadline)
+            END,
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+
+        -- Sections a latecomer missed at a fixed start are already over
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.exam_version_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+-- Questions reach a student only through an open attempt, which only starts inside the exam's window
+CREATE OR REPLACE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    v.exam_id,
+    v.id AS exam_version_id,
+    q.section_id,
+    (qr.content ->> 'question_type')::question_type AS question_type,
+    qr.content ->> 'question_text' AS question_text,
+    qr.content -> 'options' AS options,
+    q.marks,
+    q.negative_marks,
+    q.order_index,
+    q.passage_id
+FROM public.exam_versions v
+JOIN public.exams e ON e.id = v.exam_id
+CROSS JOIN LATERAL jsonb_to_recordset(v.content -> 'questions') AS q(
+    id UUID,
+    revision_id UUID,
+    section_id UUID,
+    passage_id UUID,
+    order_index INTEGER,
+    marks NUMERIC,
+    negative_marks NUMERIC
+)
+JOIN public.question_revisions qr ON qr.id = q.revision_id
+WHERE e.status = 'published'
+AND EXISTS (
+    SELECT 1 FROM public.exam_attempts a
+    WHERE a.exam_version_id = v.id
+    AND a.user_id = auth.uid()
+    AND a.status = 'in_progress'
+);
+
+-- Versions hold passages, so they stay hidden until the exam opens
+DROP POLICY "Authenticated users can view versions of published exams" ON public.exam_versions;
+
+CREATE POLICY "Authenticated users can view versions of open exams"
+ON public.exam_versions FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exams
+        WHERE exams.id = exam_versions.exam_id
+        AND exams.status = 'published'
+        AND (exams.opens_at IS NULL OR exams.opens_at <= now())
+    )
+);
+
+-- Results keep showing their exam after it closes or is unpublished
+CREATE POLICY "Users can view exams they have taken"
+ON public.exams FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.exam_results
+        WHERE exam_results.exam_id = exams.id
+        AND exam_results.user_id = auth.uid()
+    )
+);
+
+-- Explanations shown after close also appear once the exam's window has closed
+CREATE OR REPLACE FUNCTION public.get_result_explanations(_result_id UUID)
+RETURNS TABLE (answer_id UUID, explanation TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.exam_results;
+    _exam public.exams;
+BEGIN
+    SELECT * INTO _result
+    FROM public.exam_results
+    WHERE id = _result_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Result not found';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _result.exam_id;
+
+    -- Admins always see explanations; students depend on the exam setting
+    IF NOT public.has_role(auth.uid(), 'admin') AND (
+        _exam.show_explanations = 'never'
+        OR (
+            _exam.show_explanations = 'after_close'
+            AND _exam.status = 'published'
+            AND (public.exam_closes_at(_exam) IS NULL OR now() < public.exam_closes_at(_exam))
+        )
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT sa.id, q.explanation
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.result_id = _result_id
+    AND q.explanation IS NOT NULL
+    AND q.explanation <> '';
+END;
+$$;
@@ -0,0 +1,298 @@
+-- Create attempt_scoring enum
+CREATE TYPE public.attempt_scoring AS ENUM ('best', 'latest', 'average');
+
+-- Retake policy: how many attempts a student gets, how long they wait between them, and which counts
+ALTER TABLE public.exams
+    ADD COLUMN max_attempts INTEGER CHECK (max_attempts > 0),
+    ADD COLUMN attempt_cooldown_minutes INTEGER NOT NULL DEFAULT 0 CHECK (attempt_cooldown_minutes >= 0),
+    ADD COLUMN attempt_scoring attempt_scoring NOT NULL DEFAULT 'best';
+
+-- Like the schedule, the retake policy stays on the exam and applies without publishing again
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - ARRAY[
+                'status', 'opens_at', 'closes_at', 'fixed_start',
+                'max_attempts', 'attempt_cooldown_minutes', 'attempt_scoring'
+            ],
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- New attempts also respect the exam's attempt limit and cooldown
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    exam_version_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _version public.exam_versions;
+    _exam public.exams;
+    _live public.exams;
+    _taken INTEGER;
+    _retake_at TIMESTAMP WITH TIME ZONE;
+    _clock_start TIMESTAMP WITH TIME ZONE;
+    _deadline TIMESTAMP WITH TIME ZONE;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT v.* INTO _version
+    FROM public.exams e
+    JOIN public.exam_versions v ON v.exam_id = e.id
+    WHERE e.id = _exam_id
+    AND e.status = 'published'
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or not published';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        -- The schedule and retake policy are read from the exam itself, so they apply without publishing again
+        SELECT * INTO _live
+        FROM public.exams
+        WHERE id = _exam_id;
+
+        IF _live.opens_at > now() THEN
+            RAISE EXCEPTION 'Exam has not opened yet';
+        END IF;
+
+        -- Every submitted or expired attempt has a result and uses up one of the student's attempts
+        SELECT count(*), max(completed_at) + make_interval(mins => _live.attempt_cooldown_minutes)
+        INTO _taken, _retake_at
+        FROM public.exam_results
+        WHERE user_id = _user_id
+        AND exam_id = _exam_id;
+
+        IF _taken >= _live.max_attempts THEN
+            RAISE EXCEPTION 'No attempts left for this exam';
+        END IF;
+
+        IF _retake_at > now() THEN
+            RAISE EXCEPTION 'You can retake this exam in % min', ceil(extract(epoch FROM _retake_at - now()) / 60);
+        END IF;
+
+        -- Timing, draws and shuffling follow the settings the version was published with
+        _exam := jsonb_populate_record(NULL::public.exams, _version.content -> 'exam');
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_version.id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_version.id, 0);
+        END IF;
+
+        -- A fixed start runs the clock from the opening time, so latecomers get only what is left.
+        -- Every attempt ends by the close time.
+        _clock_start := CASE WHEN _live.fixed_start THEN _live.opens_at ELSE now() END;
+        _deadline := least(_clock_start + make_interval(mins => _duration), _live.closes_at);
+
+        IF _deadline <= now() THEN
+            RAISE EXCEPTION 'Exam has closed';
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_version.id);
+        END IF;
+
+        -- Questions are only shuffled within their section, a passage's questions moving as one block
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(q.id ORDER BY s.order_index NULLS FIRST, s.created_at, grp.sort_key, q.order_index)
+            INTO _question_order
+            FROM public.exam_version_questions(_version.id) q
+            LEFT JOIN public.exam_version_sections(_version.id) s ON s.id = q.section_id
+            JOIN (
+                SELECT groups.group_id, random() AS sort_key
+                FROM (
+                    SELECT DISTINCT COALESCE(gq.passage_id, gq.id) AS group_id
+                    FROM public.exam_version_questions(_version.id) gq
+                ) groups
+            ) grp ON grp.group_id = COALESCE(q.passage_id, q.id)
+            WHERE _question_ids IS NULL OR q.id = ANY(_question_ids);
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_version_questions(_version.id) q
+            WHERE (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, exam_version_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            _version.id,
+            _deadline,
+            CASE WHEN _first_section.id IS NOT NULL THEN
+                least(_clock_start + make_interval(mins => _first_section.duration_minutes), _deadline)
+            END,
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+
+        -- Sections a latecomer missed at a fixed start are already over
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.exam_version_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+-- Each student's standing on each exam they have taken: the attempts used, when they may retake,
+-- and the score that counts under the exam's rule
+CREATE VIEW public.exam_scores
+WITH (security_invoker = true)
+AS
+SELECT
+    r.user_id,
+    r.exam_id,
+    e.attempt_scoring,
+    count(*)::INTEGER AS attempts,
+    max(r.completed_at) AS last_completed_at,
+    CASE e.attempt_scoring
+        WHEN 'best' THEN max(r.score)
+        WHEN 'latest' THEN (array_agg(r.score ORDER BY r.completed_at DESC))[1]
+        ELSE round(avg(r.score))::INTEGER
+    END AS counted_score,
+    -- The attempt behind the counted score; an average has none
+    CASE e.attempt_scoring
+        WHEN 'best' THEN (array_agg(r.id ORDER BY r.score DESC, r.completed_at DESC))[1]
+        WHEN 'latest' THEN (array_agg(r.id ORDER BY r.completed_at DESC))[1]
+    END AS counted_result_id
+FROM public.exam_results r
+JOIN public.exams e ON e.id = r.exam_id
+GROUP BY r.user_id, r.exam_id, e.attempt_scoring;
+
+REVOKE ALL ON public.exam_scores FROM anon;
+GRANT SELECT ON public.exam_scores TO authenticated;
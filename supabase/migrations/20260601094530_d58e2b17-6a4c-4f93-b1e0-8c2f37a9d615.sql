@@ -0,0 +1,134 @@
+-- Create categories table, replacing the fixed exam_category enum
+CREATE TABLE public.categories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+    -- Hex colour for badges and tabs, e.g. #25b15f
+    colour TEXT NOT NULL CHECK (colour ~ '^#[0-9a-f]{6}$'),
+    -- Suggested duration for new exams in the category
+    default_duration_minutes INTEGER NOT NULL CHECK (default_duration_minutes > 0),
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_categories_updated_at
+    BEFORE UPDATE ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- Categories policies
+CREATE POLICY "Everyone can view categories"
+ON public.categories FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories FOR ALL
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The enum values become the first categories, keeping their theme colours and durations
+INSERT INTO public.categories (name, colour, default_duration_minutes, order_index)
+VALUES
+    ('Basic', '#25b15f', 40, 0),
+    ('Prelims', '#0da2e7', 20, 1),
+    ('Mains', '#7a47d1', 30, 2);
+
+-- A category in use cannot be deleted until its exams move elsewhere
+ALTER TABLE public.exams
+    ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+UPDATE public.exams e
+SET category_id = c.id
+FROM public.categories c
+WHERE lower(c.name) = e.category::text;
+
+ALTER TABLE public.exams
+    ALTER COLUMN category_id SET NOT NULL,
+    DROP COLUMN category;
+
+CREATE INDEX exams_category_id_idx ON public.exams (category_id);
+
+DROP TYPE public.exam_category;
+
+-- Versions no longer carry the category; exams are grouped by their current one
+UPDATE public.exam_versions
+SET content = jsonb_set(content, '{exam}', (content -> 'exam') - 'category');
+
+-- Like the schedule, the category stays on the exam and can change without publishing again
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - ARRAY[
+                'status', 'opens_at', 'closes_at', 'fixed_start',
+                'max_attempts', 'attempt_cooldown_minutes', 'attempt_scoring', 'category_id'
+            ],
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
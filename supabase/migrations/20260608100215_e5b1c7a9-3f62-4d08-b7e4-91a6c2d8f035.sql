@@ -0,0 +1,359 @@
+-- Grade bands are an array of named lower bounds on the score, e.g. [{"name": "Merit", "min_score": 60}]
+CREATE OR REPLACE FUNCTION public.grade_bands_are_valid(_bands JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE WHEN jsonb_typeof(_bands) = 'array' THEN NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(_bands) band
+        WHERE CASE
+            WHEN jsonb_typeof(band -> 'name') = 'string' AND jsonb_typeof(band -> 'min_score') = 'number'
+            THEN btrim(band ->> 'name') = '' OR (band ->> 'min_score')::NUMERIC NOT BETWEEN 0 AND 100
+            ELSE true
+        END
+    ) ELSE false END
+$$;
+
+-- Categories set the pass mark and grade bands their exams use by default
+ALTER TABLE public.categories
+    ADD COLUMN pass_mark INTEGER CHECK (pass_mark BETWEEN 0 AND 100),
+    ADD COLUMN grade_bands JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (public.grade_bands_are_valid(grade_bands));
+
+-- An exam's own pass mark and grade bands; null uses its category's
+ALTER TABLE public.exams
+    ADD COLUMN pass_mark INTEGER CHECK (pass_mark BETWEEN 0 AND 100),
+    ADD COLUMN grade_bands JSONB CHECK (public.grade_bands_are_valid(grade_bands));
+
+-- The outcome an attempt was given when it was graded; passed is null without a pass mark
+ALTER TABLE public.exam_results
+    ADD COLUMN grade TEXT,
+    ADD COLUMN passed BOOLEAN;
+
+-- The thresholds results were coloured by become the categories' first bands
+UPDATE public.categories
+SET grade_bands = '[
+    {"name": "Excellent", "min_score": 80},
+    {"name": "Good", "min_score": 60},
+    {"name": "Fair", "min_score": 40},
+    {"name": "Needs practice", "min_score": 0}
+]'::jsonb;
+
+-- Create function that grades a score under an exam's current pass mark and bands:
+-- the highest band the score reaches, and whether it meets the pass mark
+CREATE OR REPLACE FUNCTION public.exam_grade(_exam_id UUID, _score INTEGER)
+RETURNS TABLE (grade TEXT, passed BOOLEAN)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        (
+            SELECT band ->> 'name'
+            FROM jsonb_array_elements(COALESCE(e.grade_bands, c.grade_bands)) band
+            WHERE (band ->> 'min_score')::NUMERIC <= _score
+            ORDER BY (band ->> 'min_score')::NUMERIC DESC
+            LIMIT 1
+        ),
+        _score >= COALESCE(e.pass_mark, c.pass_mark)
+    FROM public.exams e
+    JOIN public.categories c ON c.id = e.category_id
+    WHERE e.id = _exam_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_grade(UUID, INTEGER) FROM anon;
+
+-- Existing results are graded under the bands they were coloured by
+UPDATE public.exam_results r
+SET grade = outcome.grade,
+    passed = outcome.passed
+FROM public.exam_results scored
+CROSS JOIN LATERAL public.exam_grade(scored.exam_id, scored.score) outcome
+WHERE scored.id = r.id;
+
+-- Like the retake policy, grading stays on the exam and applies to attempts graded after a change
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - ARRAY[
+                'status', 'opens_at', 'closes_at', 'fixed_start',
+                'max_attempts', 'attempt_cooldown_minutes', 'attempt_scoring', 'category_id',
+                'pass_mark', 'grade_bands'
+            ],
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- Results record the grade and pass or fail they were given
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    _exam := jsonb_populate_record(
+        NULL::public.exams,
+        (SELECT content -> 'exam' FROM public.exam_versions WHERE id = _attempt.exam_version_id)
+    );
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.exam_version_questions(_attempt.exam_version_id) q
+    WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids);
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.question_id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            live.id AS question_id,
+            q.question_type,
+            q.answer,
+            q.revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, q.order_index
+            ) - 1 AS position,
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.exam_version_questions(_attempt.exam_version_id) q
+        LEFT JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+        LEFT JOIN public.questions live ON live.id = q.id
+        WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids)
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    UPDATE public.exam_results r
+    SET grade = outcome.grade,
+        passed = outcome.passed
+    FROM public.exam_grade(_attempt.exam_id, (SELECT score FROM public.exam_results WHERE id = _result_id)) outcome
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        live.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+    LEFT JOIN public.exam_sections live ON live.id = s.id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, live.id, s.title, s.order_index, s.created_at;
+
+    INSERT INTO public.exam_result_topics (
+        result_id, topic, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        q.topic,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    WHERE sa.result_id = _result_id
+    AND q.topic IS NOT NULL
+    GROUP BY q.topic;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
+
+-- The counted score's outcome: that of its attempt, or for an average, the exam's current grading of it
+CREATE OR REPLACE VIEW public.exam_scores
+WITH (security_invoker = true)
+AS
+SELECT
+    scores.user_id,
+    scores.exam_id,
+    scores.attempt_scoring,
+    scores.attempts,
+    scores.last_completed_at,
+    scores.counted_score,
+    scores.counted_result_id,
+    CASE WHEN scores.counted_result_id IS NOT NULL THEN counted.grade ELSE outcome.grade END AS counted_grade,
+    CASE WHEN scores.counted_result_id IS NOT NULL THEN counted.passed ELSE outcome.passed END AS counted_passed
+FROM (
+    SELECT
+        r.user_id,
+        r.exam_id,
+        e.attempt_scoring,
+        count(*)::INTEGER AS attempts,
+        max(r.completed_at) AS last_completed_at,
+        CASE e.attempt_scoring
+            WHEN 'best' THEN max(r.score)
+            WHEN 'latest' THEN (array_agg(r.score ORDER BY r.completed_at DESC))[1]
+            ELSE round(avg(r.score))::INTEGER
+        END AS counted_score,
+        -- The attempt behind the counted score; an average has none
+        CASE e.attempt_scoring
+            WHEN 'best' THEN (array_agg(r.id ORDER BY r.score DESC, r.completed_at DESC))[1]
+            WHEN 'latest' THEN (array_agg(r.id ORDER BY r.completed_at DESC))[1]
+        END AS counted_result_id
+    FROM public.exam_results r
+    JOIN public.exams e ON e.id = r.exam_id
+    GROUP BY r.user_id, r.exam_id, e.attempt_scoring
+) scores
+LEFT JOIN public.exam_results counted ON counted.id = scores.counted_result_id
+LEFT JOIN LATERAL public.exam_grade(scores.exam_id, scores.counted_score) outcome ON true;
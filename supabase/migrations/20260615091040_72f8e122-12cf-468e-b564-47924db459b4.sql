@@ -0,0 +1,36 @@
+-- Of a pooled exam, a student sees only the questions drawn for their open attempt, not the rest of the pool
+CREATE OR REPLACE VIEW public.exam_questions
+WITH (security_barrier = true)
+AS
+SELECT
+    q.id,
+    v.exam_id,
+    v.id AS exam_version_id,
+    q.section_id,
+    (qr.content ->> 'question_type')::question_type AS question_type,
+    qr.content ->> 'question_text' AS question_text,
+    qr.content -> 'options' AS options,
+    q.marks,
+    q.negative_marks,
+    q.order_index,
+    q.passage_id
+FROM public.exam_versions v
+JOIN public.exams e ON e.id = v.exam_id
+CROSS JOIN LATERAL jsonb_to_recordset(v.content -> 'questions') AS q(
+    id UUID,
+    revision_id UUID,
+    section_id UUID,
+    passage_id UUID,
+    order_index INTEGER,
+    marks NUMERIC,
+    negative_marks NUMERIC
+)
+JOIN public.question_revisions qr ON qr.id = q.revision_id
+WHERE e.status = 'published'
+AND EXISTS (
+    SELECT 1 FROM public.exam_attempts a
+    WHERE a.exam_version_id = v.id
+    AND a.user_id = auth.uid()
+    AND a.status = 'in_progress'
+    AND (a.question_ids IS NULL OR q.id = ANY(a.question_ids))
+);
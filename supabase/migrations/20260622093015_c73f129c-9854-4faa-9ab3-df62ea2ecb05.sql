@@ -0,0 +1,370 @@
+-- Create internal function returning an exam as students get it: its latest version's settings
+-- over the exam's own columns, which hold the settings versions leave out
+CREATE OR REPLACE FUNCTION public.published_exam(_exam_id UUID)
+RETURNS public.exams
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_populate_record(e, COALESCE(latest.content -> 'exam', '{}'::jsonb))
+    FROM public.exams e
+    LEFT JOIN LATERAL (
+        SELECT content FROM public.exam_versions
+        WHERE exam_id = e.id
+        ORDER BY version DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE e.id = _exam_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.published_exam(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The schedule is frozen with the version, so a saved draft never opens or closes a published exam
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - ARRAY[
+                'status', 'max_attempts', 'attempt_cooldown_minutes', 'attempt_scoring', 'category_id',
+                'pass_mark', 'grade_bands'
+            ],
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- Versions published before now keep the schedule their exam has
+UPDATE public.exam_versions v
+SET content = jsonb_set(
+    v.content,
+    '{exam}',
+    (v.content -> 'exam') || jsonb_build_object(
+        'opens_at', e.opens_at,
+        'closes_at', e.closes_at,
+        'fixed_start', e.fixed_start
+    )
+)
+FROM public.exams e
+WHERE e.id = v.exam_id;
+
+-- New attempts open and close on the published schedule
+CREATE OR REPLACE FUNCTION public.start_exam_attempt(_exam_id UUID)
+RETURNS TABLE (
+    id UUID,
+    exam_id UUID,
+    exam_version_id UUID,
+    started_at TIMESTAMP WITH TIME ZONE,
+    deadline TIMESTAMP WITH TIME ZONE,
+    answers JSONB,
+    current_index INTEGER,
+    section_index INTEGER,
+    section_deadline TIMESTAMP WITH TIME ZONE,
+    question_ids UUID[],
+    question_order UUID[],
+    option_orders JSONB,
+    server_time TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _version public.exam_versions;
+    _exam public.exams;
+    _taken INTEGER;
+    _retake_at TIMESTAMP WITH TIME ZONE;
+    _clock_start TIMESTAMP WITH TIME ZONE;
+    _deadline TIMESTAMP WITH TIME ZONE;
+    _duration INTEGER;
+    _first_section public.exam_sections;
+    _question_ids UUID[];
+    _question_order UUID[];
+    _option_orders JSONB;
+    _attempt public.exam_attempts;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT v.* INTO _version
+    FROM public.exams e
+    JOIN public.exam_versions v ON v.exam_id = e.id
+    WHERE e.id = _exam_id
+    AND e.status = 'published'
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found or not published';
+    END IF;
+
+    SELECT * INTO _attempt
+    FROM public.exam_attempts a
+    WHERE a.user_id = _user_id
+    AND a.exam_id = _exam_id
+    AND a.status = 'in_progress'
+    FOR UPDATE;
+
+    -- An open attempt whose deadline has passed is graded from its saved answers
+    IF FOUND AND now() > _attempt.deadline + public.attempt_grace_period() THEN
+        PERFORM public.grade_attempt(_attempt.id, 'expired');
+        _attempt := NULL;
+    ELSIF FOUND THEN
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    IF _attempt.id IS NULL THEN
+        -- Settings follow the published version, so saving a draft never changes the exam students take
+        _exam := public.published_exam(_exam_id);
+
+        IF _exam.opens_at > now() THEN
+            RAISE EXCEPTION 'Exam has not opened yet';
+        END IF;
+
+        -- Every submitted or expired attempt has a result and uses up one of the student's attempts
+        SELECT count(*), max(completed_at) + make_interval(mins => _exam.attempt_cooldown_minutes)
+        INTO _taken, _retake_at
+        FROM public.exam_results
+        WHERE user_id = _user_id
+        AND exam_id = _exam_id;
+
+        IF _taken >= _exam.max_attempts THEN
+            RAISE EXCEPTION 'No attempts left for this exam';
+        END IF;
+
+        IF _retake_at > now() THEN
+            RAISE EXCEPTION 'You can retake this exam in % min', ceil(extract(epoch FROM _retake_at - now()) / 60);
+        END IF;
+
+        _duration := _exam.duration_minutes;
+        _first_section := public.exam_section_at(_version.id, 0);
+
+        IF _first_section.id IS NOT NULL THEN
+            _duration := _first_section.duration_minutes + public.exam_minutes_after_section(_version.id, 0);
+        END IF;
+
+        -- A fixed start runs the clock from the opening time, so latecomers get only what is left.
+        -- Every attempt ends by the close time.
+        _clock_start := CASE WHEN _exam.fixed_start THEN _exam.opens_at ELSE now() END;
+        _deadline := least(_clock_start + make_interval(mins => _duration), _exam.closes_at);
+
+        IF _deadline <= now() THEN
+            RAISE EXCEPTION 'Exam has closed';
+        END IF;
+
+        IF _exam.draw_count IS NOT NULL THEN
+            _question_ids := public.draw_exam_questions(_version.id);
+        END IF;
+
+        -- Questions are only shuffled within their section, a passage's questions moving as one block
+        IF _exam.shuffle_questions THEN
+            SELECT array_agg(q.id ORDER BY s.order_index NULLS FIRST, s.created_at, grp.sort_key, q.order_index)
+            INTO _question_order
+            FROM public.exam_version_questions(_version.id) q
+            LEFT JOIN public.exam_version_sections(_version.id) s ON s.id = q.section_id
+            JOIN (
+                SELECT groups.group_id, random() AS sort_key
+                FROM (
+                    SELECT DISTINCT COALESCE(gq.passage_id, gq.id) AS group_id
+                    FROM public.exam_version_questions(_version.id) gq
+                ) groups
+            ) grp ON grp.group_id = COALESCE(q.passage_id, q.id)
+            WHERE _question_ids IS NULL OR q.id = ANY(_question_ids);
+        END IF;
+
+        IF _exam.shuffle_options THEN
+            SELECT jsonb_object_agg(
+                q.id,
+                (
+                    SELECT jsonb_agg(option_index ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(q.options) - 1) option_index
+                )
+            )
+            INTO _option_orders
+            FROM public.exam_version_questions(_version.id) q
+            WHERE (_question_ids IS NULL OR q.id = ANY(_question_ids))
+            AND q.question_type IN ('single_choice', 'multiple_choice');
+        END IF;
+
+        INSERT INTO public.exam_attempts (
+            user_id, exam_id, exam_version_id, deadline, section_deadline, question_ids, question_order, option_orders
+        )
+        VALUES (
+            _user_id,
+            _exam_id,
+            _version.id,
+            _deadline,
+            CASE WHEN _first_section.id IS NOT NULL THEN
+                least(_clock_start + make_interval(mins => _first_section.duration_minutes), _deadline)
+            END,
+            _question_ids,
+            _question_order,
+            _option_orders
+        )
+        RETURNING * INTO _attempt;
+
+        -- Sections a latecomer missed at a fixed start are already over
+        _attempt := public.sync_attempt_section(_attempt.id);
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        _attempt.id,
+        _attempt.exam_id,
+        _attempt.exam_version_id,
+        _attempt.started_at,
+        _attempt.deadline,
+        _attempt.answers,
+        _attempt.current_index,
+        _attempt.section_index,
+        _attempt.section_deadline,
+        _attempt.question_ids,
+        _attempt.question_order,
+        _attempt.option_orders,
+        now();
+END;
+$$;
+
+-- Versions hold passages, so they stay hidden until the version itself opens
+DROP POLICY "Authenticated users can view versions of open exams" ON public.exam_versions;
+
+CREATE POLICY "Authenticated users can view versions of open exams"
+ON public.exam_versions FOR SELECT
+USING (
+    (
+        exam_versions.content -> 'exam' ->> 'opens_at' IS NULL
+        OR (exam_versions.content -> 'exam' ->> 'opens_at')::TIMESTAMP WITH TIME ZONE <= now()
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.exams
+        WHERE exams.id = exam_versions.exam_id
+        AND exams.status = 'published'
+    )
+);
+
+-- Each published exam's latest settings, without the questions and passages of its version, so
+-- students can see when an exam opens before they may read the version
+CREATE VIEW public.published_exam_settings
+WITH (security_barrier = true)
+AS
+SELECT DISTINCT ON (v.exam_id)
+    v.exam_id,
+    v.content -> 'exam' AS settings
+FROM public.exam_versions v
+JOIN public.exams e ON e.id = v.exam_id
+WHERE e.status = 'published'
+ORDER BY v.exam_id, v.version DESC;
+
+REVOKE ALL ON public.published_exam_settings FROM anon;
+GRANT SELECT ON public.published_exam_settings TO authenticated;
+
+-- After-close explanations follow the published schedule
+CREATE OR REPLACE FUNCTION public.get_result_explanations(_result_id UUID)
+RETURNS TABLE (answer_id UUID, explanation TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.exam_results;
+    _exam public.exams;
+BEGIN
+    SELECT * INTO _result
+    FROM public.exam_results
+    WHERE id = _result_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Result not found';
+    END IF;
+
+    _exam := public.published_exam(_result.exam_id);
+
+    -- Admins always see explanations; students depend on the exam setting
+    IF NOT public.has_role(auth.uid(), 'admin') AND (
+        _exam.show_explanations = 'never'
+        OR (
+            _exam.show_explanations = 'after_close'
+            AND _exam.status = 'published'
+            AND (public.exam_closes_at(_exam) IS NULL OR now() < public.exam_closes_at(_exam))
+        )
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT sa.id, q.explanation
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.result_id = _result_id
+    AND q.explanation IS NOT NULL
+    AND q.explanation <> '';
+END;
+$$;
@@ -0,0 +1,146 @@
+-- The retake policy is frozen with the version too, so a saved draft never changes how many
+-- attempts students get, how long they wait or which attempt counts
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', to_jsonb(e) - ARRAY[
+                'status', 'category_id', 'pass_mark', 'grade_bands'
+            ],
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- Versions published before now keep the retake policy their exam has
+UPDATE public.exam_versions v
+SET content = jsonb_set(
+    v.content,
+    '{exam}',
+    (v.content -> 'exam') || jsonb_build_object(
+        'max_attempts', e.max_attempts,
+        'attempt_cooldown_minutes', e.attempt_cooldown_minutes,
+        'attempt_scoring', e.attempt_scoring
+    )
+)
+FROM public.exams e
+WHERE e.id = v.exam_id;
+
+-- Create function returning the retake policy an exam was published with. start_exam_attempt
+-- reads the same through published_exam.
+CREATE OR REPLACE FUNCTION public.published_retake_policy(_exam_id UUID)
+RETURNS TABLE (max_attempts INTEGER, attempt_cooldown_minutes INTEGER, attempt_scoring attempt_scoring)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT e.max_attempts, e.attempt_cooldown_minutes, e.attempt_scoring
+    FROM public.published_exam(_exam_id) e
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.published_retake_policy(UUID) FROM anon;
+
+-- Scores count under the published rule, and show the published attempt limit
+CREATE OR REPLACE VIEW public.exam_scores
+WITH (security_invoker = true)
+AS
+SELECT
+    scores.user_id,
+    scores.exam_id,
+    scores.attempt_scoring,
+    scores.attempts,
+    scores.last_completed_at,
+    scores.counted_score,
+    scores.counted_result_id,
+    CASE WHEN scores.counted_result_id IS NOT NULL THEN counted.grade ELSE outcome.grade END AS counted_grade,
+    CASE WHEN scores.counted_result_id IS NOT NULL THEN counted.passed ELSE outcome.passed END AS counted_passed,
+    scores.max_attempts
+FROM (
+    SELECT
+        r.user_id,
+        r.exam_id,
+        policy.attempt_scoring,
+        policy.max_attempts,
+        count(*)::INTEGER AS attempts,
+        max(r.completed_at) AS last_completed_at,
+        CASE policy.attempt_scoring
+            WHEN 'best' THEN max(r.score)
+            WHEN 'latest' THEN (array_agg(r.score ORDER BY r.completed_at DESC))[1]
+            ELSE round(avg(r.score))::INTEGER
+        END AS counted_score,
+        -- The attempt behind the counted score; an average has none
+        CASE policy.attempt_scoring
+            WHEN 'best' THEN (array_agg(r.id ORDER BY r.score DESC, r.completed_at DESC))[1]
+            WHEN 'latest' THEN (array_agg(r.id ORDER BY r.completed_at DESC))[1]
+        END AS counted_result_id
+    FROM public.exam_results r
+    CROSS JOIN LATERAL public.published_retake_policy(r.exam_id) policy
+    GROUP BY r.user_id, r.exam_id, policy.attempt_scoring, policy.max_attempts
+) scores
+LEFT JOIN public.exam_results counted ON counted.id = scores.counted_result_id
+LEFT JOIN LATERAL public.exam_grade(scores.exam_id, scores.counted_score) outcome ON true;
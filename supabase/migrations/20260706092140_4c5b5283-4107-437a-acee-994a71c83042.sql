@@ -0,0 +1,309 @@
+-- Grading is frozen with the version as well. A version keeps the pass mark and bands the exam
+-- resolved to when published, its own or its category's, so category changes also wait for it.
+CREATE OR REPLACE FUNCTION public.snapshot_exam(_exam_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Revisions recorded before question_content gained a field no longer match their question
+    INSERT INTO public.question_revisions (question_id, revision, content, created_by)
+    SELECT q.id, COALESCE(latest.revision, 0) + 1, public.question_content(q), auth.uid()
+    FROM public.exam_question_links l
+    JOIN public.questions q ON q.id = l.question_id
+    LEFT JOIN LATERAL (
+        SELECT revision, content FROM public.question_revisions
+        WHERE question_id = q.id
+        ORDER BY revision DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE l.exam_id = _exam_id
+    AND latest.content IS DISTINCT FROM public.question_content(q);
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'exam', (to_jsonb(e) - ARRAY['status', 'category_id']) || jsonb_build_object(
+                'pass_mark', COALESCE(e.pass_mark, c.pass_mark),
+                'grade_bands', COALESCE(e.grade_bands, c.grade_bands)
+            ),
+            'sections', COALESCE((
+                SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index, s.created_at)
+                FROM public.exam_sections s
+                WHERE s.exam_id = e.id
+            ), '[]'::jsonb),
+            'draw_rules', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('topic', r.topic, 'min_count', r.min_count) ORDER BY r.created_at)
+                FROM public.exam_draw_rules r
+                WHERE r.exam_id = e.id
+            ), '[]'::jsonb),
+            'questions', COALESCE((
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', q.id,
+                        'revision_id', qr.id,
+                        'section_id', l.section_id,
+                        'passage_id', q.passage_id,
+                        'order_index', l.order_index,
+                        'marks', l.marks,
+                        'negative_marks', l.negative_marks
+                    )
+                    ORDER BY l.order_index
+                )
+                FROM public.exam_question_links l
+                JOIN public.questions q ON q.id = l.question_id
+                JOIN LATERAL (
+                    SELECT id FROM public.question_revisions
+                    WHERE question_id = q.id
+                    ORDER BY revision DESC
+                    LIMIT 1
+                ) qr ON true
+                WHERE l.exam_id = e.id
+            ), '[]'::jsonb),
+            'passages', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('id', p.id, 'title', p.title, 'content', p.content))
+                FROM public.passages p
+                WHERE p.id IN (
+                    SELECT q.passage_id
+                    FROM public.exam_question_links l
+                    JOIN public.questions q ON q.id = l.question_id
+                    WHERE l.exam_id = e.id
+                )
+            ), '[]'::jsonb)
+        )
+        FROM public.exams e
+        JOIN public.categories c ON c.id = e.category_id
+        WHERE e.id = _exam_id
+    );
+END;
+$$;
+
+-- Versions published before now keep the grading their exam has
+UPDATE public.exam_versions v
+SET content = jsonb_set(
+    v.content,
+    '{exam}',
+    (v.content -> 'exam') || jsonb_build_object(
+        'pass_mark', COALESCE(e.pass_mark, c.pass_mark),
+        'grade_bands', COALESCE(e.grade_bands, c.grade_bands)
+    )
+)
+FROM public.exams e
+JOIN public.categories c ON c.id = e.category_id
+WHERE e.id = v.exam_id;
+
+-- Create function that grades a score under a version's pass mark and bands:
+-- the highest band the score reaches, and whether it meets the pass mark
+CREATE OR REPLACE FUNCTION public.version_grade(_version_id UUID, _score INTEGER)
+RETURNS TABLE (grade TEXT, passed BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        (
+            SELECT band ->> 'name'
+            FROM jsonb_array_elements(v.content -> 'exam' -> 'grade_bands') band
+            WHERE (band ->> 'min_score')::NUMERIC <= _score
+            ORDER BY (band ->> 'min_score')::NUMERIC DESC
+            LIMIT 1
+        ),
+        _score >= (v.content -> 'exam' ->> 'pass_mark')::INTEGER
+    FROM public.exam_versions v
+    WHERE v.id = _version_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.version_grade(UUID, INTEGER) FROM anon;
+
+-- An exam's grading is that of its published version. Exams never published since versions
+-- began still grade under their own settings.
+CREATE OR REPLACE FUNCTION public.exam_grade(_exam_id UUID, _score INTEGER)
+RETURNS TABLE (grade TEXT, passed BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        (
+            SELECT band ->> 'name'
+            FROM jsonb_array_elements(COALESCE(e.grade_bands, c.grade_bands)) band
+            WHERE (band ->> 'min_score')::NUMERIC <= _score
+            ORDER BY (band ->> 'min_score')::NUMERIC DESC
+            LIMIT 1
+        ),
+        _score >= COALESCE(e.pass_mark, c.pass_mark)
+    FROM public.published_exam(_exam_id) e
+    JOIN public.categories c ON c.id = e.category_id
+$$;
+
+-- Attempts are graded under the version they were taken on
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id UUID, _status attempt_status)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _attempt public.exam_attempts;
+    _exam public.exams;
+    _result_id UUID;
+    _total INTEGER;
+    _max_marks NUMERIC;
+BEGIN
+    SELECT * INTO _attempt
+    FROM public.exam_attempts
+    WHERE id = _attempt_id
+    AND status = 'in_progress'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Attempt not found or already submitted';
+    END IF;
+
+    _exam := jsonb_populate_record(
+        NULL::public.exams,
+        (SELECT content -> 'exam' FROM public.exam_versions WHERE id = _attempt.exam_version_id)
+    );
+
+    SELECT count(*), COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    INTO _total, _max_marks
+    FROM public.exam_version_questions(_attempt.exam_version_id) q
+    WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids);
+
+    IF _total = 0 THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    INSERT INTO public.exam_results (user_id, exam_id, total_questions, max_marks, time_taken_seconds)
+    VALUES (
+        _attempt.user_id,
+        _attempt.exam_id,
+        _total,
+        _max_marks,
+        floor(extract(epoch FROM least(now(), _attempt.deadline) - _attempt.started_at))
+    )
+    RETURNING id INTO _result_id;
+
+    INSERT INTO public.student_answers (result_id, question_id, question_revision_id, position, response, option_order, is_correct, marks_awarded)
+    SELECT
+        _result_id,
+        shown.question_id,
+        shown.revision_id,
+        shown.position,
+        mapped.response,
+        shown.option_order,
+        checked.is_correct,
+        CASE
+            WHEN mapped.response IS NULL THEN 0
+            WHEN checked.is_correct THEN shown.marks
+            ELSE -shown.penalty
+        END
+    FROM (
+        SELECT
+            q.id,
+            live.id AS question_id,
+            q.question_type,
+            q.answer,
+            q.revision_id,
+            row_number() OVER (
+                ORDER BY array_position(_attempt.question_order, q.id) NULLS LAST,
+                    s.order_index NULLS FIRST, s.created_at, q.order_index
+            ) - 1 AS position,
+            CASE
+                WHEN jsonb_array_length(_attempt.option_orders -> q.id::text) = jsonb_array_length(q.options)
+                THEN _attempt.option_orders -> q.id::text
+            END AS option_order,
+            COALESCE(q.marks, _exam.marks_per_correct) AS marks,
+            COALESCE(q.negative_marks, _exam.negative_marks) AS penalty
+        FROM public.exam_version_questions(_attempt.exam_version_id) q
+        LEFT JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+        LEFT JOIN public.questions live ON live.id = q.id
+        WHERE _attempt.question_ids IS NULL OR q.id = ANY(_attempt.question_ids)
+    ) shown
+    CROSS JOIN LATERAL (
+        SELECT public.canonical_response(shown.question_type, _attempt.answers -> shown.id::text, shown.option_order) AS response
+    ) mapped
+    CROSS JOIN LATERAL (
+        SELECT public.is_response_correct(shown.question_type, shown.answer, mapped.response) AS is_correct
+    ) checked;
+
+    UPDATE public.exam_results r
+    SET correct_answers = totals.correct,
+        wrong_answers = totals.wrong,
+        skipped_answers = totals.skipped,
+        marks_obtained = totals.obtained,
+        marks_lost = totals.lost,
+        score = CASE
+            WHEN _max_marks > 0 THEN GREATEST(0, round(totals.obtained * 100 / _max_marks))
+            ELSE 0
+        END
+    FROM (
+        SELECT
+            count(*) FILTER (WHERE is_correct) AS correct,
+            count(*) FILTER (WHERE response IS NOT NULL AND NOT is_correct) AS wrong,
+            count(*) FILTER (WHERE response IS NULL) AS skipped,
+            COALESCE(sum(marks_awarded), 0) AS obtained,
+            COALESCE(-sum(marks_awarded) FILTER (WHERE marks_awarded < 0), 0) AS lost
+        FROM public.student_answers
+        WHERE result_id = _result_id
+    ) totals
+    WHERE r.id = _result_id;
+
+    UPDATE public.exam_results r
+    SET grade = outcome.grade,
+        passed = outcome.passed
+    FROM public.version_grade(_attempt.exam_version_id, (SELECT score FROM public.exam_results WHERE id = _result_id)) outcome
+    WHERE r.id = _result_id;
+
+    INSERT INTO public.exam_result_sections (
+        result_id, section_id, title, position, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        live.id,
+        s.title,
+        row_number() OVER (ORDER BY s.order_index, s.created_at) - 1,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    JOIN public.exam_version_sections(_attempt.exam_version_id) s ON s.id = q.section_id
+    LEFT JOIN public.exam_sections live ON live.id = s.id
+    WHERE sa.result_id = _result_id
+    GROUP BY s.id, live.id, s.title, s.order_index, s.created_at;
+
+    INSERT INTO public.exam_result_topics (
+        result_id, topic, total_questions,
+        correct_answers, wrong_answers, skipped_answers, marks_obtained, max_marks
+    )
+    SELECT
+        _result_id,
+        q.topic,
+        count(*),
+        count(*) FILTER (WHERE sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NOT NULL AND NOT sa.is_correct),
+        count(*) FILTER (WHERE sa.response IS NULL),
+        COALESCE(sum(sa.marks_awarded), 0),
+        COALESCE(sum(COALESCE(q.marks, _exam.marks_per_correct)), 0)
+    FROM public.student_answers sa
+    JOIN public.exam_version_questions(_attempt.exam_version_id) q ON q.revision_id = sa.question_revision_id
+    WHERE sa.result_id = _result_id
+    AND q.topic IS NOT NULL
+    GROUP BY q.topic;
+
+    UPDATE public.exam_attempts
+    SET status = _status,
+        submitted_at = now(),
+        result_id = _result_id
+    WHERE id = _attempt_id;
+
+    RETURN _result_id;
+END;
+$$;
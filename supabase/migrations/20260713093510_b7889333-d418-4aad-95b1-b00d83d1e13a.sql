@@ -0,0 +1,142 @@
+-- Create exam_version_explanations table holding each question's explanation as its version was
+-- published. They stay out of the version content, which students read while taking the exam.
+CREATE TABLE public.exam_version_explanations (
+    exam_version_id UUID REFERENCES public.exam_versions(id) ON DELETE CASCADE NOT NULL,
+    question_revision_id UUID REFERENCES public.question_revisions(id) ON DELETE CASCADE NOT NULL,
+    explanation TEXT NOT NULL,
+    PRIMARY KEY (exam_version_id, question_revision_id)
+);
+
+ALTER TABLE public.exam_version_explanations ENABLE ROW LEVEL SECURITY;
+
+-- Students get explanations only through get_result_explanations
+CREATE POLICY "Admins can view all version explanations"
+ON public.exam_version_explanations FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Versions published before now keep the explanations their questions have
+INSERT INTO public.exam_version_explanations (exam_version_id, question_revision_id, explanation)
+SELECT v.id, q.revision_id, live.explanation
+FROM public.exam_versions v
+CROSS JOIN LATERAL public.exam_version_questions(v.id) q
+JOIN public.questions live ON live.id = q.id
+WHERE live.explanation IS NOT NULL
+AND live.explanation <> '';
+
+-- Publishing freezes the explanations along with the version
+CREATE OR REPLACE FUNCTION public.publish_exam(_exam_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _exam public.exams;
+    _version INTEGER;
+    _version_id UUID;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can publish exams';
+    END IF;
+
+    SELECT * INTO _exam
+    FROM public.exams
+    WHERE id = _exam_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam not found';
+    END IF;
+
+    -- A first publication goes through review; a published exam can publish its changes
+    IF _exam.status NOT IN ('in_review', 'published') THEN
+        RAISE EXCEPTION 'Submit the exam for review before publishing it';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.exam_question_links WHERE exam_id = _exam_id) THEN
+        RAISE EXCEPTION 'Exam has no questions';
+    END IF;
+
+    SELECT COALESCE(max(version), 0) + 1 INTO _version
+    FROM public.exam_versions
+    WHERE exam_id = _exam_id;
+
+    INSERT INTO public.exam_versions (exam_id, version, content, published_by)
+    VALUES (_exam_id, _version, public.snapshot_exam(_exam_id), auth.uid())
+    RETURNING id INTO _version_id;
+
+    INSERT INTO public.exam_version_explanations (exam_version_id, question_revision_id, explanation)
+    SELECT _version_id, q.revision_id, live.explanation
+    FROM public.exam_version_questions(_version_id) q
+    JOIN public.questions live ON live.id = q.id
+    WHERE live.explanation IS NOT NULL
+    AND live.explanation <> '';
+
+    UPDATE public.exams
+    SET status = 'published'
+    WHERE id = _exam_id;
+
+    RETURN _version;
+END;
+$$;
+
+-- Results show the explanations of the version they were taken on
+CREATE OR REPLACE FUNCTION public.get_result_explanations(_result_id UUID)
+RETURNS TABLE (answer_id UUID, explanation TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _result public.exam_results;
+    _exam public.exams;
+    _version_id UUID;
+BEGIN
+    SELECT * INTO _result
+    FROM public.exam_results
+    WHERE id = _result_id
+    AND (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Result not found';
+    END IF;
+
+    _exam := public.published_exam(_result.exam_id);
+
+    -- Admins always see explanations; students depend on the exam setting
+    IF NOT public.has_role(auth.uid(), 'admin') AND (
+        _exam.show_explanations = 'never'
+        OR (
+            _exam.show_explanations = 'after_close'
+            AND _exam.status = 'published'
+            AND (public.exam_closes_at(_exam) IS NULL OR now() < public.exam_closes_at(_exam))
+        )
+    ) THEN
+        RETURN;
+    END IF;
+
+    SELECT exam_version_id INTO _version_id
+    FROM public.exam_attempts
+    WHERE result_id = _result_id;
+
+    -- Results from before versions began show their questions' current explanations
+    IF _version_id IS NULL THEN
+        RETURN QUERY
+        SELECT sa.id, q.explanation
+        FROM public.student_answers sa
+        JOIN public.questions q ON q.id = sa.question_id
+        WHERE sa.result_id = _result_id
+        AND q.explanation IS NOT NULL
+        AND q.explanation <> '';
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT sa.id, x.explanation
+    FROM public.student_answers sa
+    JOIN public.exam_version_explanations x ON x.question_revision_id = sa.question_revision_id
+    WHERE sa.result_id = _result_id
+    AND x.exam_version_id = _version_id;
+END;
+$$;
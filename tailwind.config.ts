@@ -63,11 +63,6 @@ export default {
           DEFAULT: "hsl(var(--info))",
           foreground: "hsl(var(--info-foreground))",
         },
-        exam: {
-          basic: "hsl(var(--exam-basic))",
-          prelims: "hsl(var(--exam-prelims))",
-          mains: "hsl(var(--exam-mains))",
-        },
         sidebar: {
           DEFAULT: "hsl(var(--sidebar-background))",
           foreground: "hsl(var(--sidebar-foreground))",